@@ -0,0 +1,22 @@
+import { NextRequest, NextResponse } from "next/server";
+import { isAuthorizedCron } from "@/lib/cron";
+import { syncJobs } from "@/lib/jobs";
+
+// Polls GitHub for every unfinished workflow run and notifies chats on completion
+export async function GET(request: NextRequest): Promise<NextResponse> {
+  if (!isAuthorizedCron(request)) {
+    return NextResponse.json({ ok: false }, { status: 401 });
+  }
+
+  try {
+    const jobs = await syncJobs();
+    return NextResponse.json({
+      ok: true,
+      synced: jobs.length,
+      completed: jobs.filter((j) => j.status === "completed").length,
+    });
+  } catch (error) {
+    console.error("Job sync error:", error);
+    return NextResponse.json({ ok: false }, { status: 500 });
+  }
+}
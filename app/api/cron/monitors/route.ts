@@ -0,0 +1,22 @@
+import { NextRequest, NextResponse } from "next/server";
+import { isAuthorizedCron } from "@/lib/cron";
+import { runDueMonitors } from "@/lib/monitors";
+
+// Runs every uptime monitor whose interval has elapsed
+export async function GET(request: NextRequest): Promise<NextResponse> {
+  if (!isAuthorizedCron(request)) {
+    return NextResponse.json({ ok: false }, { status: 401 });
+  }
+
+  try {
+    const checked = await runDueMonitors();
+    return NextResponse.json({
+      ok: true,
+      checked: checked.length,
+      down: checked.filter((m) => m.status === "down").length,
+    });
+  } catch (error) {
+    console.error("Monitor run error:", error);
+    return NextResponse.json({ ok: false }, { status: 500 });
+  }
+}
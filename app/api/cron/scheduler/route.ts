@@ -0,0 +1,18 @@
+import { NextRequest, NextResponse } from "next/server";
+import { isAuthorizedCron } from "@/lib/cron";
+import { runScheduler } from "@/lib/scheduler";
+
+// Delivers due /remind reminders and, once each morning, the daily digest
+export async function GET(request: NextRequest): Promise<NextResponse> {
+  if (!isAuthorizedCron(request)) {
+    return NextResponse.json({ ok: false }, { status: 401 });
+  }
+
+  try {
+    const result = await runScheduler();
+    return NextResponse.json({ ok: true, ...result });
+  } catch (error) {
+    console.error("Scheduler error:", error);
+    return NextResponse.json({ ok: false }, { status: 500 });
+  }
+}
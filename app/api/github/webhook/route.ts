@@ -0,0 +1,140 @@
+import { NextRequest, NextResponse } from "next/server";
+import { verifyHmacSignature } from "@/lib/signatures";
+import {
+  PushEventSchema,
+  PullRequestEventSchema,
+  WorkflowRunEventSchema,
+  CheckSuiteEventSchema,
+  formatPushEvent,
+  formatPullRequestEvent,
+  formatWorkflowRunEvent,
+  formatCheckSuiteEvent,
+  workflowFileName,
+} from "@/lib/github-events";
+import {
+  GitHubEventType,
+  getSubscribedChats,
+  isGitHubEventType,
+} from "@/lib/subscriptions";
+import { handleWorkflowRunEvent } from "@/lib/jobs";
+import { sendMessage, SafeHtml } from "@/lib/telegram";
+
+/**
+ * Parse a payload and build its summary - null when the event isn't relayed
+ */
+function summarize(
+  event: GitHubEventType,
+  body: unknown,
+): { repo: string; summary: SafeHtml | null } | null {
+  switch (event) {
+    case "push": {
+      const parsed = PushEventSchema.safeParse(body);
+      if (!parsed.success) return null;
+      return {
+        repo: parsed.data.repository.name,
+        summary: formatPushEvent(parsed.data),
+      };
+    }
+    case "pull_request": {
+      const parsed = PullRequestEventSchema.safeParse(body);
+      if (!parsed.success) return null;
+      return {
+        repo: parsed.data.repository.name,
+        summary: formatPullRequestEvent(parsed.data),
+      };
+    }
+    case "workflow_run": {
+      const parsed = WorkflowRunEventSchema.safeParse(body);
+      if (!parsed.success) return null;
+      return {
+        repo: parsed.data.repository.name,
+        summary: formatWorkflowRunEvent(parsed.data),
+      };
+    }
+    case "check_suite": {
+      const parsed = CheckSuiteEventSchema.safeParse(body);
+      if (!parsed.success) return null;
+      return {
+        repo: parsed.data.repository.name,
+        summary: formatCheckSuiteEvent(parsed.data),
+      };
+    }
+  }
+}
+
+export async function POST(request: NextRequest): Promise<NextResponse> {
+  const secret = process.env.GITHUB_WEBHOOK_SECRET;
+
+  // Fail closed - unsigned payloads could spoof build results into chats
+  if (!secret) {
+    console.error("GitHub webhook: GITHUB_WEBHOOK_SECRET not set");
+    return NextResponse.json({ ok: false }, { status: 503 });
+  }
+
+  // Signature covers the raw bytes, so read text before parsing
+  const rawBody = await request.text();
+  const valid = verifyHmacSignature({
+    body: rawBody,
+    signature: request.headers.get("x-hub-signature-256"),
+    secret,
+    algorithm: "sha256",
+    prefix: "sha256=",
+  });
+
+  if (!valid) {
+    console.error("GitHub webhook: Invalid signature");
+    return NextResponse.json({ ok: false }, { status: 401 });
+  }
+
+  const event = request.headers.get("x-github-event") || "";
+
+  if (!isGitHubEventType(event)) {
+    // ping and anything we don't relay
+    return NextResponse.json({ ok: true, ignored: event });
+  }
+
+  try {
+    const body = JSON.parse(rawBody);
+
+    // Completed runs also close out jobs dispatched from Telegram
+    let notifiedChat: number | null = null;
+    if (event === "workflow_run") {
+      const parsed = WorkflowRunEventSchema.safeParse(body);
+      if (parsed.success) {
+        const job = await handleWorkflowRunEvent(
+          parsed.data.workflow_run,
+          workflowFileName(parsed.data.workflow_run.path),
+          parsed.data.repository.full_name,
+        );
+        if (job?.notified) notifiedChat = job.chatId;
+      }
+    }
+
+    const result = summarize(event, body);
+    if (!result?.summary) {
+      return NextResponse.json({ ok: true, relayed: 0 });
+    }
+
+    // The dispatching chat already got the job result
+    const chats = (await getSubscribedChats(result.repo, event)).filter(
+      (chatId) => chatId !== notifiedChat,
+    );
+    const sent = await Promise.allSettled(
+      chats.map((chatId) => sendMessage(chatId, result.summary!)),
+    );
+
+    return NextResponse.json({
+      ok: true,
+      relayed: sent.filter((s) => s.status === "fulfilled").length,
+    });
+  } catch (error) {
+    console.error("GitHub webhook error:", error);
+    // 200 so GitHub doesn't mark the hook as failing on our bugs
+    return NextResponse.json({ ok: true });
+  }
+}
+
+// Return 405 Method Not Allowed - no status leak
+export async function GET(): Promise<NextResponse> {
+  return NextResponse.json({ error: "Method not allowed" }, { status: 405 });
+}
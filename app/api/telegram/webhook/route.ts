@@ -1,6 +1,18 @@
 import { NextRequest, NextResponse } from "next/server";
 import { z } from "zod";
-import { handleCommand } from "@/lib/commands";
+import { handleCommand, handleCallbackQuery } from "@/lib/commands";
+
+const TelegramUserSchema = z.object({
+  id: z.number(),
+  is_bot: z.boolean(),
+  first_name: z.string(),
+  username: z.string().optional(),
+});
+
+const TelegramChatSchema = z.object({
+  id: z.number(),
+  type: z.string(),
+});
 
 // Zod schema for Telegram webhook updates - validates at runtime
 const TelegramUpdateSchema = z.object({
@@ -8,20 +20,25 @@ const TelegramUpdateSchema = z.object({
   message: z
     .object({
       message_id: z.number(),
-      from: z.object({
-        id: z.number(),
-        is_bot: z.boolean(),
-        first_name: z.string(),
-        username: z.string().optional(),
-      }),
-      chat: z.object({
-        id: z.number(),
-        type: z.string(),
-      }),
+      from: TelegramUserSchema,
+      chat: TelegramChatSchema,
       date: z.number(),
       text: z.string().optional(),
     })
     .optional(),
+  callback_query: z
+    .object({
+      id: z.string(),
+      from: TelegramUserSchema,
+      message: z
+        .object({
+          message_id: z.number(),
+          chat: TelegramChatSchema,
+        })
+        .optional(),
+      data: z.string().optional(),
+    })
+    .optional(),
 });
 
 export async function POST(request: NextRequest): Promise<NextResponse> {
@@ -55,6 +72,15 @@ export async function POST(request: NextRequest): Promise<NextResponse> {
       await handleCommand(chatId, userId, text);
     }
 
+    const query = update.callback_query;
+
+    if (query?.data) {
+      // Inline-mode queries have no message - reply to the user directly
+      const chatId = query.message?.chat.id ?? query.from.id;
+
+      await handleCallbackQuery(chatId, query.from.id, query.id, query.data);
+    }
+
     return NextResponse.json({ ok: true });
   } catch (error) {
     console.error("Webhook error:", error);
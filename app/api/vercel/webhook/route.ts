@@ -0,0 +1,150 @@
+import { NextRequest, NextResponse, after } from "next/server";
+import { verifyHmacSignature } from "@/lib/signatures";
+import {
+  VercelDeploymentEventSchema,
+  VercelDeploymentEvent,
+  formatDeploymentEvent,
+  deploymentErrorKeyboard,
+} from "@/lib/vercel-events";
+import { getProjectChats } from "@/lib/project-watchers";
+import { diagnoseProject, formatFixForTelegram } from "@/lib/ai-operations";
+import {
+  resolveProductionUrl,
+  runPostDeploySpeedTest,
+  formatRegressionAlert,
+} from "@/lib/speed-history";
+import { sendMessage } from "@/lib/telegram";
+
+/**
+ * Diagnose a failed deploy with Claude and send the suggested fix
+ */
+async function sendAutoFix(
+  projectName: string,
+  deploymentId: string,
+  chats: number[],
+): Promise<void> {
+  const result = await diagnoseProject(projectName, deploymentId);
+
+  if (!result.success) {
+    console.error("Vercel webhook: auto-fix failed:", result.error);
+    return;
+  }
+
+  const diagnosis = formatFixForTelegram(projectName, result);
+  await Promise.allSettled(
+    chats.map((chatId) => sendMessage(chatId, diagnosis)),
+  );
+}
+
+/**
+ * Compare production vitals against the previous deploy
+ */
+async function sendSpeedRegressions(
+  event: VercelDeploymentEvent,
+  chats: number[],
+): Promise<void> {
+  const { deployment, project } = event.payload;
+  const url = await resolveProductionUrl(
+    project?.id || deployment.name,
+    deployment.url,
+  );
+
+  const { regressions } = await runPostDeploySpeedTest(url, deployment.id);
+  if (regressions.length === 0) return;
+
+  const regressionAlert = formatRegressionAlert(
+    deployment.name,
+    url,
+    regressions,
+  );
+  await Promise.allSettled(
+    chats.map((chatId) => sendMessage(chatId, regressionAlert)),
+  );
+}
+
+export async function POST(request: NextRequest): Promise<NextResponse> {
+  const secret = process.env.VERCEL_WEBHOOK_SECRET;
+
+  // Fail closed - unsigned payloads could spoof deploy alerts into chats
+  if (!secret) {
+    console.error("Vercel webhook: VERCEL_WEBHOOK_SECRET not set");
+    return NextResponse.json({ ok: false }, { status: 503 });
+  }
+
+  // Signature covers the raw bytes, so read text before parsing
+  const rawBody = await request.text();
+  const valid = verifyHmacSignature({
+    body: rawBody,
+    signature: request.headers.get("x-vercel-signature"),
+    secret,
+    algorithm: "sha1",
+  });
+
+  if (!valid) {
+    console.error("Vercel webhook: Invalid signature");
+    return NextResponse.json({ ok: false }, { status: 401 });
+  }
+
+  try {
+    const parsed = VercelDeploymentEventSchema.safeParse(JSON.parse(rawBody));
+
+    if (!parsed.success) {
+      // Other event types (project.created, domain...) aren't relayed
+      return NextResponse.json({ ok: true, relayed: 0 });
+    }
+
+    const event = parsed.data;
+    const { deployment, target } = event.payload;
+    const isError = event.type === "deployment.error";
+
+    // Preview builds are noisy - only failures get through for them
+    if (!isError && target !== "production") {
+      return NextResponse.json({ ok: true, relayed: 0 });
+    }
+
+    const chats = await getProjectChats(deployment.name);
+    const alert = formatDeploymentEvent(event);
+    const keyboard = isError
+      ? deploymentErrorKeyboard(deployment.name)
+      : undefined;
+
+    await Promise.allSettled(
+      chats.map((chatId) =>
+        sendMessage(chatId, alert, { reply_markup: keyboard }),
+      ),
+    );
+
+    // Diagnosis (Claude) and speed tests (PageSpeed) can take a minute -
+    // run them after responding so they can't time the webhook out
+    if (isError && process.env.VERCEL_AUTO_FIX === "true" && chats.length > 0) {
+      after(() =>
+        sendAutoFix(deployment.name, deployment.id, chats).catch((error) =>
+          console.error("Vercel webhook: auto-fix error:", error),
+        ),
+      );
+    }
+
+    if (
+      event.type === "deployment.succeeded" &&
+      process.env.SPEED_TEST_ON_DEPLOY === "true" &&
+      chats.length > 0
+    ) {
+      after(() =>
+        sendSpeedRegressions(event, chats).catch((error) =>
+          console.error("Vercel webhook: speed test error:", error),
+        ),
+      );
+    }
+
+    return NextResponse.json({ ok: true, relayed: chats.length });
+  } catch (error) {
+    console.error("Vercel webhook error:", error);
+    // 200 so Vercel doesn't retry on our bugs
+    return NextResponse.json({ ok: true });
+  }
+}
+
+// Return 405 Method Not Allowed - no status leak
+export async function GET(): Promise<NextResponse> {
+  return NextResponse.json({ error: "Method not allowed" }, { status: 405 });
+}
@@ -4,6 +4,13 @@
  */
 
 import Anthropic from "@anthropic-ai/sdk";
+import { markup, SafeHtml } from "./telegram";
+import {
+  getProject,
+  listDeployments,
+  getDeploymentLogs,
+  getRuntimeLogs,
+} from "./vercel";
 
 const anthropic = new Anthropic({
   apiKey: process.env.ANTHROPIC_API_KEY,
@@ -85,6 +92,54 @@ Be concise and actionable. Focus on the most critical issue first.`;
   }
 }
 
+/**
+ * Pull a project's runtime errors and build logs from Vercel, then analyze them
+ * Shared by /fix and the Vercel deployment webhook
+ */
+export async function diagnoseProject(
+  projectName: string,
+  deploymentId?: string,
+): Promise<AIAnalysisResult> {
+  const project = await getProject(projectName);
+  if (!project) {
+    return {
+      success: false,
+      analysis: "",
+      recommendations: [],
+      error: `Project ${projectName} not found.`,
+    };
+  }
+
+  const buildDeploymentId =
+    deploymentId || (await listDeployments(project.id, 1))[0]?.id;
+  const errorLogs = await getRuntimeLogs(project.id, {
+    level: "error",
+    limit: 10,
+  });
+  const buildLogs = buildDeploymentId
+    ? await getDeploymentLogs(buildDeploymentId)
+    : [];
+
+  return analyzeAndFix(
+    projectName,
+    errorLogs.map((l) => l.message),
+    buildLogs,
+  );
+}
+
+/**
+ * Format a fix analysis for Telegram display
+ */
+export function formatFixForTelegram(
+  projectName: string,
+  result: AIAnalysisResult,
+): SafeHtml {
+  const fixes = result.fixes?.join("\n\n") || "No specific fix identified";
+  const recommendations = result.recommendations?.join("\n") || "";
+
+  return markup`🔧 <b>AI FIX ANALYSIS: ${projectName}</b>\n\n<b>Root Cause:</b>\n${result.analysis || "No errors detected"}\n\n<b>Fix:</b>\n<pre>${fixes}</pre>\n\n${recommendations ? markup`<b>Prevention:</b>\n${recommendations}` : ""}`;
+}
+
 /**
  * AI Code Review for a project
  */
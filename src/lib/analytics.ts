@@ -3,6 +3,21 @@
  * Speed tests, SEO analysis, uptime monitoring
  */
 
+import { escapeHtml } from "./telegram";
+import {
+  APEX_FINISHING_ENGINE,
+  INTERFACE_PERFECTION_ENGINE,
+} from "./engine-protocols";
+import {
+  parseHtml,
+  metaContent,
+  linksByRel,
+  parseJsonLd,
+  jsonLdTypes,
+  headingOutline,
+  HTMLElement,
+} from "./html-dom";
+
 export interface SpeedTestResult {
   success: boolean;
   url: string;
@@ -23,6 +38,15 @@ export interface SpeedTestResult {
   error?: string;
 }
 
+export type SEOSeverity = "critical" | "warning" | "info";
+
+export interface SEOIssue {
+  check: string;
+  severity: SEOSeverity;
+  message: string;
+  fix: string;
+}
+
 export interface SEOResult {
   success: boolean;
   url: string;
@@ -31,13 +55,53 @@ export interface SEOResult {
     title: { present: boolean; length: number; optimal: boolean };
     description: { present: boolean; length: number; optimal: boolean };
     h1: { present: boolean; count: number };
-    images: { total: number; withAlt: number };
+    headings: { outline: string[]; skippedLevels: string[] };
+    images: {
+      total: number;
+      withAlt: number;
+      withDimensions: number;
+      lazy: number;
+    };
     https: boolean;
     mobile: boolean;
-    openGraph: boolean;
-    structuredData: boolean;
+    lang: string | null;
+    canonical: {
+      present: boolean;
+      url: string | null;
+      selfReferencing: boolean;
+    };
+    openGraph: { present: boolean; missing: string[] };
+    twitterCard: { present: boolean; card: string | null; missing: string[] };
+    structuredData: { present: boolean; types: string[]; errors: string[] };
   };
-  recommendations: string[];
+  issues: SEOIssue[];
+  error?: string;
+}
+
+export type A11yStatus = "pass" | "warn" | "fail" | "skip";
+
+export interface A11yCheck {
+  id: string;
+  // Checklist item from the engine protocols this check verifies
+  standard: string;
+  status: A11yStatus;
+  details: string[];
+  fix: string;
+}
+
+export interface ContrastPair {
+  foreground: string;
+  background: string;
+  ratio: number;
+  required: number;
+}
+
+export interface AccessibilityResult {
+  success: boolean;
+  url: string;
+  score: number;
+  checks: A11yCheck[];
+  contrast: ContrastPair[];
   error?: string;
 }
 
@@ -184,8 +248,347 @@ function extractRecommendations(
   return failed;
 }
 
+// Open Graph tags every share preview needs
+const OG_REQUIRED = ["og:title", "og:description", "og:image", "og:url"];
+// Twitter falls back to the og: equivalent when its own tag is absent
+const TWITTER_FALLBACKS: Record<string, string> = {
+  "twitter:title": "og:title",
+  "twitter:description": "og:description",
+  "twitter:image": "og:image",
+};
+
+// Points deducted from 100 per issue
+const SEVERITY_WEIGHT: Record<SEOSeverity, number> = {
+  critical: 15,
+  warning: 5,
+  info: 2,
+};
+
+function emptySEOChecks(url: string): SEOResult["checks"] {
+  return {
+    title: { present: false, length: 0, optimal: false },
+    description: { present: false, length: 0, optimal: false },
+    h1: { present: false, count: 0 },
+    headings: { outline: [], skippedLevels: [] },
+    images: { total: 0, withAlt: 0, withDimensions: 0, lazy: 0 },
+    https: url.startsWith("https"),
+    mobile: false,
+    lang: null,
+    canonical: { present: false, url: null, selfReferencing: false },
+    openGraph: { present: false, missing: OG_REQUIRED },
+    twitterCard: { present: false, card: null, missing: [] },
+    structuredData: { present: false, types: [], errors: [] },
+  };
+}
+
+/**
+ * Run every on-page check against a parsed document
+ */
+function analyzeSEO(
+  url: string,
+  root: HTMLElement,
+): { checks: SEOResult["checks"]; issues: SEOIssue[] } {
+  const issues: SEOIssue[] = [];
+  const issue = (
+    check: string,
+    severity: SEOSeverity,
+    message: string,
+    fix: string,
+  ) => issues.push({ check, severity, message, fix });
+
+  // Title & description
+  const title = root.querySelector("title")?.text.trim() || "";
+  const description = metaContent(root, "description");
+
+  if (!title) {
+    issue(
+      "title",
+      "critical",
+      "Missing <title>",
+      "Add a unique <title> of 30-60 characters",
+    );
+  } else if (title.length < 30 || title.length > 60) {
+    issue(
+      "title",
+      "warning",
+      `Title is ${title.length} characters`,
+      "Keep the title between 30 and 60 characters",
+    );
+  }
+
+  if (!description) {
+    issue(
+      "description",
+      "critical",
+      "Missing meta description",
+      'Add <meta name="description"> with 120-160 characters',
+    );
+  } else if (description.length < 120 || description.length > 160) {
+    issue(
+      "description",
+      "warning",
+      `Description is ${description.length} characters`,
+      "Keep the description between 120 and 160 characters",
+    );
+  }
+
+  const { outline, skippedLevels, h1Count } = headingOutline(root);
+
+  if (h1Count === 0) {
+    issue(
+      "h1",
+      "critical",
+      "No <h1> heading",
+      "Add one <h1> describing the page",
+    );
+  } else if (h1Count > 1) {
+    issue(
+      "h1",
+      "warning",
+      `${h1Count} <h1> headings`,
+      "Use a single <h1> and demote the rest to <h2>",
+    );
+  }
+  if (skippedLevels.length > 0) {
+    issue(
+      "headings",
+      "warning",
+      `Heading levels skipped: ${[...new Set(skippedLevels)].slice(0, 3).join(", ")}`,
+      "Nest headings in order (h1 → h2 → h3) without jumping levels",
+    );
+  }
+
+  // Images
+  const images = root.querySelectorAll("img");
+  const withAlt = images.filter((img) =>
+    img.getAttribute("alt")?.trim(),
+  ).length;
+  const withDimensions = images.filter(
+    (img) => img.getAttribute("width") && img.getAttribute("height"),
+  ).length;
+  const lazy = images.filter(
+    (img) => img.getAttribute("loading")?.toLowerCase() === "lazy",
+  ).length;
+
+  if (withAlt < images.length) {
+    issue(
+      "images",
+      "warning",
+      `${images.length - withAlt} images missing alt text`,
+      'Describe each image in its alt attribute (alt="" for decorative ones)',
+    );
+  }
+  if (withDimensions < images.length) {
+    issue(
+      "images",
+      "warning",
+      `${images.length - withDimensions} images without width/height`,
+      "Set width and height on <img> to prevent layout shift (CLS)",
+    );
+  }
+  // The first image is usually above the fold and should load eagerly
+  if (images.length > 1 && lazy === 0) {
+    issue(
+      "images",
+      "info",
+      "No images use lazy loading",
+      'Add loading="lazy" to images below the fold',
+    );
+  }
+
+  // Document basics
+  const https = url.startsWith("https");
+  const mobile = !!root
+    .querySelectorAll("meta")
+    .find((m) => m.getAttribute("name")?.toLowerCase() === "viewport");
+  const lang = root.querySelector("html")?.getAttribute("lang")?.trim() || null;
+
+  if (!https) {
+    issue(
+      "https",
+      "critical",
+      "Page is not served over HTTPS",
+      "Serve the site over HTTPS and redirect http:// to it",
+    );
+  }
+  if (!mobile) {
+    issue(
+      "mobile",
+      "critical",
+      "Missing viewport meta tag",
+      'Add <meta name="viewport" content="width=device-width, initial-scale=1">',
+    );
+  }
+  if (!lang) {
+    issue(
+      "lang",
+      "warning",
+      "Missing lang attribute on <html>",
+      'Declare the page language, e.g. <html lang="es">',
+    );
+  }
+
+  // Canonical
+  const canonicalHref =
+    linksByRel(root, "canonical")[0]?.getAttribute("href")?.trim() || null;
+  let canonicalUrl: string | null = null;
+  try {
+    canonicalUrl = canonicalHref ? new URL(canonicalHref, url).href : null;
+  } catch {
+    canonicalUrl = null;
+  }
+  const stripSlash = (value: string) => value.replace(/\/+$/, "");
+  const selfReferencing =
+    !!canonicalUrl &&
+    stripSlash(canonicalUrl) === stripSlash(new URL(url).href);
+
+  if (!canonicalHref) {
+    issue(
+      "canonical",
+      "warning",
+      "Missing canonical URL",
+      'Add <link rel="canonical" href="..."> pointing at the preferred URL',
+    );
+  } else if (!canonicalUrl) {
+    issue(
+      "canonical",
+      "warning",
+      `Invalid canonical URL: ${canonicalHref}`,
+      "Use an absolute https:// URL for the canonical link",
+    );
+  } else if (!/^https?:\/\//i.test(canonicalHref)) {
+    issue(
+      "canonical",
+      "info",
+      "Canonical URL is relative",
+      "Use an absolute URL so crawlers resolve it consistently",
+    );
+  } else if (!selfReferencing) {
+    issue(
+      "canonical",
+      "info",
+      `Canonical points elsewhere: ${canonicalUrl}`,
+      "Make sure this page is meant to be a duplicate of the canonical URL",
+    );
+  }
+
+  // Social cards
+  const ogMissing = OG_REQUIRED.filter((key) => !metaContent(root, key));
+  const ogPresent = ogMissing.length < OG_REQUIRED.length;
+
+  if (!ogPresent) {
+    issue(
+      "openGraph",
+      "warning",
+      "No Open Graph tags",
+      `Add ${OG_REQUIRED.join(", ")} for link previews`,
+    );
+  } else if (ogMissing.length > 0) {
+    issue(
+      "openGraph",
+      "warning",
+      `Open Graph incomplete: missing ${ogMissing.join(", ")}`,
+      `Add the missing ${ogMissing.join(", ")} meta tags`,
+    );
+  }
+
+  const card = metaContent(root, "twitter:card") || null;
+  const twitterMissing = Object.entries(TWITTER_FALLBACKS)
+    .filter(
+      ([key, fallback]) =>
+        !metaContent(root, key) && !metaContent(root, fallback),
+    )
+    .map(([key]) => key);
+
+  if (!card) {
+    issue(
+      "twitterCard",
+      "info",
+      "Missing twitter:card",
+      'Add <meta name="twitter:card" content="summary_large_image">',
+    );
+  } else if (twitterMissing.length > 0) {
+    issue(
+      "twitterCard",
+      "warning",
+      `Twitter card incomplete: missing ${twitterMissing.join(", ")}`,
+      "Add the missing twitter: tags or their og: equivalents",
+    );
+  }
+
+  // Structured data
+  const jsonLd = parseJsonLd(root);
+  const types = [...new Set(jsonLdTypes(jsonLd.blocks))];
+  const untyped = jsonLd.blocks.filter(
+    (block) => jsonLdTypes(block).length === 0,
+  ).length;
+  const structuredErrors = [
+    ...jsonLd.errors,
+    ...(untyped ? [`${untyped} block(s) without @type`] : []),
+  ];
+
+  if (jsonLd.errors.length > 0) {
+    issue(
+      "structuredData",
+      "critical",
+      `Invalid JSON-LD: ${jsonLd.errors[0]}`,
+      "Fix the JSON syntax - validate it at validator.schema.org",
+    );
+  }
+  if (untyped > 0) {
+    issue(
+      "structuredData",
+      "warning",
+      `${untyped} JSON-LD block(s) without @type`,
+      "Give every JSON-LD block a schema.org @type",
+    );
+  }
+  if (jsonLd.blocks.length === 0 && jsonLd.errors.length === 0) {
+    issue(
+      "structuredData",
+      "info",
+      "No JSON-LD structured data",
+      "Add LocalBusiness (or a more specific type) JSON-LD",
+    );
+  }
+
+  return {
+    checks: {
+      title: {
+        present: !!title,
+        length: title.length,
+        optimal: title.length >= 30 && title.length <= 60,
+      },
+      description: {
+        present: !!description,
+        length: description.length,
+        optimal: description.length >= 120 && description.length <= 160,
+      },
+      h1: { present: h1Count > 0, count: h1Count },
+      headings: { outline, skippedLevels },
+      images: { total: images.length, withAlt, withDimensions, lazy },
+      https,
+      mobile,
+      lang,
+      canonical: {
+        present: !!canonicalHref,
+        url: canonicalUrl,
+        selfReferencing,
+      },
+      openGraph: { present: ogPresent, missing: ogMissing },
+      twitterCard: { present: !!card, card, missing: twitterMissing },
+      structuredData: {
+        present: jsonLd.blocks.length > 0,
+        types,
+        errors: structuredErrors,
+      },
+    },
+    issues,
+  };
+}
+
 /**
- * Basic SEO check by fetching and analyzing the page
+ * SEO audit: fetch the page, parse it and run the on-page checks
  */
 export async function checkSEO(url: string): Promise<SEOResult> {
   try {
@@ -201,137 +604,682 @@ export async function checkSEO(url: string): Promise<SEOResult> {
         success: false,
         url,
         score: 0,
-        checks: {
-          title: { present: false, length: 0, optimal: false },
-          description: { present: false, length: 0, optimal: false },
-          h1: { present: false, count: 0 },
-          images: { total: 0, withAlt: 0 },
-          https: url.startsWith("https"),
-          mobile: false,
-          openGraph: false,
-          structuredData: false,
-        },
-        recommendations: [],
+        checks: emptySEOChecks(url),
+        issues: [],
         error: `HTTP ${response.status}`,
       };
     }
 
-    const html = await response.text();
+    const { checks, issues } = analyzeSEO(
+      url,
+      parseHtml(await response.text()),
+    );
+
+    const score = Math.max(
+      0,
+      100 - issues.reduce((sum, i) => sum + SEVERITY_WEIGHT[i.severity], 0),
+    );
+
+    const order: SEOSeverity[] = ["critical", "warning", "info"];
+
+    return {
+      success: true,
+      url,
+      score,
+      checks,
+      issues: [...issues].sort(
+        (a, b) => order.indexOf(a.severity) - order.indexOf(b.severity),
+      ),
+    };
+  } catch (error) {
+    return {
+      success: false,
+      url,
+      score: 0,
+      checks: emptySEOChecks(url),
+      issues: [],
+      error: error instanceof Error ? error.message : "SEO check failed",
+    };
+  }
+}
+
+// ============================================================================
+// ACCESSIBILITY AUDIT
+// ============================================================================
+
+const { accessibility, interaction_design, mobile_excellence } =
+  APEX_FINISHING_ENGINE.dimensions;
+
+const checklistItem = (list: string[], keyword: string, fallback: string) =>
+  list.find((item) => item.toLowerCase().includes(keyword)) || fallback;
+
+// Each audit check maps to the engine checklist item it verifies
+const A11Y_STANDARDS = {
+  contrast: checklistItem(
+    accessibility.checklist,
+    "contrast",
+    "WCAG 2.1 AA color contrast",
+  ),
+  altText: checklistItem(
+    accessibility.checklist,
+    "alt text",
+    "All images have alt text",
+  ),
+  names: checklistItem(
+    accessibility.checklist,
+    "aria",
+    "ARIA labels on interactive elements",
+  ),
+  focus: checklistItem(
+    accessibility.checklist,
+    "focus",
+    "Focus states visible",
+  ),
+  keyboard: checklistItem(
+    accessibility.checklist,
+    "keyboard",
+    "Keyboard navigation works",
+  ),
+  touchTargets: checklistItem(
+    interaction_design.checklist,
+    "touch targets",
+    "Touch targets minimum 44x44px",
+  ),
+  zoom: checklistItem(
+    mobile_excellence.checklist,
+    "zooming",
+    "Readable without zooming",
+  ),
+  motion: checklistItem(
+    INTERFACE_PERFECTION_ENGINE.animations.rules,
+    "reduced-motion",
+    "Respect prefers-reduced-motion",
+  ),
+  formLabels: "WCAG 2.1 AA: form fields have labels",
+  landmarks: "WCAG 2.1 AA: page regions use landmarks",
+  headings: "WCAG 2.1 AA: headings follow a logical order",
+  language: "WCAG 2.1 AA: page language is declared",
+};
+
+// WCAG AA ratios - large text and UI components only need 3:1
+const TEXT_CONTRAST = 4.5;
+const LARGE_TEXT_CONTRAST = 3;
+
+// 44px in Tailwind's 4px spacing scale
+const MIN_TAP_UNITS = 11;
+const MIN_TAP_PX = 44;
+
+const MAX_STYLESHEETS = 5;
+
+type RGB = [number, number, number];
+
+function hslToRgb(h: number, s: number, l: number): RGB {
+  const a = s * Math.min(l, 1 - l);
+  const f = (n: number) => {
+    const k = (n + h / 30) % 12;
+    return l - a * Math.max(-1, Math.min(k - 3, 9 - k, 1));
+  };
+  return [f(0) * 255, f(8) * 255, f(4) * 255];
+}
+
+/**
+ * Parse hex, rgb(), hsl() or a bare shadcn-style "222 84% 5%" triplet
+ */
+function parseColor(value: string): RGB | null {
+  const color = value.trim().toLowerCase();
+
+  if (color === "white") return [255, 255, 255];
+  if (color === "black") return [0, 0, 0];
+
+  const hex = color.match(/^#([0-9a-f]{3,8})$/);
+  if (hex) {
+    const digits =
+      hex[1].length <= 4
+        ? hex[1]
+            .split("")
+            .map((d) => d + d)
+            .join("")
+        : hex[1];
+    if (digits.length < 6) return null;
+    return [0, 2, 4].map((i) => parseInt(digits.slice(i, i + 2), 16)) as RGB;
+  }
+
+  const rgb = color.match(/^rgba?\(\s*([\d.]+)[\s,]+([\d.]+)[\s,]+([\d.]+)/);
+  if (rgb) return [Number(rgb[1]), Number(rgb[2]), Number(rgb[3])];
+
+  const hsl = color.match(
+    /^(?:hsla?\()?\s*([\d.]+)(?:deg)?[\s,]+([\d.]+)%[\s,]+([\d.]+)%/,
+  );
+  if (hsl) {
+    return hslToRgb(Number(hsl[1]), Number(hsl[2]) / 100, Number(hsl[3]) / 100);
+  }
+
+  return null;
+}
+
+function relativeLuminance([r, g, b]: RGB): number {
+  const channel = (c: number) => {
+    const v = c / 255;
+    return v <= 0.03928 ? v / 12.92 : Math.pow((v + 0.055) / 1.055, 2.4);
+  };
+  return 0.2126 * channel(r) + 0.7152 * channel(g) + 0.0722 * channel(b);
+}
+
+function contrastRatio(a: RGB, b: RGB): number {
+  const [light, dark] = [relativeLuminance(a), relativeLuminance(b)].sort(
+    (x, y) => y - x,
+  );
+  return Math.round(((light + 0.05) / (dark + 0.05)) * 100) / 100;
+}
+
+/**
+ * CSS custom properties, first declaration wins (usually :root)
+ */
+function extractTokens(css: string): Record<string, string> {
+  const tokens: Record<string, string> = {};
+  for (const [, name, value] of css.matchAll(/--([\w-]+)\s*:\s*([^;}{]+)/g)) {
+    if (!(name in tokens)) tokens[name] = value.trim();
+  }
+  return tokens;
+}
+
+function resolveVars(
+  value: string,
+  tokens: Record<string, string>,
+  depth = 0,
+): string {
+  if (depth > 5) return value;
+  const resolved = value.replace(
+    /var\(\s*--([\w-]+)\s*(?:,[^)]*)?\)/g,
+    (match, name: string) => tokens[name] ?? match,
+  );
+  return resolved === value ? value : resolveVars(resolved, tokens, depth + 1);
+}
+
+/**
+ * Text/background pairs the design tokens promise, with their ratios
+ */
+function checkTokenContrast(css: string): ContrastPair[] {
+  const tokens = extractTokens(css);
+  const color = (value: string) => parseColor(resolveVars(value, tokens));
+  const candidates: Array<[string, string, string, string, number]> = [];
+
+  // body { color; background } - how the generated sites set page colors
+  const body = [...css.matchAll(/(?:^|[}\s,])body\s*\{([^}]*)\}/g)]
+    .map((m) => m[1])
+    .join(";");
+  const bodyColor = body.match(/(?:^|[;\s])color\s*:\s*([^;]+)/)?.[1];
+  const bodyBackground = body.match(/background(?:-color)?\s*:\s*([^;]+)/)?.[1];
+
+  if (bodyColor && bodyBackground) {
+    candidates.push([
+      "body text",
+      bodyColor,
+      "body background",
+      bodyBackground,
+      TEXT_CONTRAST,
+    ]);
+  }
+
+  // shadcn convention: --x / --x-foreground
+  for (const name of Object.keys(tokens)) {
+    const base = name.replace(/-foreground$/, "");
+    if (name !== base && tokens[base]) {
+      candidates.push([
+        `--${name}`,
+        tokens[name],
+        `--${base}`,
+        tokens[base],
+        TEXT_CONTRAST,
+      ]);
+    }
+  }
+
+  // Accents are used for headings and buttons on the page background
+  const pageBackground =
+    bodyBackground ||
+    Object.entries(tokens).find(([name]) =>
+      /(^|-)(background|bg|dark)$/.test(name),
+    )?.[1];
+
+  if (pageBackground) {
+    for (const [name, value] of Object.entries(tokens)) {
+      // Tokens with a -foreground partner are surfaces, checked above
+      if (
+        /(^|-)(primary|accent|gold|brand)$/.test(name) &&
+        !tokens[`${name}-foreground`]
+      ) {
+        candidates.push([
+          `--${name}`,
+          value,
+          bodyBackground ? "body background" : "page background",
+          pageBackground,
+          LARGE_TEXT_CONTRAST,
+        ]);
+      }
+    }
+  }
+
+  const pairs: ContrastPair[] = [];
+  for (const [fgName, fgValue, bgName, bgValue, required] of candidates) {
+    const fg = color(fgValue);
+    const bg = color(bgValue);
+    if (!fg || !bg) continue;
+    if (pairs.some((p) => p.foreground === fgName && p.background === bgName))
+      continue;
+    pairs.push({
+      foreground: fgName,
+      background: bgName,
+      ratio: contrastRatio(fg, bg),
+      required,
+    });
+  }
+
+  return pairs;
+}
+
+/**
+ * Inline <style> blocks plus same-origin stylesheets
+ */
+async function collectCss(url: string, root: HTMLElement): Promise<string> {
+  const origin = new URL(url).origin;
+  const inline = root.querySelectorAll("style").map((s) => s.rawText);
+  const rootStyle = root.querySelector("html")?.getAttribute("style") || "";
+
+  const hrefs = linksByRel(root, "stylesheet")
+    .map((link) => {
+      try {
+        return new URL(link.getAttribute("href") || "", url).href;
+      } catch {
+        return null;
+      }
+    })
+    .filter((href): href is string => !!href && href.startsWith(origin))
+    .slice(0, MAX_STYLESHEETS);
+
+  const sheets = await Promise.all(
+    hrefs.map(async (href) => {
+      try {
+        const response = await fetch(href, {
+          signal: AbortSignal.timeout(10000),
+        });
+        return response.ok ? await response.text() : "";
+      } catch {
+        return "";
+      }
+    }),
+  );
+
+  return [`:root{${rootStyle}}`, ...inline, ...sheets].join("\n");
+}
+
+/**
+ * Text a screen reader would announce for an element
+ */
+function accessibleName(el: HTMLElement): string {
+  return (
+    el.getAttribute("aria-label") ||
+    el.getAttribute("aria-labelledby") ||
+    el.getAttribute("title") ||
+    el.text.trim() ||
+    el
+      .querySelectorAll("img, svg")
+      .map(
+        (child) =>
+          child.getAttribute("alt") || child.getAttribute("aria-label"),
+      )
+      .find(Boolean) ||
+    el.querySelector("title")?.text.trim() ||
+    ""
+  ).trim();
+}
+
+function describe(el: HTMLElement): string {
+  const tag = el.tagName.toLowerCase();
+  const id = el.getAttribute("id");
+  const hint =
+    el.getAttribute("href") ||
+    el.getAttribute("name") ||
+    el.getAttribute("src") ||
+    "";
+  return `<${tag}${id ? `#${id}` : ""}>${hint ? ` ${hint.slice(0, 40)}` : ""}`;
+}
+
+function hasLabelAncestor(el: HTMLElement): boolean {
+  let parent = el.parentNode;
+  while (parent) {
+    if (parent.tagName === "LABEL") return true;
+    parent = parent.parentNode;
+  }
+  return false;
+}
+
+/**
+ * Unprefixed (mobile-first) Tailwind sizes below 44px, or inline px sizes
+ */
+function smallTapTarget(el: HTMLElement): boolean {
+  const classes = (el.getAttribute("class") || "").split(/\s+/);
+  const units = (prefix: string) =>
+    classes
+      .map((c) => c.match(new RegExp(`^${prefix}-(\\d+(?:\\.5)?)$`))?.[1])
+      .filter(Boolean)
+      .map(Number);
+
+  const minHeight = Math.max(0, ...units("min-h"));
+  const heights = [...units("h"), ...units("size")];
+  if (heights.some((h) => h < MIN_TAP_UNITS) && minHeight < MIN_TAP_UNITS) {
+    return true;
+  }
+
+  const style = el.getAttribute("style") || "";
+  const inline = style.match(/(?:^|;)\s*height\s*:\s*(\d+)px/);
+  return !!inline && Number(inline[1]) < MIN_TAP_PX;
+}
+
+function a11yCheck(
+  id: keyof typeof A11Y_STANDARDS,
+  status: A11yStatus,
+  details: string[],
+  fix: string,
+): A11yCheck {
+  return { id, standard: A11Y_STANDARDS[id], status, details, fix };
+}
+
+function analyzeAccessibility(
+  root: HTMLElement,
+  css: string,
+): { checks: A11yCheck[]; contrast: ContrastPair[] } {
+  const checks: A11yCheck[] = [];
+  const html = root.toString();
+
+  // Color contrast of declared tokens
+  const contrast = checkTokenContrast(css);
+  const lowContrast = contrast.filter((p) => p.ratio < p.required);
+  checks.push(
+    a11yCheck(
+      "contrast",
+      contrast.length === 0 ? "skip" : lowContrast.length ? "fail" : "pass",
+      contrast.length === 0
+        ? ["No color tokens found in the page CSS"]
+        : lowContrast.map(
+            (p) =>
+              `${p.foreground} on ${p.background}: ${p.ratio}:1 (needs ${p.required}:1)`,
+          ),
+      "Adjust the token colors until text reaches 4.5:1 and accents 3:1",
+    ),
+  );
 
-    // Parse HTML for SEO elements
-    const titleMatch = html.match(/<title[^>]*>([^<]+)<\/title>/i);
-    const title = titleMatch ? titleMatch[1].trim() : "";
+  // Alt text - alt="" is valid for decorative images
+  const missingAlt = root
+    .querySelectorAll("img, input[type=image], area")
+    .filter((el) => el.getAttribute("alt") === undefined);
+  checks.push(
+    a11yCheck(
+      "altText",
+      missingAlt.length ? "fail" : "pass",
+      missingAlt.slice(0, 5).map(describe),
+      'Add alt text to every image, or alt="" when it is purely decorative',
+    ),
+  );
 
-    const descMatch = html.match(
-      /<meta[^>]*name=["']description["'][^>]*content=["']([^"']+)["']/i,
+  // Accessible names on links and buttons
+  const interactive = root.querySelectorAll(
+    "a[href], button, [role=button], input[type=submit], input[type=button]",
+  );
+  const unnamed = interactive.filter(
+    (el) => !accessibleName(el) && !el.getAttribute("value"),
+  );
+  checks.push(
+    a11yCheck(
+      "names",
+      unnamed.length ? "fail" : "pass",
+      unnamed.slice(0, 5).map(describe),
+      "Give icon-only links and buttons an aria-label",
+    ),
+  );
+
+  // Form labels
+  const fields = root
+    .querySelectorAll("input, select, textarea")
+    .filter(
+      (el) =>
+        !["hidden", "submit", "button", "reset", "image"].includes(
+          (el.getAttribute("type") || "").toLowerCase(),
+        ),
     );
-    const description = descMatch ? descMatch[1].trim() : "";
+  const labelFor = new Set(
+    root.querySelectorAll("label").map((l) => l.getAttribute("for")),
+  );
+  const unlabeled = fields.filter(
+    (el) =>
+      !(el.getAttribute("id") && labelFor.has(el.getAttribute("id"))) &&
+      !hasLabelAncestor(el) &&
+      !el.getAttribute("aria-label") &&
+      !el.getAttribute("aria-labelledby") &&
+      !el.getAttribute("title"),
+  );
+  checks.push(
+    a11yCheck(
+      "formLabels",
+      fields.length === 0 ? "skip" : unlabeled.length ? "fail" : "pass",
+      fields.length === 0
+        ? ["No form fields on this page"]
+        : unlabeled
+            .slice(0, 5)
+            .map(
+              (el) =>
+                `${describe(el)}${el.getAttribute("placeholder") ? " (placeholder only)" : ""}`,
+            ),
+      "Pair every field with <label for> - placeholders are not labels",
+    ),
+  );
 
-    const h1Matches = html.match(/<h1[^>]*>[\s\S]*?<\/h1>/gi) || [];
+  // Landmarks
+  const landmark = (tag: string, role: string) =>
+    !!root.querySelector(`${tag}, [role=${role}]`);
+  const missingLandmarks = [
+    ["main", "main"],
+    ["nav", "navigation"],
+    ["header", "banner"],
+    ["footer", "contentinfo"],
+  ]
+    .filter(([tag, role]) => !landmark(tag, role))
+    .map(([tag]) => `No <${tag}>`);
+  checks.push(
+    a11yCheck(
+      "landmarks",
+      missingLandmarks.includes("No <main>")
+        ? "fail"
+        : missingLandmarks.length
+          ? "warn"
+          : "pass",
+      missingLandmarks,
+      "Wrap page regions in <header>, <nav>, <main> and <footer>",
+    ),
+  );
 
-    const imgMatches = html.match(/<img[^>]*>/gi) || [];
-    const imgWithAlt = imgMatches.filter((img) =>
-      /alt=["'][^"']+["']/.test(img),
-    ).length;
+  // Heading order
+  const { outline, skippedLevels, h1Count } = headingOutline(root);
+  checks.push(
+    a11yCheck(
+      "headings",
+      outline.length === 0
+        ? "fail"
+        : h1Count !== 1 || skippedLevels.length
+          ? "warn"
+          : "pass",
+      [
+        ...(outline.length === 0 ? ["No headings"] : []),
+        ...(outline.length && h1Count !== 1
+          ? [`${h1Count} <h1> headings`]
+          : []),
+        ...[...new Set(skippedLevels)].slice(0, 3).map((s) => `Skipped ${s}`),
+      ],
+      "Use one <h1> and step down one level at a time",
+    ),
+  );
 
-    const hasOG = /<meta[^>]*property=["']og:/i.test(html);
-    const hasViewport = /<meta[^>]*name=["']viewport["']/i.test(html);
-    const hasStructuredData =
-      /<script[^>]*type=["']application\/ld\+json["']/i.test(html);
+  // Language
+  const lang = root.querySelector("html")?.getAttribute("lang")?.trim();
+  checks.push(
+    a11yCheck(
+      "language",
+      lang ? "pass" : "fail",
+      lang ? [] : ["<html> has no lang attribute"],
+      'Declare the page language, e.g. <html lang="es">',
+    ),
+  );
 
-    const checks = {
-      title: {
-        present: !!title,
-        length: title.length,
-        optimal: title.length >= 30 && title.length <= 60,
-      },
-      description: {
-        present: !!description,
-        length: description.length,
-        optimal: description.length >= 120 && description.length <= 160,
-      },
-      h1: {
-        present: h1Matches.length > 0,
-        count: h1Matches.length,
-      },
-      images: {
-        total: imgMatches.length,
-        withAlt: imgWithAlt,
+  // Focus states
+  const removesOutline = /outline\s*:\s*(none|0)\b/.test(css);
+  const hasFocusStyles = /:focus/.test(css) || /\bfocus(-visible)?:/.test(html);
+  checks.push(
+    a11yCheck(
+      "focus",
+      removesOutline && !hasFocusStyles ? "fail" : "pass",
+      removesOutline && !hasFocusStyles
+        ? ["outline is removed with no :focus replacement"]
+        : [],
+      "Add visible focus styles, e.g. focus:ring-2 focus:ring-gold",
+    ),
+  );
+
+  // Keyboard navigation
+  const positiveTabindex = root
+    .querySelectorAll("[tabindex]")
+    .filter((el) => Number(el.getAttribute("tabindex")) > 0);
+  const clickableNonInteractive = root
+    .querySelectorAll("div[onclick], span[onclick]")
+    .filter((el) => !el.getAttribute("tabindex"));
+  const keyboardIssues = [
+    ...positiveTabindex
+      .slice(0, 3)
+      .map((el) => `${describe(el)} tabindex=${el.getAttribute("tabindex")}`),
+    ...clickableNonInteractive
+      .slice(0, 3)
+      .map((el) => `${describe(el)} clickable but not focusable`),
+  ];
+  checks.push(
+    a11yCheck(
+      "keyboard",
+      clickableNonInteractive.length
+        ? "fail"
+        : positiveTabindex.length
+          ? "warn"
+          : "pass",
+      keyboardIssues,
+      "Use real <button>/<a> elements and avoid positive tabindex",
+    ),
+  );
+
+  // Tap targets - static hints from sizing classes and inline styles
+  const small = interactive.filter(smallTapTarget);
+  checks.push(
+    a11yCheck(
+      "touchTargets",
+      interactive.length === 0 ? "skip" : small.length ? "warn" : "pass",
+      small.slice(0, 5).map(describe),
+      "Make tap targets at least 44x44px (min-h-11, prefer min-h-14)",
+    ),
+  );
+
+  // Zoom
+  const viewport =
+    root
+      .querySelectorAll("meta")
+      .find((m) => m.getAttribute("name")?.toLowerCase() === "viewport")
+      ?.getAttribute("content")
+      ?.toLowerCase() || "";
+  const maxScale = Number(viewport.match(/maximum-scale\s*=\s*([\d.]+)/)?.[1]);
+  const blocksZoom =
+    /user-scalable\s*=\s*(no|0)/.test(viewport) ||
+    (maxScale > 0 && maxScale < 2);
+  checks.push(
+    a11yCheck(
+      "zoom",
+      !viewport ? "warn" : blocksZoom ? "fail" : "pass",
+      !viewport
+        ? ["No viewport meta tag"]
+        : blocksZoom
+          ? [`viewport: ${viewport}`]
+          : [],
+      'Use <meta name="viewport" content="width=device-width, initial-scale=1"> without zoom limits',
+    ),
+  );
+
+  // Reduced motion
+  const animates =
+    /@keyframes|animation\s*:/.test(css) || /\banimate-[\w-]+/.test(html);
+  const respectsMotion =
+    /prefers-reduced-motion/.test(css) || /\bmotion-(reduce|safe):/.test(html);
+  checks.push(
+    a11yCheck(
+      "motion",
+      animates && !respectsMotion ? "warn" : "pass",
+      animates && !respectsMotion
+        ? ["Animations without a prefers-reduced-motion fallback"]
+        : [],
+      "Wrap animations in motion-safe: or a prefers-reduced-motion media query",
+    ),
+  );
+
+  return { checks, contrast };
+}
+
+/**
+ * Accessibility audit against the engine checklist - static HTML and CSS only
+ */
+export async function runAccessibilityAudit(
+  url: string,
+): Promise<AccessibilityResult> {
+  try {
+    const response = await fetch(url, {
+      signal: AbortSignal.timeout(10000),
+      headers: {
+        "User-Agent": "MachineMind-A11y-Checker/1.0",
       },
-      https: url.startsWith("https"),
-      mobile: hasViewport,
-      openGraph: hasOG,
-      structuredData: hasStructuredData,
-    };
+    });
 
-    // Calculate score
-    let score = 0;
-    if (checks.title.present) score += 15;
-    if (checks.title.optimal) score += 5;
-    if (checks.description.present) score += 15;
-    if (checks.description.optimal) score += 5;
-    if (checks.h1.present && checks.h1.count === 1) score += 10;
-    if (
-      checks.images.total === 0 ||
-      checks.images.withAlt === checks.images.total
-    )
-      score += 10;
-    if (checks.https) score += 15;
-    if (checks.mobile) score += 10;
-    if (checks.openGraph) score += 10;
-    if (checks.structuredData) score += 5;
-
-    const recommendations: string[] = [];
-    if (!checks.title.present) recommendations.push("❌ Add a <title> tag");
-    else if (!checks.title.optimal)
-      recommendations.push("⚠️ Title should be 30-60 characters");
-    if (!checks.description.present)
-      recommendations.push("❌ Add a meta description");
-    else if (!checks.description.optimal)
-      recommendations.push("⚠️ Description should be 120-160 characters");
-    if (!checks.h1.present) recommendations.push("❌ Add an <h1> heading");
-    else if (checks.h1.count > 1)
-      recommendations.push("⚠️ Use only one <h1> per page");
-    if (
-      checks.images.total > 0 &&
-      checks.images.withAlt < checks.images.total
-    ) {
-      recommendations.push(
-        `⚠️ ${checks.images.total - checks.images.withAlt} images missing alt text`,
-      );
+    if (!response.ok) {
+      return {
+        success: false,
+        url,
+        score: 0,
+        checks: [],
+        contrast: [],
+        error: `HTTP ${response.status}`,
+      };
     }
-    if (!checks.https) recommendations.push("❌ Enable HTTPS");
-    if (!checks.mobile)
-      recommendations.push("❌ Add viewport meta tag for mobile");
-    if (!checks.openGraph)
-      recommendations.push("💡 Add Open Graph tags for social sharing");
-    if (!checks.structuredData)
-      recommendations.push("💡 Add JSON-LD structured data");
+
+    const root = parseHtml(await response.text());
+    const css = await collectCss(url, root);
+    const { checks, contrast } = analyzeAccessibility(root, css);
+
+    const applicable = checks.filter((c) => c.status !== "skip");
+    const points = applicable.reduce(
+      (sum, c) =>
+        sum + (c.status === "pass" ? 1 : c.status === "warn" ? 0.5 : 0),
+      0,
+    );
 
     return {
       success: true,
       url,
-      score,
+      score: applicable.length
+        ? Math.round((points / applicable.length) * 100)
+        : 0,
       checks,
-      recommendations: recommendations.slice(0, 5),
+      contrast,
     };
   } catch (error) {
     return {
       success: false,
       url,
       score: 0,
-      checks: {
-        title: { present: false, length: 0, optimal: false },
-        description: { present: false, length: 0, optimal: false },
-        h1: { present: false, count: 0 },
-        images: { total: 0, withAlt: 0 },
-        https: false,
-        mobile: false,
-        openGraph: false,
-        structuredData: false,
-      },
-      recommendations: [],
-      error: error instanceof Error ? error.message : "SEO check failed",
+      checks: [],
+      contrast: [],
+      error:
+        error instanceof Error ? error.message : "Accessibility audit failed",
     };
   }
 }
@@ -391,9 +1339,10 @@ export function formatSpeedForTelegram(result: SpeedTestResult): string {
   const clsEmoji =
     result.metrics.cls < 0.1 ? "🟢" : result.metrics.cls < 0.25 ? "🟡" : "🔴";
 
-  const recs = result.recommendations.slice(0, 3).join("\n");
+  // Lighthouse titles quote markup, e.g. "`<html>` element has a `[lang]`"
+  const recs = escapeHtml(result.recommendations.slice(0, 3).join("\n"));
 
-  return `⚡ <b>SPEED TEST: ${result.url}</b>
+  return `⚡ <b>SPEED TEST: ${escapeHtml(result.url)}</b>
 
 <b>Core Web Vitals:</b>
 ${lcpEmoji} LCP: ${result.metrics.lcp}ms ${result.metrics.lcp < 2500 ? "(Good)" : "(Needs work)"}
@@ -409,6 +1358,12 @@ ${getEmoji(result.scores.seo)} SEO: ${result.scores.seo}/100
 ${recs ? `<b>Recommendations:</b>\n${recs}` : ""}`;
 }
 
+const severityEmoji: Record<SEOSeverity, string> = {
+  critical: "❌",
+  warning: "⚠️",
+  info: "💡",
+};
+
 /**
  * Format SEO results for Telegram
  */
@@ -416,27 +1371,52 @@ export function formatSEOForTelegram(result: SEOResult): string {
   const scoreEmoji =
     result.score >= 80 ? "🟢" : result.score >= 50 ? "🟡" : "🔴";
 
+  const { checks: c } = result;
   const checks = [
-    result.checks.title.present ? "✅ Title" : "❌ Title",
-    result.checks.description.present ? "✅ Description" : "❌ Description",
-    result.checks.h1.present ? "✅ H1" : "❌ H1",
-    result.checks.https ? "✅ HTTPS" : "❌ HTTPS",
-    result.checks.mobile ? "✅ Mobile" : "❌ Mobile",
-    result.checks.openGraph ? "✅ Open Graph" : "❌ Open Graph",
+    c.title.present ? "✅ Title" : "❌ Title",
+    c.description.present ? "✅ Description" : "❌ Description",
+    c.h1.present ? "✅ H1" : "❌ H1",
+    c.https ? "✅ HTTPS" : "❌ HTTPS",
+    c.mobile ? "✅ Mobile" : "❌ Mobile",
+    c.lang ? `✅ Lang (${escapeHtml(c.lang)})` : "❌ Lang",
+    c.canonical.present ? "✅ Canonical" : "❌ Canonical",
+    c.openGraph.missing.length === 0 ? "✅ Open Graph" : "❌ Open Graph",
+    c.twitterCard.present && c.twitterCard.missing.length === 0
+      ? "✅ Twitter"
+      : "❌ Twitter",
+    c.structuredData.present && c.structuredData.errors.length === 0
+      ? "✅ JSON-LD"
+      : "❌ JSON-LD",
   ].join(" | ");
 
-  const recs = result.recommendations.slice(0, 4).join("\n");
+  const counts = (["critical", "warning", "info"] as const)
+    .map((s) => {
+      const n = result.issues.filter((i) => i.severity === s).length;
+      return n ? `${severityEmoji[s]} ${n} ${s}` : "";
+    })
+    .filter(Boolean)
+    .join(" · ");
+
+  const issues = result.issues
+    .slice(0, 8)
+    .map(
+      (i) =>
+        `${severityEmoji[i.severity]} ${escapeHtml(i.message)}\n   ↳ <i>${escapeHtml(i.fix)}</i>`,
+    )
+    .join("\n");
+  const more =
+    result.issues.length > 8 ? `\n…and ${result.issues.length - 8} more` : "";
 
-  return `🔍 <b>SEO AUDIT: ${result.url}</b>
+  return `🔍 <b>SEO AUDIT: ${escapeHtml(result.url)}</b>
 
-${scoreEmoji} <b>Score: ${result.score}/100</b>
+${scoreEmoji} <b>Score: ${result.score}/100</b>${counts ? `\n${counts}` : ""}
 
 <b>Checks:</b>
 ${checks}
 
-<b>Images:</b> ${result.checks.images.withAlt}/${result.checks.images.total} with alt text
-
-${recs ? `<b>Recommendations:</b>\n${recs}` : "✅ All checks passed!"}`;
+<b>Images:</b> ${c.images.withAlt}/${c.images.total} with alt · ${c.images.withDimensions}/${c.images.total} sized · ${c.images.lazy} lazy
+${c.structuredData.types.length ? `<b>Schema:</b> ${escapeHtml(c.structuredData.types.join(", "))}\n` : ""}
+${issues ? `<b>Issues & fixes:</b>\n${issues}${more}` : "✅ All checks passed!"}`;
 }
 
 /**
@@ -452,10 +1432,61 @@ export function formatUptimeForTelegram(result: UptimeResult): string {
   return `📡 <b>UPTIME CHECK</b>
 
 ${statusEmoji[result.status]} Status: <b>${result.status.toUpperCase()}</b>
-🌐 URL: ${result.url}
+🌐 URL: ${escapeHtml(result.url)}
 ⏱️ Response: ${result.responseTime}ms
 📊 HTTP: ${result.statusCode || "N/A"}
 🕐 Checked: ${new Date(result.lastChecked).toLocaleTimeString()}
 
-${result.error ? `⚠️ ${result.error}` : ""}`;
+${result.error ? `⚠️ ${escapeHtml(result.error)}` : ""}`;
+}
+
+const a11yEmoji: Record<A11yStatus, string> = {
+  pass: "✅",
+  warn: "⚠️",
+  fail: "❌",
+  skip: "⏭️",
+};
+
+/**
+ * Format accessibility results for Telegram
+ */
+export function formatAccessibilityForTelegram(
+  result: AccessibilityResult,
+): string {
+  const scoreEmoji =
+    result.score >= 90 ? "🟢" : result.score >= 60 ? "🟡" : "🔴";
+
+  const checks = result.checks
+    .map((c) => {
+      const line = `${a11yEmoji[c.status]} ${escapeHtml(c.standard)}`;
+      if (c.status === "pass") return line;
+
+      const details = c.details
+        .slice(0, 3)
+        .map((d) => `\n   • ${escapeHtml(d)}`)
+        .join("");
+      const fix =
+        c.status === "skip" ? "" : `\n   ↳ <i>${escapeHtml(c.fix)}</i>`;
+      return `${line}${details}${fix}`;
+    })
+    .join("\n");
+
+  const contrast = result.contrast
+    .slice(0, 6)
+    .map(
+      (p) =>
+        `${p.ratio >= p.required ? "✅" : "❌"} ${escapeHtml(p.foreground)} on ${escapeHtml(p.background)}: ${p.ratio}:1`,
+    )
+    .join("\n");
+
+  const passed = result.checks.filter((c) => c.status === "pass").length;
+  const applicable = result.checks.filter((c) => c.status !== "skip").length;
+
+  return `♿ <b>ACCESSIBILITY AUDIT: ${escapeHtml(result.url)}</b>
+
+${scoreEmoji} <b>Score: ${result.score}/100</b> (${passed}/${applicable} checks passed)
+
+${checks}
+${contrast ? `\n<b>Contrast:</b>\n${contrast}\n` : ""}
+💡 Static HTML/CSS checks - confirm keyboard and screen reader flows by hand.`;
 }
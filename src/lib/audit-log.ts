@@ -0,0 +1,190 @@
+/**
+ * AUDIT LOG
+ * Structured record of every command run through handleCommand
+ *
+ * Sinks:
+ * - file (default): JSON lines appended to MACHINEMIND_DATA_DIR/audit.log.jsonl
+ * - memory: process-local, used for tests
+ */
+
+import { promises as fs } from "fs";
+import path from "path";
+import { getDataDir } from "./storage";
+import { escapeHtml } from "./telegram";
+
+export type AuditOutcome =
+  | "success"
+  | "error"
+  | "denied"
+  | "unauthorized"
+  | "unknown_command"
+  | "invalid_args"
+  | "pending_confirmation";
+
+export interface AuditEntry {
+  timestamp: string;
+  userId: number;
+  chatId: number;
+  command: string;
+  args: string[];
+  outcome: AuditOutcome;
+  durationMs: number;
+  error?: string;
+}
+
+export interface AuditQuery {
+  limit: number;
+  command?: string;
+}
+
+export interface AuditSink {
+  write(entry: AuditEntry): Promise<void>;
+  // Newest first
+  query(filter: AuditQuery): Promise<AuditEntry[]>;
+}
+
+const REDACTED = "[REDACTED]";
+
+// Arg positions that carry secrets, per command
+const SECRET_ARGS: Record<string, (args: string[]) => string[]> = {
+  "env-set": (args) => [
+    ...args.slice(0, 2),
+    ...(args.length > 2 ? [REDACTED] : []),
+  ],
+};
+
+function filterEntries(entries: AuditEntry[], filter: AuditQuery) {
+  return entries
+    .filter((e) => !filter.command || e.command === filter.command)
+    .slice(-filter.limit)
+    .reverse();
+}
+
+export function createFileAuditSink(
+  filePath: string = path.join(getDataDir(), "audit.log.jsonl"),
+): AuditSink {
+  return {
+    async write(entry) {
+      await fs.mkdir(path.dirname(filePath), { recursive: true });
+      await fs.appendFile(filePath, `${JSON.stringify(entry)}\n`, "utf8");
+    },
+    async query(filter) {
+      let raw: string;
+      try {
+        raw = await fs.readFile(filePath, "utf8");
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === "ENOENT") return [];
+        throw error;
+      }
+
+      const entries = raw
+        .split("\n")
+        .filter(Boolean)
+        .flatMap((line) => {
+          try {
+            return [JSON.parse(line) as AuditEntry];
+          } catch {
+            return [];
+          }
+        });
+
+      return filterEntries(entries, filter);
+    },
+  };
+}
+
+export function createMemoryAuditSink(): AuditSink {
+  const entries: AuditEntry[] = [];
+
+  return {
+    async write(entry) {
+      entries.push(entry);
+    },
+    async query(filter) {
+      return filterEntries(entries, filter);
+    },
+  };
+}
+
+let sink: AuditSink | null = null;
+
+export function getAuditSink(): AuditSink {
+  if (!sink) {
+    sink =
+      process.env.AUDIT_LOG_SINK === "memory"
+        ? createMemoryAuditSink()
+        : createFileAuditSink();
+  }
+  return sink;
+}
+
+/**
+ * Swap the audit sink (tests, external log shipping)
+ */
+export function setAuditSink(custom: AuditSink): void {
+  sink = custom;
+}
+
+/**
+ * Strip secret values from command args before they are persisted
+ */
+export function redactArgs(command: string, args: string[]): string[] {
+  const redact = SECRET_ARGS[command];
+  return redact ? redact(args) : args;
+}
+
+/**
+ * Write an audit entry - never throws, auditing must not break commands
+ */
+export async function recordAudit(entry: AuditEntry): Promise<void> {
+  try {
+    await getAuditSink().write({
+      ...entry,
+      args: redactArgs(entry.command, entry.args),
+    });
+  } catch (error) {
+    console.error("Audit log write failed:", error);
+  }
+}
+
+export async function queryAuditLog(filter: AuditQuery): Promise<AuditEntry[]> {
+  return getAuditSink().query(filter);
+}
+
+/**
+ * Format audit entries for Telegram display
+ */
+export function formatAuditLogForTelegram(entries: AuditEntry[]): string {
+  if (entries.length === 0) {
+    return `📜 <b>Audit Log</b>\n\nNo matching entries.`;
+  }
+
+  const outcomeEmoji: Record<AuditOutcome, string> = {
+    success: "✅",
+    error: "❌",
+    denied: "⛔",
+    unauthorized: "🚫",
+    unknown_command: "❓",
+    invalid_args: "⚠️",
+    pending_confirmation: "⏳",
+  };
+
+  const list = entries
+    .map((e) => {
+      const when = new Date(e.timestamp).toLocaleString();
+      const args = e.args.length > 0 ? ` ${e.args.join(" ")}` : "";
+      // Slice before escaping so the cut never lands inside an entity
+      const command = escapeHtml(`/${e.command}${args.slice(0, 60)}`);
+      const error = e.error
+        ? `\n   ⚠️ ${escapeHtml(e.error.slice(0, 80))}`
+        : "";
+      return (
+        `${outcomeEmoji[e.outcome]} <code>${command}</code>\n` +
+        `   👤 ${e.userId} · 💬 ${e.chatId} · ⏱️ ${e.durationMs}ms\n` +
+        `   📅 ${when}${error}`
+      );
+    })
+    .join("\n\n");
+
+  return `📜 <b>Audit Log</b> (${entries.length})\n\n${list}`;
+}
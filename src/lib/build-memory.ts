@@ -0,0 +1,272 @@
+/**
+ * BUILD MEMORY STORE
+ * Records every /build and /new run so future builds can learn from them
+ */
+
+import { BusinessResearch } from "./research";
+import {
+  BuildMemory,
+  GenesisBuildConfig,
+  SECTOR_TEMPLATES,
+} from "./genesis-engine";
+import { getStore, slugify } from "./storage";
+import { escapeHtml } from "./telegram";
+
+const NAMESPACE = "build-memory";
+
+function store() {
+  return getStore<BuildMemory>(NAMESPACE);
+}
+
+/**
+ * Minimal research record for builds launched without a research pass
+ */
+function placeholderResearch(
+  businessName: string,
+  sector: string,
+  location?: string,
+): BusinessResearch {
+  const [city, country] = (location || "Cartagena, Colombia")
+    .split(",")
+    .map((part) => part.trim());
+
+  return {
+    name: businessName,
+    description: "",
+    sector,
+    location: { city: city || "Cartagena", country: country || "Colombia" },
+    contact: {},
+    social: {},
+    features: [],
+    images: [],
+    reviews: { highlights: [] },
+    competitors: [],
+    brandColors: [],
+    keywords: [],
+  };
+}
+
+/**
+ * Pull the decisions that differ from the sector template
+ */
+function extractCustomizations(
+  config: GenesisBuildConfig,
+): Record<string, string> {
+  return {
+    primaryColor: config.design.colors.primary,
+    accentColor: config.design.colors.accent,
+    backgroundColor: config.design.colors.background,
+    headingFont: config.design.typography.heading,
+    bodyFont: config.design.typography.body,
+    style: config.design.style,
+    hero: config.copy.hero,
+    cta: config.copy.cta,
+    blueOceanVector: config.blueOcean.vector,
+    signatureComponents: config.engineProtocols.signatureComponents.join("|"),
+  };
+}
+
+/**
+ * Save a memory record
+ */
+export async function saveBuildMemory(memory: BuildMemory): Promise<void> {
+  await store().set(memory.id, memory);
+}
+
+/**
+ * Record a /build run (research + generated config)
+ */
+export async function recordBuild(
+  research: BusinessResearch,
+  config: GenesisBuildConfig,
+  buildTime: number,
+  workflow?: BuildMemory["workflow"],
+): Promise<BuildMemory> {
+  const createdAt = new Date().toISOString();
+  const memory: BuildMemory = {
+    id: `${slugify(research.name)}-${Date.now()}`,
+    businessName: research.name,
+    sector: config.business.sector,
+    createdAt,
+    source: "build",
+    chatId: config.meta.chatId,
+    research,
+    template:
+      SECTOR_TEMPLATES[config.business.sector] || SECTOR_TEMPLATES.hospitality,
+    customizations: extractCustomizations(config),
+    buildConfig: config,
+    workflow,
+    performance: {
+      buildTime,
+      deploySuccess: false,
+    },
+    learnings: [],
+    mutations: [],
+  };
+
+  await saveBuildMemory(memory);
+  return memory;
+}
+
+/**
+ * Record a /new run - reuses research from the latest /build when available
+ */
+export async function recordProjectLaunch(params: {
+  businessName: string;
+  sector: string;
+  chatId: string;
+  workflow: string;
+  triggered: boolean;
+  buildTime: number;
+  location?: string;
+}): Promise<BuildMemory> {
+  const previous = await findBuildMemory(params.businessName);
+
+  const memory: BuildMemory = {
+    id: `${slugify(params.businessName)}-${Date.now()}`,
+    businessName: params.businessName,
+    sector: params.sector,
+    createdAt: new Date().toISOString(),
+    source: "new",
+    chatId: params.chatId,
+    research:
+      previous?.research ||
+      placeholderResearch(params.businessName, params.sector, params.location),
+    template: SECTOR_TEMPLATES[params.sector] || SECTOR_TEMPLATES.hospitality,
+    customizations: previous?.customizations || {},
+    buildConfig: previous?.buildConfig,
+    workflow: {
+      name: params.workflow,
+      triggered: params.triggered,
+    },
+    performance: {
+      buildTime: params.buildTime,
+      // Set by recordDeployResult once the workflow run finishes
+      deploySuccess: false,
+    },
+    learnings: previous?.learnings || [],
+    mutations: [],
+  };
+
+  await saveBuildMemory(memory);
+  return memory;
+}
+
+/**
+ * Record how the deploy of the latest launched build for a business ended
+ * Called when its new-project.yml run completes
+ */
+export async function recordDeployResult(
+  businessName: string,
+  success: boolean,
+): Promise<BuildMemory | null> {
+  const slug = slugify(businessName);
+  const memory = (await getBuildHistory(businessName)).find(
+    (m) => slugify(m.businessName) === slug && m.workflow?.triggered,
+  );
+  if (!memory) return null;
+
+  const updated: BuildMemory = {
+    ...memory,
+    performance: { ...memory.performance, deploySuccess: success },
+  };
+  await saveBuildMemory(updated);
+  return updated;
+}
+
+/**
+ * List memories, newest first
+ */
+export async function listBuildMemories(limit = 20): Promise<BuildMemory[]> {
+  const all = await store().list();
+  return all
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+    .slice(0, limit);
+}
+
+/**
+ * All runs recorded for a business, newest first
+ */
+export async function getBuildHistory(
+  businessName: string,
+): Promise<BuildMemory[]> {
+  const slug = slugify(businessName);
+  const all = await listBuildMemories(Number.MAX_SAFE_INTEGER);
+
+  const exact = all.filter((m) => slugify(m.businessName) === slug);
+  if (exact.length > 0) return exact;
+
+  return all.filter((m) => slugify(m.businessName).includes(slug));
+}
+
+/**
+ * Latest memory for a business (exact slug match, then partial)
+ */
+export async function findBuildMemory(
+  businessName: string,
+): Promise<BuildMemory | null> {
+  const history = await getBuildHistory(businessName);
+  return history[0] || null;
+}
+
+/**
+ * Format a single memory for Telegram display
+ */
+export function formatBuildMemoryForTelegram(
+  memory: BuildMemory,
+  runs = 1,
+): string {
+  const sourceLabel = memory.source === "build" ? "/build" : "/new";
+  const outcome = memory.workflow
+    ? memory.workflow.triggered
+      ? `✅ ${escapeHtml(memory.workflow.name)} triggered`
+      : `❌ ${escapeHtml(memory.workflow.name)} failed to trigger`
+    : "📝 Config only (not launched)";
+
+  const customizations = Object.entries(memory.customizations)
+    .slice(0, 6)
+    .map(([k, v]) => `• ${escapeHtml(k)}: ${escapeHtml(v.slice(0, 40))}`)
+    .join("\n");
+
+  const learnings = memory.learnings
+    .slice(0, 3)
+    .map((l) => `• ${escapeHtml(l)}`)
+    .join("\n");
+
+  const { city, country } = memory.research.location;
+
+  return `🧠 <b>BUILD MEMORY: ${escapeHtml(memory.businessName)}</b>
+
+<b>Latest run:</b> ${sourceLabel} — ${new Date(memory.createdAt).toLocaleString()}
+<b>Sector:</b> ${escapeHtml(memory.sector)}
+<b>Location:</b> ${escapeHtml(`${city}, ${country}`)}
+<b>Outcome:</b> ${outcome}
+<b>Build time:</b> ${(memory.performance.buildTime / 1000).toFixed(1)}s
+<b>Runs recorded:</b> ${runs}
+
+<b>🏗️ Template:</b> ${memory.template.pages.length} pages, ${memory.template.components.length} components
+
+${customizations ? `<b>🎨 Customizations:</b>\n${customizations}\n` : ""}${learnings ? `\n<b>📚 Learnings:</b>\n${learnings}` : ""}`;
+}
+
+/**
+ * Format memory list for Telegram display
+ */
+export function formatBuildMemoryListForTelegram(
+  memories: BuildMemory[],
+): string {
+  if (memories.length === 0) {
+    return `🧠 <b>Build Memory</b>\n\nNo builds recorded yet.\n\nRun <code>/build</code> or <code>/new</code> to start learning.`;
+  }
+
+  const list = memories
+    .map((m, i) => {
+      const icon = m.source === "build" ? "⚡" : "🏗️";
+      const status = m.workflow ? (m.workflow.triggered ? "✅" : "❌") : "📝";
+      const date = new Date(m.createdAt).toLocaleDateString();
+      return `${i + 1}. ${icon} <b>${escapeHtml(m.businessName)}</b> (${escapeHtml(m.sector)}) ${status}\n   📅 ${date}`;
+    })
+    .join("\n");
+
+  return `🧠 <b>Build Memory</b> (${memories.length})\n\n${list}\n\n💡 <code>/memory [business]</code> for details`;
+}
@@ -5,6 +5,23 @@
 
 import Anthropic from "@anthropic-ai/sdk";
 import { BusinessResearch, researchBusiness } from "./research";
+import { escapeHtml } from "./telegram";
+import {
+  PricingConfig,
+  DEFAULT_TIER,
+  getPricingConfig,
+  getSectorEconomics,
+} from "./pricing";
+import {
+  Currency,
+  ExchangeRate,
+  ExchangeRates,
+  BASE_CURRENCY,
+  getExchangeRates,
+  convertFromUsd,
+  formatMoney,
+  formatRate,
+} from "./currency";
 
 const anthropic = new Anthropic({
   apiKey: process.env.ANTHROPIC_API_KEY,
@@ -12,33 +29,25 @@ const anthropic = new Anthropic({
 
 const MODEL = process.env.ANTHROPIC_MODEL || "claude-sonnet-4-5-20250929";
 
-// MachineMind pricing tiers
-const PRICING = {
-  starter: { monthly: 497, setup: 997, name: "Starter" },
-  professional: { monthly: 997, setup: 1997, name: "Professional" },
-  enterprise: { monthly: 1997, setup: 4997, name: "Enterprise" },
-};
-
-// Average booking values by sector (USD)
-const SECTOR_VALUES: Record<
-  string,
-  { avgBooking: number; monthlyLost: number }
-> = {
-  hotel: { avgBooking: 250, monthlyLost: 15 },
-  restaurant: { avgBooking: 75, monthlyLost: 30 },
-  nightclub: { avgBooking: 200, monthlyLost: 20 },
-  yacht: { avgBooking: 2500, monthlyLost: 4 },
-  villa: { avgBooking: 500, monthlyLost: 8 },
-  spa: { avgBooking: 150, monthlyLost: 12 },
-  tour: { avgBooking: 100, monthlyLost: 25 },
-  hospitality: { avgBooking: 150, monthlyLost: 15 },
-};
+export interface ROIOptions {
+  tier?: string;
+  // Overrides for the sector's economics, in the chosen currency
+  avgBooking?: number;
+  monthlyLost?: number;
+  currency?: Currency;
+}
 
 export interface ROICalculation {
   sector: string;
+  tier: string;
+  currency: Currency;
+  // Rate the USD pricing was converted with
+  exchangeRate: ExchangeRate;
   avgBookingValue: number;
   monthlyLostBookings: number;
   annualLoss: number;
+  setupCost: number;
+  monthlyCost: number;
   machineMineCost: number;
   netROI: number;
   roiMultiple: number;
@@ -67,6 +76,8 @@ export interface ProposalResult {
       setup: number;
       monthly: number;
       tier: string;
+      currency: Currency;
+      exchangeRate: ExchangeRate;
     };
     roi: ROICalculation;
     next_steps: string[];
@@ -75,33 +86,51 @@ export interface ProposalResult {
 }
 
 /**
- * Calculate ROI for a business
+ * Calculate ROI for a business from the pricing config
+ * Tier prices and sector defaults are converted to the chosen currency;
+ * avgBooking/monthlyLost overrides are taken as given
  */
 export function calculateROI(
   sector: string,
-  tier: keyof typeof PRICING = "professional",
+  config: PricingConfig,
+  rates: ExchangeRates,
+  options: ROIOptions = {},
 ): ROICalculation {
-  const sectorData = SECTOR_VALUES[sector] || SECTOR_VALUES.hospitality;
-  const pricing = PRICING[tier];
-
-  const monthlyLoss = sectorData.avgBooking * sectorData.monthlyLost;
+  const currency = options.currency || BASE_CURRENCY;
+  const rate = rates[currency];
+  const sectorData = getSectorEconomics(config, sector);
+  const pricing =
+    config.tiers[options.tier || DEFAULT_TIER] || config.tiers[DEFAULT_TIER];
+
+  const avgBooking =
+    options.avgBooking ?? convertFromUsd(sectorData.avgBooking, rate);
+  const monthlyLost = options.monthlyLost ?? sectorData.monthlyLost;
+  const setup = convertFromUsd(pricing.setup, rate);
+  const monthly = convertFromUsd(pricing.monthly, rate);
+
+  const monthlyLoss = avgBooking * monthlyLost;
   const annualLoss = monthlyLoss * 12;
-  const annualCost = pricing.setup + pricing.monthly * 12;
+  const annualCost = setup + monthly * 12;
   const netROI = annualLoss - annualCost;
   const roiMultiple = annualLoss / annualCost;
-  const paybackMonths = Math.ceil(
-    pricing.setup / (monthlyLoss - pricing.monthly),
-  );
+  // Never pays back when the monthly fee eats the recovered revenue
+  const paybackMonths =
+    monthlyLoss > monthly ? Math.ceil(setup / (monthlyLoss - monthly)) : 0;
 
   return {
     sector,
-    avgBookingValue: sectorData.avgBooking,
-    monthlyLostBookings: sectorData.monthlyLost,
+    tier: pricing.name,
+    currency,
+    exchangeRate: rate,
+    avgBookingValue: avgBooking,
+    monthlyLostBookings: monthlyLost,
     annualLoss,
+    setupCost: setup,
+    monthlyCost: monthly,
     machineMineCost: annualCost,
     netROI,
     roiMultiple: Math.round(roiMultiple * 10) / 10,
-    paybackMonths: Math.max(1, paybackMonths),
+    paybackMonths: paybackMonths && Math.max(1, paybackMonths),
   };
 }
 
@@ -112,14 +141,21 @@ export async function generatePitch(
   businessName: string,
   sector: string,
   research?: BusinessResearch,
+  options: ROIOptions = {},
 ): Promise<PitchResult> {
-  const roi = calculateROI(sector);
+  const roi = calculateROI(
+    sector,
+    await getPricingConfig(),
+    await getExchangeRates(),
+    options,
+  );
+  const money = (amount: number) => formatMoney(amount, roi.currency);
 
   if (!process.env.ANTHROPIC_API_KEY) {
     // Return template pitch without AI
     return {
       success: true,
-      headline: `${businessName}: Stop Losing $${roi.annualLoss.toLocaleString()}/Year to Bad Tech`,
+      headline: `${businessName}: Stop Losing ${money(roi.annualLoss)}/Year to Bad Tech`,
       painPoints: [
         "Losing bookings to competitors with better websites",
         "Manual WhatsApp responses = missed opportunities",
@@ -142,11 +178,11 @@ BUSINESS: ${businessName}
 SECTOR: ${sector}
 ${researchContext}
 
-ROI DATA:
-- Average booking: $${roi.avgBookingValue}
+ROI DATA (${formatRate(roi.exchangeRate)}):
+- Average booking: ${money(roi.avgBookingValue)}
 - Lost bookings/month: ${roi.monthlyLostBookings}
-- Annual loss: $${roi.annualLoss.toLocaleString()}
-- MachineMind cost: $${roi.machineMineCost.toLocaleString()}/year
+- Annual loss: ${money(roi.annualLoss)}
+- MachineMind cost (${roi.tier}): ${money(roi.machineMineCost)}/year
 - ROI: ${roi.roiMultiple}x return
 
 Generate a compelling sales pitch in JSON format:
@@ -214,12 +250,17 @@ Make it specific to ${sector} businesses in Colombia/Latin America. Spanish-spea
 export async function generateProposal(
   businessName: string,
   sector: string,
-  tier: keyof typeof PRICING = "professional",
+  options: ROIOptions = {},
 ): Promise<ProposalResult> {
-  const roi = calculateROI(sector, tier);
-  const pricing = PRICING[tier];
+  const roi = calculateROI(
+    sector,
+    await getPricingConfig(),
+    await getExchangeRates(),
+    options,
+  );
+  const tier = options.tier || DEFAULT_TIER;
 
-  const deliverables = {
+  const deliverables: Record<string, string[]> = {
     starter: [
       "Custom website (5 pages)",
       "WhatsApp integration",
@@ -249,15 +290,18 @@ export async function generateProposal(
   return {
     success: true,
     proposal: {
-      executive_summary: `MachineMind proposes a comprehensive digital transformation for ${businessName}, designed to capture lost revenue and automate guest communications. Based on industry data, ${businessName} is likely losing approximately $${roi.annualLoss.toLocaleString()} annually in missed bookings due to inadequate digital presence and response times.`,
+      executive_summary: `MachineMind proposes a comprehensive digital transformation for ${businessName}, designed to capture lost revenue and automate guest communications. Based on industry data, ${businessName} is likely losing approximately ${formatMoney(roi.annualLoss, roi.currency)} annually in missed bookings due to inadequate digital presence and response times.`,
       problem_statement: `${sector} businesses in Colombia face three critical challenges: 1) Competitors with superior digital presence capture bookings, 2) Manual WhatsApp responses create delays that lose customers, 3) No 24/7 availability means missing international guests in different time zones.`,
-      solution: `Our ${pricing.name} package includes an AI-powered website with Sofia, our intelligent concierge that handles inquiries 24/7 via WhatsApp. Sofia speaks Spanish and English, understands context, and can process bookings autonomously.`,
-      deliverables: deliverables[tier],
+      solution: `Our ${roi.tier} package includes an AI-powered website with Sofia, our intelligent concierge that handles inquiries 24/7 via WhatsApp. Sofia speaks Spanish and English, understands context, and can process bookings autonomously.`,
+      // Custom tiers get the Professional scope until they're written up
+      deliverables: deliverables[tier] || deliverables[DEFAULT_TIER],
       timeline: "4-6 weeks from contract signing to launch",
       investment: {
-        setup: pricing.setup,
-        monthly: pricing.monthly,
-        tier: pricing.name,
+        setup: roi.setupCost,
+        monthly: roi.monthlyCost,
+        tier: roi.tier,
+        currency: roi.currency,
+        exchangeRate: roi.exchangeRate,
       },
       roi,
       next_steps: [
@@ -364,22 +408,32 @@ Return JSON:
   }
 }
 
+export function formatPayback(roi: ROICalculation): string {
+  return roi.paybackMonths
+    ? `${roi.paybackMonths} months`
+    : "never (monthly fee exceeds recovered revenue)";
+}
+
 /**
  * Format ROI for Telegram display
  */
 export function formatROIForTelegram(roi: ROICalculation): string {
+  const money = (amount: number) => formatMoney(amount, roi.currency);
+
   return `💰 <b>ROI Analysis: ${roi.sector.toUpperCase()}</b>
 
 <b>Current Situation:</b>
-• Avg booking value: $${roi.avgBookingValue}
+• Avg booking value: ${money(roi.avgBookingValue)}
 • Lost bookings/month: ~${roi.monthlyLostBookings}
-• 📉 Annual revenue loss: <b>$${roi.annualLoss.toLocaleString()}</b>
+• 📉 Annual revenue loss: <b>${money(roi.annualLoss)}</b>
 
-<b>With MachineMind:</b>
-• Annual investment: $${roi.machineMineCost.toLocaleString()}
-• 📈 Net ROI: <b>$${roi.netROI.toLocaleString()}</b>
+<b>With MachineMind (${escapeHtml(roi.tier)}):</b>
+• Annual investment: ${money(roi.machineMineCost)}
+• 📈 Net ROI: <b>${money(roi.netROI)}</b>
 • 🚀 Return: <b>${roi.roiMultiple}x</b>
-• ⏱️ Payback: ${roi.paybackMonths} months
+• ⏱️ Payback: ${formatPayback(roi)}
+
+💱 ${formatRate(roi.exchangeRate)}
 
 <i>Based on industry averages for ${roi.sector} in Colombia</i>`;
 }
@@ -388,20 +442,23 @@ export function formatROIForTelegram(roi: ROICalculation): string {
  * Format pitch for Telegram display
  */
 export function formatPitchForTelegram(pitch: PitchResult): string {
-  const painPointsList = pitch.painPoints.map((p) => `• ${p}`).join("\n");
+  // Headline, pain points and copy are model output
+  const painPointsList = pitch.painPoints
+    .map((p) => `• ${escapeHtml(p)}`)
+    .join("\n");
 
-  return `🎯 <b>${pitch.headline}</b>
+  return `🎯 <b>${escapeHtml(pitch.headline)}</b>
 
 <b>Pain Points:</b>
 ${painPointsList}
 
 <b>Solution:</b>
-${pitch.solution}
+${escapeHtml(pitch.solution)}
 
 ${formatROIForTelegram(pitch.roi)}
 
 <b>Next Step:</b>
-${pitch.callToAction}`;
+${escapeHtml(pitch.callToAction)}`;
 }
 
 /**
@@ -414,21 +471,22 @@ export function formatProposalForTelegram(result: ProposalResult): string {
     .map((d) => `• ${d}`)
     .join("\n");
 
-  return `📋 <b>PROPOSAL: ${p.investment.tier}</b>
+  return `📋 <b>PROPOSAL: ${escapeHtml(p.investment.tier)}</b>
 
 <b>Executive Summary:</b>
-${p.executive_summary.slice(0, 200)}...
+${escapeHtml(p.executive_summary.slice(0, 200))}...
 
 <b>Deliverables:</b>
 ${deliverablesList}
 
 <b>Investment:</b>
-• Setup: $${p.investment.setup.toLocaleString()}
-• Monthly: $${p.investment.monthly.toLocaleString()}
+• Setup: ${formatMoney(p.investment.setup, p.investment.currency)}
+• Monthly: ${formatMoney(p.investment.monthly, p.investment.currency)}
+• 💱 ${formatRate(p.investment.exchangeRate)}
 
 <b>Timeline:</b> ${p.timeline}
 
-<b>ROI:</b> ${p.roi.roiMultiple}x return | Payback in ${p.roi.paybackMonths} months
+<b>ROI:</b> ${p.roi.roiMultiple}x return | Payback: ${formatPayback(p.roi)}
 
 <b>Next Steps:</b>
 ${p.next_steps
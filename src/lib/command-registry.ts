@@ -0,0 +1,223 @@
+/**
+ * COMMAND REGISTRY
+ * Metadata every bot command is registered with
+ *
+ * /help, /help [command], alias resolution, argument validation and the
+ * Telegram command menu (setMyCommands) are all generated from it, so the
+ * command map in commands.ts is the single source of truth.
+ */
+
+import { z } from "zod";
+import { Role, hasRole, UserPermissions } from "./permissions";
+import { escapeHtml, BotCommand } from "./telegram";
+import { SECTOR_TEMPLATES } from "./genesis-engine";
+
+export interface CommandContext {
+  userId: number;
+  permissions: UserPermissions;
+  // --key=value flags given with the command
+  flags: Record<string, string>;
+}
+
+export type CommandHandler = (
+  chatId: number,
+  args: string[],
+  ctx: CommandContext,
+) => Promise<void>;
+
+export type CommandCategory =
+  | "genesis"
+  | "ai"
+  | "acquisition"
+  | "analytics"
+  | "content"
+  | "deploy"
+  | "cicd"
+  | "notifications"
+  | "safety"
+  | "info";
+
+export interface CommandDefinition {
+  // Minimum role allowed to run the command
+  role: Role;
+  category: CommandCategory;
+  // One line, used in /help and for natural-language routing
+  description: string;
+  // Arguments after the command name, e.g. "[project] [branch]"
+  usage?: string;
+  examples?: string[];
+  aliases?: string[];
+  // Validates the args when any are given - no args shows the handler's intro
+  args?: z.ZodType<unknown>;
+  // Index of the project-name arg, checked against project-scoped users
+  // (an http(s) URL in that position is an external target and isn't scoped)
+  projectArg?: number;
+  handler: CommandHandler;
+}
+
+export type CommandRegistry = Record<string, CommandDefinition>;
+
+// Display order and headings for /help
+export const COMMAND_CATEGORIES: Record<CommandCategory, string> = {
+  genesis: "⚡ GENESIS ENGINE",
+  ai: "🧠 AI-POWERED",
+  acquisition: "💰 CLIENT ACQUISITION",
+  analytics: "📊 ANALYTICS",
+  content: "✍️ CONTENT",
+  deploy: "🚀 DEPLOYMENT",
+  cicd: "🔧 CI/CD",
+  notifications: "🔔 NOTIFICATIONS",
+  safety: "🛡️ SAFETY",
+  info: "📖 INFO",
+};
+
+export const SECTORS = Object.keys(SECTOR_TEMPLATES);
+
+// ============================================================================
+// ARGUMENT SCHEMAS
+// ============================================================================
+
+const project = z
+  .string()
+  .regex(
+    /^[a-z0-9][a-z0-9-]{0,99}$/i,
+    "Project names use letters, numbers and dashes",
+  );
+
+/**
+ * Building blocks for CommandDefinition.args - one string per positional
+ * arg, with quoted names already joined into a single arg
+ */
+export const arg = {
+  project,
+  // Project name or full URL
+  target: z.string().min(1),
+  sector: z.string().refine((value) => SECTORS.includes(value.toLowerCase()), {
+    message: `Sector must be one of: ${SECTORS.join(", ")}`,
+  }),
+  count: z.string().regex(/^\d+$/, "Must be a whole number"),
+  // Config keys like pricing tiers
+  slug: z
+    .string()
+    .regex(/^[a-z0-9][a-z0-9-]{0,29}$/i, "Use letters, numbers and dashes"),
+  token: z.string().regex(/^[a-f0-9]{8}$/i, "Tokens are 8 hex characters"),
+  word: z.string().min(1),
+  // Free text or a name plus options - at least `min` args
+  words: (min = 1) => z.array(z.string()).min(min),
+};
+
+/**
+ * Canonical command name for a typed name or alias
+ * Telegram menus can't contain dashes, so /speed_trend resolves to speed-trend
+ */
+export function resolveCommand(
+  registry: CommandRegistry,
+  name: string,
+): string | null {
+  const normalized = name.toLowerCase().replace(/_/g, "-");
+  if (registry[normalized]) return normalized;
+
+  const match = Object.entries(registry).find(([, def]) =>
+    def.aliases?.includes(normalized),
+  );
+  return match ? match[0] : null;
+}
+
+/**
+ * Error message for invalid args, null when they pass (or none were given)
+ */
+export function validateArgs(
+  def: CommandDefinition,
+  args: string[],
+): string | null {
+  if (!def.args || args.length === 0) return null;
+
+  const result = def.args.safeParse(args);
+  if (result.success) return null;
+
+  const issue = result.error.issues[0];
+  const names = def.usage?.match(/\[[^\]]+\]/g) || [];
+  const index = issue.path[0];
+
+  if (typeof index === "number") {
+    return `${names[index] || `Argument ${index + 1}`}: ${issue.message}`;
+  }
+  if (issue.code === "too_small") return "Missing arguments";
+  if (issue.code === "too_big") return "Too many arguments";
+  return issue.message;
+}
+
+function visibleCommands(
+  registry: CommandRegistry,
+  role: Role,
+): Array<[string, CommandDefinition]> {
+  return Object.entries(registry).filter(([, def]) => hasRole(role, def.role));
+}
+
+/**
+ * Command menu grouped by category, limited to what the role can run
+ */
+export function formatHelp(registry: CommandRegistry, role: Role): string {
+  const sections = (Object.keys(COMMAND_CATEGORIES) as CommandCategory[])
+    .map((category) => {
+      const lines = visibleCommands(registry, role)
+        .filter(([, def]) => def.category === category)
+        .map(
+          ([name, def]) =>
+            `<code>/${name}</code> — ${escapeHtml(def.description)}`,
+        );
+      return lines.length
+        ? `<b>${COMMAND_CATEGORIES[category]}:</b>\n${lines.join("\n")}`
+        : "";
+    })
+    .filter(Boolean);
+
+  return (
+    `🚀 <b>MachineMind Command Center v2</b>\n\n` +
+    `${sections.join("\n\n")}\n\n` +
+    `💡 <code>/help [command]</code> for usage and examples`
+  );
+}
+
+/**
+ * Usage page for one command
+ */
+export function formatCommandHelp(
+  name: string,
+  def: CommandDefinition,
+): string {
+  const lines = [
+    `📖 <b>/${name}</b>`,
+    "",
+    escapeHtml(def.description),
+    "",
+    `<b>Usage:</b> <code>/${name}${def.usage ? ` ${escapeHtml(def.usage)}` : ""}</code>`,
+  ];
+
+  if (def.examples?.length) {
+    lines.push(
+      `<b>Examples:</b>\n${def.examples.map((e) => `<code>${escapeHtml(e)}</code>`).join("\n")}`,
+    );
+  }
+  if (def.aliases?.length) {
+    lines.push(
+      `<b>Aliases:</b> ${def.aliases.map((a) => `<code>/${a}</code>`).join(" ")}`,
+    );
+  }
+  lines.push(`<b>Role:</b> ${def.role}+ · ${COMMAND_CATEGORIES[def.category]}`);
+
+  return lines.join("\n");
+}
+
+/**
+ * Telegram command menu entries for a role
+ */
+export function toBotCommands(
+  registry: CommandRegistry,
+  role: Role,
+): BotCommand[] {
+  return visibleCommands(registry, role).map(([name, def]) => ({
+    command: name.replace(/-/g, "_"),
+    description: def.description.slice(0, 256),
+  }));
+}
@@ -1,4 +1,17 @@
-import { sendMessage, sendTyping } from "./telegram";
+import { z } from "zod";
+import {
+  sendMessage,
+  sendTyping,
+  answerCallbackQuery,
+  callbackButton,
+  escapeHtml,
+  markup,
+  sendDocument,
+  setMyCommands,
+  InlineKeyboardButton,
+  SafeHtml,
+  MAX_MESSAGE_LENGTH,
+} from "./telegram";
 import {
   listProjects,
   getProject,
@@ -11,7 +24,12 @@ import {
   promoteDeployment,
   cancelDeployment,
 } from "./vercel";
-import { triggerWorkflow, listReposDetailed, repoExists } from "./github";
+import {
+  triggerWorkflow,
+  listReposDetailed,
+  repoExists,
+  putRepoFile,
+} from "./github";
 import {
   researchBusiness,
   formatResearchForTelegram,
@@ -25,12 +43,14 @@ import {
 } from "./genesis-engine";
 // Elite tier imports
 import {
-  analyzeAndFix,
+  diagnoseProject,
+  formatFixForTelegram,
   reviewCode,
   optimizeProject,
   chatAboutProject,
 } from "./ai-operations";
 import {
+  ROIOptions,
   calculateROI,
   generatePitch,
   generateProposal,
@@ -39,13 +59,31 @@ import {
   formatPitchForTelegram,
   formatProposalForTelegram,
 } from "./client-acquisition";
+import {
+  CURRENCIES,
+  isCurrency,
+  getExchangeRates,
+  setExchangeRate,
+  formatRate,
+  formatRatesForTelegram,
+} from "./currency";
+import {
+  PricingConfig,
+  getPricingConfig,
+  setTierPricing,
+  setSectorEconomics,
+  parseAmount,
+  formatPricingForTelegram,
+} from "./pricing";
 import {
   runSpeedTest,
   checkSEO,
   checkUptime,
+  runAccessibilityAudit,
   formatSpeedForTelegram,
   formatSEOForTelegram,
   formatUptimeForTelegram,
+  formatAccessibilityForTelegram,
 } from "./analytics";
 import {
   generateCopy,
@@ -60,10 +98,148 @@ import {
   addDomain,
   getPreviewUrl,
 } from "./advanced-deploy";
+import {
+  recordBuild,
+  recordProjectLaunch,
+  listBuildMemories,
+  getBuildHistory,
+  formatBuildMemoryForTelegram,
+  formatBuildMemoryListForTelegram,
+} from "./build-memory";
+import {
+  requiresConfirmation,
+  createPendingAction,
+  consumePendingAction,
+  discardPendingAction,
+  listPendingActions,
+  getConfirmationTtlSeconds,
+} from "./confirmations";
+import {
+  Role,
+  ROLES,
+  UserPermissions,
+  loadUserPermissions,
+  hasRole,
+  canAccessProject,
+} from "./permissions";
+import {
+  AuditOutcome,
+  recordAudit,
+  queryAuditLog,
+  formatAuditLogForTelegram,
+  redactArgs,
+} from "./audit-log";
+import {
+  GitHubEventType,
+  GITHUB_EVENT_TYPES,
+  ALL_REPOS,
+  isGitHubEventType,
+  subscribe,
+  unsubscribe,
+  listSubscriptions,
+} from "./subscriptions";
+import {
+  watchProject,
+  unwatchProject,
+  listWatchedProjects,
+} from "./project-watchers";
+import {
+  DEFAULT_INTERVAL_MINUTES,
+  addMonitor,
+  findMonitor,
+  removeMonitor,
+  listMonitors,
+  parseInterval,
+  runMonitorCheck,
+  getUptimeReport,
+  formatMonitorListForTelegram,
+  formatUptimeReportForTelegram,
+} from "./monitors";
+import {
+  recordSpeedResult,
+  getSpeedHistory,
+  resolveSpeedUrl,
+  formatSpeedTrendForTelegram,
+} from "./speed-history";
+import {
+  crawlSite,
+  formatSeoCrawlForTelegram,
+  formatSeoCrawlReportMarkdown,
+  DEFAULT_MAX_PAGES,
+  MAX_CRAWL_PAGES,
+  CRAWL_TIME_BUDGET_MS,
+  SECTOR_SCHEMA_TYPES,
+} from "./seo-crawler";
+import {
+  createJob,
+  syncJobs,
+  listActiveJobs,
+  formatJobsForTelegram,
+} from "./jobs";
+import {
+  getConversation,
+  startConversation,
+  continueConversation,
+  endConversation,
+  ConversationFlow,
+} from "./conversations";
+import {
+  interpretMessage,
+  isNaturalLanguageEnabled,
+  CommandTool,
+} from "./nl-router";
+import {
+  CommandContext,
+  CommandDefinition,
+  SECTORS,
+  arg,
+  resolveCommand,
+  validateArgs,
+  formatHelp,
+  formatCommandHelp,
+  toBotCommands,
+} from "./command-registry";
+import {
+  LeadStage,
+  LEAD_STAGES,
+  parseLeadStage,
+  parseFollowUpDate,
+  getLead,
+  findLead,
+  listLeads,
+  recordLeadActivity,
+  setLeadStage,
+  addLeadNote,
+  formatLeadStage,
+  formatLeadForTelegram,
+  formatLeadListForTelegram,
+} from "./leads";
+import {
+  parseReminderTime,
+  addReminder,
+  listReminders,
+  cancelReminder,
+  formatLocalTime,
+  formatRemindersForTelegram,
+  getDeployHealth,
+  buildDigest,
+} from "./scheduler";
+import {
+  StoredProposal,
+  saveProposal,
+  findProposal,
+  listProposals,
+  proposalFiles,
+  formatProposalListForTelegram,
+} from "./proposal-renderer";
+import { slugify } from "./storage";
 
 const GITHUB_OWNER = "Showowt";
 const BOT_REPO = "machinemind-telegram";
 
+// Where /build commits Genesis configs for new-project.yml to read
+const GENESIS_BUILDS_DIR = ".genesis/builds";
+
 /**
  * Extract project name from URL or return as-is
  * Handles:
@@ -91,1860 +267,4073 @@ function extractProjectName(input: string): string {
   return input;
 }
 
-/**
- * Clean all args by extracting project names from URLs
- */
-function cleanArgs(args: string[]): string[] {
-  return args.map((arg) => extractProjectName(arg));
+// ============================================================================
+// ARGUMENT PARSING
+// ============================================================================
+
+interface ParsedArgs {
+  // Quoted strings stay whole; unquoted URLs become project names
+  args: string[];
+  // --key=value flags, keys lowercased - a bare --key is "true"
+  flags: Record<string, string>;
 }
 
-type CommandHandler = (chatId: number, args: string[]) => Promise<void>;
+// Opening quote → closing quotes it accepts (phones send curly quotes)
+const QUOTES: Record<string, string[]> = {
+  '"': ['"', "”"],
+  "“": ["”", '"'],
+  "'": ["'", "’"],
+  "‘": ["’", "'"],
+};
 
-const commands: Record<string, CommandHandler> = {
-  start: async (chatId) => {
-    await sendMessage(
-      chatId,
-      `🚀 <b>MachineMind Command Center v2</b>\n\n` +
-        `<b>⚡ GENESIS ENGINE:</b>\n` +
-        `<code>/build</code> — Full masterpiece build\n` +
-        `<code>/research</code> — Scrape business intel\n` +
-        `<code>/new</code> — Create new project\n\n` +
-        `<b>🧠 AI-POWERED:</b>\n` +
-        `<code>/fix</code> — AI error diagnosis\n` +
-        `<code>/review</code> — AI code review\n` +
-        `<code>/optimize</code> — Performance suggestions\n` +
-        `<code>/chat</code> — Ask Claude anything\n\n` +
-        `<b>💰 CLIENT ACQUISITION:</b>\n` +
-        `<code>/pitch</code> — Generate sales pitch\n` +
-        `<code>/roi</code> — ROI calculator\n` +
-        `<code>/proposal</code> — Full proposal\n` +
-        `<code>/competitor</code> — Competitor analysis\n\n` +
-        `<b>📊 ANALYTICS:</b>\n` +
-        `<code>/speed</code> — Core Web Vitals\n` +
-        `<code>/seo</code> — SEO audit\n` +
-        `<code>/uptime</code> — Uptime check\n\n` +
-        `<b>✍️ CONTENT:</b>\n` +
-        `<code>/copy</code> — Generate copy\n` +
-        `<code>/translate</code> — ES ↔ EN\n` +
-        `<code>/image</code> — Image prompts\n\n` +
-        `<b>🚀 DEPLOY:</b>\n` +
-        `<code>/sites</code> — List projects\n` +
-        `<code>/status</code> — Deployment status\n` +
-        `<code>/deploy</code> — Deploy to prod\n` +
-        `<code>/clone</code> — Clone project\n` +
-        `<code>/env-set</code> — Set env var\n` +
-        `<code>/domain-add</code> — Add domain\n\n` +
-        `💡 <code>/help2</code> for full command list`,
-    );
-  },
+/**
+ * Read one token - a quote only closes when followed by whitespace,
+ * so apostrophes inside names ("Sofia's Lounge") survive
+ */
+function readToken(
+  text: string,
+  start: number,
+): { value: string; end: number; quoted: boolean } {
+  const closers = QUOTES[text[start]];
+
+  if (closers) {
+    for (let i = start + 1; i < text.length; i++) {
+      if (closers.includes(text[i]) && !text[i + 1]?.trim()) {
+        return { value: text.slice(start + 1, i), end: i + 1, quoted: true };
+      }
+    }
+  }
 
-  help2: async (chatId) => {
-    await sendMessage(
-      chatId,
-      `📖 <b>Full Command Reference</b>\n\n` +
-        `<b>🔧 CI/CD:</b>\n` +
-        `<code>/genesis [project]</code> — Build checks\n` +
-        `<code>/audit [project]</code> — Security scan\n` +
-        `<code>/demo [project]</code> — Preview deploy\n` +
-        `<code>/component [name] [project]</code> — Component\n` +
-        `<code>/sofia [project]</code> — Sofia deploy\n\n` +
-        `<b>📦 GitHub:</b>\n` +
-        `<code>/repos</code> — List repos\n\n` +
-        `<b>🚀 Deployment:</b>\n` +
-        `<code>/logs [project]</code> — Build logs\n` +
-        `<code>/errors [project]</code> — Runtime errors\n` +
-        `<code>/rollback [project]</code> — Rollback\n` +
-        `<code>/cancel [project]</code> — Cancel build\n` +
-        `<code>/preview [project] [branch]</code> — Preview URL\n\n` +
-        `<b>📊 Info:</b>\n` +
-        `<code>/domains [project]</code> — Domains\n` +
-        `<code>/env [project]</code> — Env vars\n` +
-        `<code>/ping</code> — Health check`,
-    );
-  },
+  // Unquoted word, or an unterminated quote taken literally
+  const space = text.slice(start).search(/\s/);
+  const end = space === -1 ? text.length : start + space;
+  return { value: text.slice(start, end), end, quoted: false };
+}
 
-  help: async (chatId) => {
-    await commands.start(chatId, []);
-  },
+/**
+ * Split the text after a command into positional args and flags, e.g.
+ * `"Casa San Agustin" hotel --city=Cartagena` →
+ * ["Casa San Agustin", "hotel"] + { city: "Cartagena" }
+ */
+function parseArgs(text: string): ParsedArgs {
+  const args: string[] = [];
+  const flags: Record<string, string> = {};
+  let i = 0;
+
+  while (i < text.length) {
+    if (/\s/.test(text[i])) {
+      i++;
+      continue;
+    }
 
-  ping: async (chatId) => {
-    const start = Date.now();
-    await sendMessage(
-      chatId,
-      `🏓 Pong! Response time: ${Date.now() - start}ms\n\n` +
-        `🤖 Bot: Online\n` +
-        `⚡ Vercel API: Connected\n` +
-        `🔗 GitHub Actions: Ready\n` +
-        `🕐 Server Time: ${new Date().toISOString()}`,
-    );
-  },
+    // Phones autocorrect -- to an em dash, so accept both
+    const flag = /^(?:--|—)([a-z][\w-]*)(=|(?=\s|$))/i.exec(text.slice(i));
 
-  // ==================== RESEARCH COMMANDS ====================
+    if (flag) {
+      const key = flag[1].toLowerCase();
+      const valueStart = i + flag[0].length;
 
-  research: async (chatId, args) => {
-    if (args.length === 0) {
-      await sendMessage(
-        chatId,
-        `🔍 <b>Research Agent</b>\n\n` +
-          `Scrapes business info from the web before builds.\n\n` +
-          `<b>Usage:</b>\n` +
-          `<code>/research [business-name]</code>\n` +
-          `<code>/research [business-name] [sector]</code>\n` +
-          `<code>/research [business-name] [sector] [city]</code>\n\n` +
-          `<b>Examples:</b>\n` +
-          `<code>/research "Casa San Agustin"</code>\n` +
-          `<code>/research "Alquimico" nightclub Cartagena</code>\n` +
-          `<code>/research "La Cevicheria" restaurant</code>`,
-      );
-      return;
+      if (flag[2] === "=" && text[valueStart]?.trim()) {
+        const token = readToken(text, valueStart);
+        flags[key] = token.value;
+        i = token.end;
+      } else {
+        flags[key] = flag[2] === "=" ? "" : "true";
+        i = valueStart;
+      }
+      continue;
     }
 
-    await sendTyping(chatId);
-    await sendMessage(chatId, `🔍 Researching business...`);
-
-    // Parse args - handle quoted business name
-    const fullText = args.join(" ");
-    let businessName: string;
-    let sector: string | undefined;
-    let location: string | undefined;
-
-    const quotedMatch = fullText.match(/["']([^"']+)["']\s*(.*)/);
-    if (quotedMatch) {
-      businessName = quotedMatch[1];
-      const remaining = quotedMatch[2].trim().split(/\s+/);
-      sector = remaining[0] || undefined;
-      location = remaining.slice(1).join(" ") || undefined;
-    } else {
-      // No quotes - first word is business, rest are sector/location
-      const words = fullText.split(/\s+/);
-      businessName = words[0];
-      sector = words[1] || undefined;
-      location = words.slice(2).join(" ") || undefined;
+    // Quoted tokens are always args - "" stays an (empty) arg and "--x" isn't a flag
+    const token = readToken(text, i);
+    if (token.value || token.quoted) {
+      args.push(token.quoted ? token.value : extractProjectName(token.value));
     }
+    i = token.end;
+  }
 
-    try {
-      const research = await researchBusiness(businessName, sector, location);
-      const formattedMsg = formatResearchForTelegram(research);
-      await sendMessage(chatId, formattedMsg);
+  return { args, flags };
+}
 
-      // Also show build config preview
-      const config = researchToBuildConfig(research);
-      const configPreview = Object.entries(config)
-        .slice(0, 8)
-        .map(([k, v]) => `${k}: ${v.slice(0, 30)}${v.length > 30 ? "..." : ""}`)
-        .join("\n");
+/**
+ * Quote an arg so parseArgs reads it back as one positional token
+ */
+function quoteArg(arg: string): string {
+  if (arg && !/\s/.test(arg) && !/^(?:["'“‘]|--|—)/.test(arg)) return arg;
+  return arg.includes('"') && !arg.includes("'")
+    ? `'${arg}'`
+    : `"${arg.replace(/"/g, "")}"`;
+}
 
-      await sendMessage(
-        chatId,
-        `\n📦 <b>Build Config Preview:</b>\n<pre>${configPreview}</pre>\n\n` +
-          `💡 Use <code>/build "${businessName}" ${sector || "hospitality"}</code> to create a masterpiece.`,
-      );
-    } catch (error) {
-      await sendMessage(
-        chatId,
-        `❌ Research failed: ${error instanceof Error ? error.message : "Unknown error"}`,
-      );
-    }
-  },
+/**
+ * Flags back in --key=value form (audit log, rebuilt command lines)
+ */
+function formatFlags(flags: Record<string, string>): string[] {
+  return Object.entries(flags).map(([key, value]) =>
+    value === "true" ? `--${key}` : `--${key}=${quoteArg(value)}`,
+  );
+}
 
-  build: async (chatId, args) => {
-    if (args.length === 0) {
-      const sectors = Object.keys(SECTOR_TEMPLATES).join(", ");
-      await sendMessage(
-        chatId,
-        `⚡ <b>GENESIS BUILD ENGINE</b>\n\n` +
-          `Powered by PROMETHEUS v2 + APEX v6 + BCB-OS v2\n\n` +
-          `Creates masterpiece websites with:\n` +
-          `• Research Agent (scrapes business intel)\n` +
-          `• APEX 4-Layer Architecture\n` +
-          `• Blue Ocean competitive advantage\n` +
-          `• Sector-specific templates\n` +
-          `• ZDBS quality standards\n\n` +
-          `<b>Usage:</b>\n` +
-          `<code>/build [business-name] [sector]</code>\n\n` +
-          `<b>Sectors:</b> ${sectors}\n\n` +
-          `<b>Example:</b>\n` +
-          `<code>/build "Casa San Agustin" hotel</code>\n` +
-          `<code>/build "Alquimico" nightclub</code>`,
-      );
-      return;
+/**
+ * Business name, sector and city from `"Business Name" sector city`
+ *
+ * The first lowercase sector after the name ends it, so unquoted names
+ * work too ("Cartagena Yacht Club yacht"); otherwise the last arg is the
+ * sector. --sector and --city flags win over positional values.
+ */
+function parseBusinessArgs(
+  args: string[],
+  flags: Record<string, string>,
+): { businessName: string; sector?: string; location?: string } {
+  let sectorIndex = args.findIndex((a, i) => i > 0 && SECTORS.includes(a));
+  if (sectorIndex === -1 && args.length > 1 && !flags.sector) {
+    sectorIndex = args.length - 1;
+  }
+  const nameEnd = sectorIndex === -1 ? args.length : sectorIndex;
+
+  return {
+    // Phones send curly apostrophes: Sofia’s → Sofia's
+    businessName: args.slice(0, nameEnd).join(" ").replace(/[‘’]/g, "'"),
+    sector: (flags.sector || args[sectorIndex])?.toLowerCase() || undefined,
+    location:
+      flags.city ||
+      (sectorIndex === -1 ? "" : args.slice(sectorIndex + 1).join(" ")) ||
+      undefined,
+  };
+}
+
+/**
+ * ROI options from --tier, --avg-booking, --lost-per-month and --currency
+ */
+function parseROIOptions(
+  flags: Record<string, string>,
+  config: PricingConfig,
+): { options: ROIOptions } | { error: string } {
+  const options: ROIOptions = {};
+
+  if (flags.tier) {
+    const tier = flags.tier.toLowerCase();
+    if (!config.tiers[tier]) {
+      return {
+        error: `Unknown tier "${flags.tier}" - use one of: ${Object.keys(config.tiers).join(", ")}`,
+      };
     }
+    options.tier = tier;
+  }
 
-    await sendTyping(chatId);
-
-    // Parse args
-    const fullText = args.join(" ");
-    let businessName: string;
-    let sector: string;
-    let location: string | undefined;
-
-    const quotedMatch = fullText.match(/["']([^"']+)["']\s*(.*)/);
-    if (quotedMatch) {
-      businessName = quotedMatch[1];
-      const remaining = quotedMatch[2].trim().split(/\s+/);
-      sector = remaining[0] || "hospitality";
-      location = remaining.slice(1).join(" ") || undefined;
-    } else {
-      const words = fullText.split(/\s+/);
-      sector = words[words.length - 1];
-      businessName = words.slice(0, -1).join(" ");
-      if (!businessName) {
-        businessName = sector;
-        sector = "hospitality";
-      }
+  if (flags.currency) {
+    const currency = flags.currency.toUpperCase();
+    if (!isCurrency(currency)) {
+      return { error: `--currency must be one of: ${CURRENCIES.join(", ")}` };
     }
+    options.currency = currency;
+  }
 
-    // Validate sector
-    if (!SECTOR_TEMPLATES[sector]) {
-      const sectors = Object.keys(SECTOR_TEMPLATES).join(", ");
-      await sendMessage(
-        chatId,
-        `❌ Unknown sector: <code>${sector}</code>\n\n` +
-          `Available: ${sectors}`,
-      );
-      return;
+  const amounts = [
+    ["avg-booking", "avgBooking"],
+    ["lost-per-month", "monthlyLost"],
+  ] as const;
+
+  for (const [flag, key] of amounts) {
+    if (flags[flag] === undefined) continue;
+    const amount = parseAmount(flags[flag]);
+    if (amount === null) {
+      return { error: `--${flag} must be a positive number` };
     }
+    options[key] = amount;
+  }
+
+  return { options };
+}
+
+/**
+ * --follow-up flag as a date: undefined when absent, null when invalid
+ */
+function parseFollowUpFlag(
+  flags: Record<string, string>,
+): string | undefined | null {
+  return flags["follow-up"] === undefined
+    ? undefined
+    : parseFollowUpDate(flags["follow-up"]);
+}
+
+/**
+ * Create or advance the business's lead and tell the chat where it stands
+ * A pipeline hiccup never fails the command that produced the work
+ */
+async function trackLead(
+  chatId: number,
+  businessName: string,
+  stage: LeadStage,
+  via: string,
+  details: Parameters<typeof recordLeadActivity>[3] = {},
+): Promise<void> {
+  try {
+    const { lead, advanced } = await recordLeadActivity(
+      businessName,
+      stage,
+      via,
+      details,
+    );
+    const followUp = lead.nextFollowUp
+      ? ` · follow up ${lead.nextFollowUp}`
+      : "";
 
     await sendMessage(
       chatId,
-      `⚡ <b>GENESIS ENGINE ACTIVATED</b>\n\n` +
-        `🔍 Phase 1: Research Agent scanning...\n` +
-        `📊 Business: ${businessName}\n` +
-        `🏷️ Sector: ${sector}`,
+      markup`📇 Lead <b>${lead.businessName}</b>: ${formatLeadStage(lead.stage)}${advanced ? "" : " (unchanged)"}${followUp}`,
     );
+  } catch (error) {
+    console.error("Lead tracking failed:", error);
+  }
+}
 
-    try {
-      // Phase 1: Research
-      const research = await researchBusiness(businessName, sector, location);
-
-      await sendMessage(
-        chatId,
-        `✅ Research complete\n\n` + `🏗️ Phase 2: Generating build config...`,
-      );
+/**
+ * Send a stored proposal as branded PDF and HTML documents
+ */
+async function sendProposalFiles(
+  chatId: number,
+  proposal: StoredProposal,
+): Promise<void> {
+  const { pdf, html } = proposalFiles(proposal);
+  const themed =
+    proposal.theme.source === "build" ? "build design" : "sector theme";
+  const label = `${escapeHtml(proposal.businessName)} · ${proposal.createdAt.slice(0, 10)} · ${themed}`;
+
+  await sendDocument(chatId, pdf, { caption: `📄 Proposal (PDF) · ${label}` });
+  await sendDocument(chatId, html, {
+    caption: `🌐 Proposal (HTML) · ${label}`,
+  });
+}
 
-      // Phase 2: Generate build config using Genesis Engine
-      const buildConfig = generateBuildConfig(research, String(chatId));
+/**
+ * Trigger a bot workflow and track its run so the chat hears back when it ends
+ */
+async function dispatchWorkflow(
+  chatId: number,
+  command: string,
+  workflow: string,
+  target: string,
+  inputs: Record<string, string>,
+): Promise<boolean> {
+  const success = await triggerWorkflow(
+    GITHUB_OWNER,
+    BOT_REPO,
+    workflow,
+    inputs,
+  );
 
-      // Display the full config
-      const configDisplay = formatBuildConfigForTelegram(buildConfig);
-      await sendMessage(chatId, configDisplay);
+  if (success) {
+    await createJob({
+      chatId,
+      command,
+      target,
+      owner: GITHUB_OWNER,
+      repo: BOT_REPO,
+      workflow,
+    });
+  }
 
-      // Phase 3: Generate the build prompt (for reference)
-      const buildPrompt = generateBuildPrompt(buildConfig);
+  return success;
+}
 
-      await sendMessage(
-        chatId,
-        `\n🚀 <b>Ready to Build</b>\n\n` +
-          `This will create:\n` +
-          `• ${buildConfig.architecture.pages.length} pages\n` +
-          `• ${buildConfig.architecture.components.length} components\n` +
-          `• ${buildConfig.architecture.features.length} features\n\n` +
-          `Blue Ocean: ${buildConfig.blueOcean.vector}\n\n` +
-          `<b>Next:</b> <code>/new "${businessName}" ${sector}</code> to launch the build`,
-      );
-    } catch (error) {
-      await sendMessage(
-        chatId,
-        `❌ Build config failed: ${error instanceof Error ? error.message : "Unknown error"}`,
-      );
-    }
-  },
+/**
+ * Human-readable summaries for commands that require confirmation
+ * Return null when args are incomplete so the handler can show its usage
+ */
+const CONFIRMATION_SUMMARIES: Record<
+  string,
+  (args: string[]) => SafeHtml | null
+> = {
+  deploy: (args) =>
+    args[0] ? markup`🚀 Deploy <code>${args[0]}</code> to production` : null,
+  rollback: (args) =>
+    args[0]
+      ? markup`⏪ Roll back <code>${args[0]}</code> to the previous successful deployment`
+      : null,
+  cancel: (args) =>
+    args[0]
+      ? markup`🛑 Cancel the active deployment of <code>${args[0]}</code>`
+      : null,
+  "env-set": (args) =>
+    args.length >= 3
+      ? markup`🔐 Set <code>${args[1]}</code> on <code>${args[0]}</code> (value hidden)`
+      : null,
+  "domain-add": (args) =>
+    args.length >= 2
+      ? markup`🌐 Add domain <code>${args[1]}</code> to <code>${args[0]}</code>`
+      : null,
+};
 
-  repos: async (chatId, args) => {
-    await sendTyping(chatId);
+/**
+ * Summary for a command that needs confirmation - commands enabled through
+ * CONFIRMATION_POLICY without a dedicated summary echo their (redacted) args
+ */
+function confirmationSummary(command: string, args: string[]): SafeHtml | null {
+  const summarize = CONFIRMATION_SUMMARIES[command];
+  if (summarize) return summarize(args);
 
-    try {
-      const repos = await listReposDetailed(GITHUB_OWNER);
+  const line = [`/${command}`, ...redactArgs(command, args)].join(" ");
+  return markup`▶️ Run <code>${line}</code>`;
+}
 
-      if (repos.length === 0) {
-        await sendMessage(chatId, "📁 No GitHub repos found.");
+const commands: Record<string, CommandDefinition> = {
+  help: {
+    role: "viewer",
+    category: "info",
+    description: "Show the commands you can run, or how to use one",
+    usage: "[command]",
+    examples: ["/help", "/help deploy"],
+    aliases: ["start", "help2", "commands"],
+    args: z.tuple([arg.word]),
+    handler: async (chatId, args, ctx) => {
+      if (args.length === 0) {
+        await sendMessage(
+          chatId,
+          formatHelp(commands, ctx.permissions.role) +
+            `\n👤 <code>/whoami</code> — Your role & access`,
+        );
         return;
       }
 
-      // Filter by search term if provided
-      let filtered = repos;
-      if (args.length > 0) {
-        const search = args[0].toLowerCase();
-        filtered = repos.filter(
-          (r) =>
-            r.name.toLowerCase().includes(search) ||
-            r.description?.toLowerCase().includes(search),
+      const name = resolveCommand(commands, args[0].replace(/^\//, ""));
+
+      if (!name) {
+        await sendMessage(
+          chatId,
+          `❓ Unknown command: <code>/${escapeHtml(args[0].replace(/^\//, ""))}</code>\n\nUse <code>/help</code> for available commands.`,
         );
+        return;
       }
 
-      const list = filtered
-        .slice(0, 20)
-        .map((r, i) => {
-          const lang = r.language ? ` (${r.language})` : "";
-          const updated = new Date(r.updated_at).toLocaleDateString();
-          return `${i + 1}. <code>${r.name}</code>${lang}\n   📅 ${updated}`;
-        })
-        .join("\n");
+      await sendMessage(chatId, formatCommandHelp(name, commands[name]));
+    },
+  },
 
-      const searchNote = args.length > 0 ? ` matching "${args[0]}"` : "";
+  exit: {
+    role: "viewer",
+    category: "safety",
+    description: "Leave the guided setup in progress",
+    handler: async (chatId) => {
+      const conversation = await getConversation(chatId);
+      await endConversation(chatId);
 
       await sendMessage(
         chatId,
-        `📦 <b>GitHub Repos${searchNote}</b> (${filtered.length})\n\n${list}\n\n` +
-          `💡 These can be used with <code>/genesis [repo]</code>\n` +
-          `🔍 Search: <code>/repos [keyword]</code>`,
+        conversation
+          ? `👋 Left the <code>/${conversation.flow}</code> setup. Nothing was created.`
+          : "No guided setup in progress.",
       );
-    } catch (error) {
+    },
+  },
+
+  ping: {
+    role: "viewer",
+    category: "info",
+    description: "Check that the bot is online",
+    handler: async (chatId) => {
+      const start = Date.now();
       await sendMessage(
         chatId,
-        `❌ Error: ${error instanceof Error ? error.message : "Unknown error"}`,
+        `🏓 Pong! Response time: ${Date.now() - start}ms\n\n` +
+          `🤖 Bot: Online\n` +
+          `⚡ Vercel API: Connected\n` +
+          `🔗 GitHub Actions: Ready\n` +
+          `🕐 Server Time: ${new Date().toISOString()}`,
       );
-    }
+    },
   },
 
-  // ==================== CREATE COMMANDS ====================
+  whoami: {
+    role: "viewer",
+    category: "info",
+    description: "Show your role and project access",
+    handler: async (chatId, _args, ctx) => {
+      const { role, projects } = ctx.permissions;
+
+      const allowed = Object.entries(commands)
+        .filter(([, def]) => hasRole(role, def.role))
+        .map(([name]) => `/${name}`);
+
+      const byRole = ROLES.filter((r) => hasRole(role, r))
+        .map((r) => {
+          const names = Object.entries(commands)
+            .filter(([, def]) => def.role === r)
+            .map(([name]) => `<code>/${name}</code>`)
+            .join(" ");
+          return `<b>${r}:</b>\n${names}`;
+        })
+        .join("\n\n");
 
-  new: async (chatId, args) => {
-    if (args.length < 2) {
       await sendMessage(
         chatId,
-        `🏗️ <b>New Project Generator</b>\n\n` +
-          `Creates a complete project from scratch.\n\n` +
-          `<b>Usage:</b>\n` +
-          `<code>/new [business-name] [sector]</code>\n\n` +
-          `<b>Sectors:</b>\n` +
-          `• hospitality\n` +
-          `• restaurant\n` +
-          `• nightclub\n` +
-          `• yacht\n` +
-          `• villa\n` +
-          `• tour\n` +
-          `• hotel\n` +
-          `• spa\n\n` +
-          `<b>Example:</b>\n` +
-          `<code>/new "Cartagena Yacht Club" yacht</code>\n` +
-          `<code>/new "Sofia Lounge" nightclub</code>`,
+        `👤 <b>Who Am I</b>\n\n` +
+          `🆔 User: <code>${ctx.userId}</code>\n` +
+          `🎖️ Role: <b>${role}</b>\n` +
+          `📦 Projects: ${projects ? projects.map((p) => `<code>${p}</code>`).join(", ") : "all"}\n\n` +
+          `<b>You can run ${allowed.length} commands:</b>\n\n${byRole}`,
       );
-      return;
-    }
-
-    await sendTyping(chatId);
+    },
+  },
 
-    // Parse args - handle quoted business name
-    let businessName: string;
-    let sector: string;
+  // ==================== RESEARCH COMMANDS ====================
 
-    const fullText = args.join(" ");
-    const quotedMatch = fullText.match(/["']([^"']+)["']\s+(\w+)/);
+  research: {
+    role: "operator",
+    category: "genesis",
+    description:
+      "Scrape business intel (website, reviews, socials) for a business",
+    usage: "[business-name]",
+    examples: ['/research "Casa San Agustin"'],
+    args: arg.words(1),
+    handler: async (chatId, args, ctx) => {
+      if (args.length === 0) {
+        await sendMessage(
+          chatId,
+          `🔍 <b>Research Agent</b>\n\n` +
+            `Scrapes business info from the web before builds.\n\n` +
+            `<b>Usage:</b>\n` +
+            `<code>/research [business-name]</code>\n` +
+            `<code>/research [business-name] [sector]</code>\n` +
+            `<code>/research [business-name] [sector] [city]</code>\n\n` +
+            `<b>Examples:</b>\n` +
+            `<code>/research "Casa San Agustin"</code>\n` +
+            `<code>/research "Alquimico" nightclub Cartagena</code>\n` +
+            `<code>/research "La Cevicheria" restaurant</code>`,
+        );
+        return;
+      }
 
-    if (quotedMatch) {
-      businessName = quotedMatch[1];
-      sector = quotedMatch[2];
-    } else {
-      // No quotes - last word is sector, rest is business name
-      sector = args[args.length - 1];
-      businessName = args.slice(0, -1).join(" ");
-    }
+      await sendTyping(chatId);
+      await sendMessage(chatId, `🔍 Researching business...`);
 
-    // Input validation - prevent injection attacks
-    if (!validateBusinessName(businessName)) {
-      await sendMessage(
-        chatId,
-        `❌ Invalid business name: <code>${businessName.slice(0, 50)}</code>\n\n` +
-          `Must be 1-100 characters, alphanumeric with spaces and basic punctuation.`,
+      const { businessName, sector, location } = parseBusinessArgs(
+        args,
+        ctx.flags,
       );
-      return;
-    }
 
-    // Validate sector
-    const validSectors = [
-      "hospitality",
-      "restaurant",
-      "nightclub",
-      "yacht",
-      "villa",
-      "tour",
-      "hotel",
-      "spa",
-    ];
-    if (!validSectors.includes(sector.toLowerCase())) {
-      await sendMessage(
-        chatId,
-        `❌ Invalid sector: <code>${sector}</code>\n\n` +
-          `Valid sectors: ${validSectors.join(", ")}`,
-      );
-      return;
-    }
+      try {
+        const research = await researchBusiness(businessName, sector, location);
+        const formattedMsg = formatResearchForTelegram(research);
+        await sendMessage(chatId, formattedMsg);
 
-    const success = await triggerWorkflow(
-      GITHUB_OWNER,
-      BOT_REPO,
-      "new-project.yml",
-      {
-        business_name: businessName,
-        sector: sector.toLowerCase(),
-        chat_id: String(chatId),
-      },
-    );
+        await sendDocument(
+          chatId,
+          {
+            filename: `${slugify(research.name || businessName)}-research.json`,
+            content: JSON.stringify(research, null, 2),
+            contentType: "application/json",
+          },
+          { caption: "🔍 Full research data" },
+        );
 
-    if (success) {
-      await sendMessage(
-        chatId,
-        `🏗️ <b>Project Creation Started</b>\n\n` +
-          `🏢 Business: <code>${businessName}</code>\n` +
-          `🎯 Sector: <code>${sector}</code>\n\n` +
-          `⏱️ ETA: 2-3 minutes\n\n` +
-          `You'll receive the GitHub repo + live URL when ready.`,
-      );
-    } else {
-      await sendMessage(
-        chatId,
-        `❌ Failed to start project creation.\n\n` +
-          `Make sure GITHUB_TOKEN is configured.`,
-      );
-    }
-  },
+        // Also show build config preview
+        const config = researchToBuildConfig(research);
+        const configPreview = Object.entries(config)
+          .slice(0, 8)
+          .map(
+            ([k, v]) => `${k}: ${v.slice(0, 30)}${v.length > 30 ? "..." : ""}`,
+          )
+          .join("\n");
 
-  // ==================== BUILD COMMANDS ====================
+        await sendMessage(
+          chatId,
+          `\n📦 <b>Build Config Preview:</b>\n<pre>${escapeHtml(configPreview)}</pre>\n\n` +
+            `💡 Use <code>/build "${escapeHtml(businessName)}" ${escapeHtml(sector || "hospitality")}</code> to create a masterpiece.`,
+        );
 
-  genesis: async (chatId, args) => {
-    if (args.length === 0) {
-      await sendMessage(
-        chatId,
-        `⚡ <b>Genesis Build</b>\n\n` +
-          `Full autonomous build with ZDBS validation.\n\n` +
-          `<b>Usage:</b> <code>/genesis [project-name]</code>\n` +
-          `<b>Example:</b> <code>/genesis simmer-down</code>\n\n` +
-          `💡 Use <code>/repos</code> to see available repos`,
-      );
-      return;
-    }
+        await trackLead(chatId, businessName, "researched", "research", {
+          sector,
+          location,
+          research,
+        });
+      } catch (error) {
+        await sendMessage(
+          chatId,
+          `❌ Research failed: ${escapeHtml(error instanceof Error ? error.message : "Unknown error")}`,
+        );
+      }
+    },
+  },
 
-    await sendTyping(chatId);
-    const projectName = args[0];
+  build: {
+    role: "operator",
+    category: "genesis",
+    description: "Run the full Genesis build for a new client website",
+    usage: "[business-name] [sector] [city]",
+    examples: [
+      '/build "Casa San Agustin" hotel',
+      '/build "Alquimico" nightclub Medellín',
+      '/build "Casa Mar" --sector=villa --city="Santa Marta"',
+    ],
+    args: arg.words(1),
+    handler: async (chatId, args, ctx) => {
+      if (args.length === 0) {
+        const sectors = Object.keys(SECTOR_TEMPLATES).join(", ");
+        await sendMessage(
+          chatId,
+          `⚡ <b>GENESIS BUILD ENGINE</b>\n\n` +
+            `Powered by PROMETHEUS v2 + APEX v6 + BCB-OS v2\n\n` +
+            `Creates masterpiece websites with:\n` +
+            `• Research Agent (scrapes business intel)\n` +
+            `• APEX 4-Layer Architecture\n` +
+            `• Blue Ocean competitive advantage\n` +
+            `• Sector-specific templates\n` +
+            `• ZDBS quality standards\n\n` +
+            `<b>Usage:</b>\n` +
+            `<code>/build [business-name] [sector] [city]</code>\n` +
+            `Flags: <code>--sector=</code> <code>--city=</code>\n\n` +
+            `<b>Sectors:</b> ${sectors}\n\n` +
+            `<b>Example:</b>\n` +
+            `<code>/build "Casa San Agustin" hotel</code>\n` +
+            `<code>/build "Alquimico" nightclub</code>`,
+        );
+        return;
+      }
 
-    // Input validation - prevent injection attacks
-    if (!validateProjectName(projectName)) {
-      await sendMessage(
-        chatId,
-        `❌ Invalid project name: <code>${projectName.slice(0, 50)}</code>\n\n` +
-          `Must be lowercase, alphanumeric with hyphens, max 100 characters.`,
-      );
-      return;
-    }
+      await sendTyping(chatId);
+      const startedAt = Date.now();
 
-    // Check if repo exists on GitHub
-    const exists = await repoExists(GITHUB_OWNER, projectName);
+      const parsed = parseBusinessArgs(args, ctx.flags);
+      const { businessName, location } = parsed;
+      const sector = parsed.sector || "hospitality";
 
-    if (!exists) {
-      // Check if maybe they meant a similar repo
-      const repos = await listReposDetailed(GITHUB_OWNER);
-      const similar = repos
-        .filter((r) => r.name.toLowerCase().includes(projectName.toLowerCase()))
-        .slice(0, 3);
+      if (!validateBusinessName(businessName)) {
+        await sendMessage(
+          chatId,
+          markup`❌ Invalid business name: <code>${businessName.slice(0, 50)}</code>\n\nMust be 1-100 characters, alphanumeric with spaces and basic punctuation.`,
+        );
+        return;
+      }
 
-      let suggestion = "";
-      if (similar.length > 0) {
-        suggestion =
-          `\n\n<b>Did you mean:</b>\n` +
-          similar.map((r) => `• <code>${r.name}</code>`).join("\n");
+      // Validate sector
+      if (!SECTOR_TEMPLATES[sector]) {
+        const sectors = Object.keys(SECTOR_TEMPLATES).join(", ");
+        await sendMessage(
+          chatId,
+          `❌ Unknown sector: <code>${sector}</code>\n\n` +
+            `Available: ${sectors}`,
+        );
+        return;
       }
 
       await sendMessage(
         chatId,
-        `❌ <b>Repo not found:</b> <code>${GITHUB_OWNER}/${projectName}</code>\n\n` +
-          `Genesis requires a GitHub repo to run CI/CD.\n\n` +
-          `<b>Options:</b>\n` +
-          `1️⃣ <code>/repos</code> — List your GitHub repos\n` +
-          `2️⃣ <code>/repos ${projectName}</code> — Search repos\n` +
-          `3️⃣ <code>/new "${projectName}" hospitality</code> — Create new project` +
-          suggestion,
+        `⚡ <b>GENESIS ENGINE ACTIVATED</b>\n\n` +
+          `🔍 Phase 1: Research Agent scanning...\n` +
+          `📊 Business: ${escapeHtml(businessName)}\n` +
+          `🏷️ Sector: ${escapeHtml(sector)}`,
       );
-      return;
-    }
 
-    const success = await triggerWorkflow(
-      GITHUB_OWNER,
-      BOT_REPO,
-      "genesis.yml",
-      {
-        project: projectName,
-        chat_id: String(chatId),
-      },
-    );
+      try {
+        // Phase 1: Research
+        const research = await researchBusiness(businessName, sector, location);
 
-    if (success) {
-      await sendMessage(
-        chatId,
-        `⚡ <b>Genesis Build Triggered</b>\n\n` +
-          `📦 Project: <code>${projectName}</code>\n` +
-          `🔄 Status: Queued\n\n` +
-          `You'll receive updates as the build progresses.`,
-      );
-    } else {
-      await sendMessage(
-        chatId,
-        `❌ Failed to trigger Genesis build.\n\n` +
-          `Make sure GITHUB_TOKEN is configured.`,
-      );
-    }
-  },
+        await sendMessage(
+          chatId,
+          `✅ Research complete\n\n` + `🏗️ Phase 2: Generating build config...`,
+        );
 
-  audit: async (chatId, args) => {
-    if (args.length === 0) {
-      await sendMessage(
-        chatId,
-        `🔍 <b>Security Audit</b>\n\n` +
-          `Scans for vulnerabilities, secrets, and code quality.\n\n` +
-          `<b>Usage:</b> <code>/audit [project-name]</code>\n` +
-          `<b>Example:</b> <code>/audit simmer-down</code>`,
-      );
-      return;
-    }
+        // Phase 2: Generate build config using Genesis Engine
+        const buildConfig = generateBuildConfig(research, String(chatId));
 
-    await sendTyping(chatId);
-    const projectName = args[0];
+        // Display the full config
+        const configDisplay = formatBuildConfigForTelegram(buildConfig);
+        await sendMessage(chatId, configDisplay);
 
-    const success = await triggerWorkflow(GITHUB_OWNER, BOT_REPO, "audit.yml", {
-      project: projectName,
-      chat_id: String(chatId),
-    });
+        // Phase 3: Generate the build prompt (for reference)
+        const buildPrompt = generateBuildPrompt(buildConfig);
 
-    if (success) {
-      await sendMessage(
-        chatId,
-        `🔍 <b>Security Audit Started</b>\n\n` +
-          `📦 Project: <code>${projectName}</code>\n` +
-          `🔄 Status: Scanning...\n\n` +
-          `You'll receive the audit report when complete.`,
-      );
-    } else {
-      await sendMessage(
-        chatId,
-        `❌ Failed to trigger audit.\n\n` +
-          `Make sure GITHUB_TOKEN is configured.`,
-      );
-    }
-  },
+        // Attach the artifacts so they can be reused outside Telegram
+        const slug = slugify(businessName);
+        await sendDocument(
+          chatId,
+          {
+            filename: `${slug}-genesis-config.json`,
+            content: JSON.stringify(buildConfig, null, 2),
+            contentType: "application/json",
+          },
+          { caption: "📦 Genesis build config" },
+        );
+        await sendDocument(
+          chatId,
+          {
+            filename: `${slug}-build-prompt.md`,
+            content: buildPrompt,
+            contentType: "text/markdown",
+          },
+          { caption: "📝 Build prompt" },
+        );
 
-  demo: async (chatId, args) => {
-    if (args.length === 0) {
-      await sendMessage(
-        chatId,
-        `🎬 <b>Demo Deploy</b>\n\n` +
-          `Creates a preview deployment for client demos.\n\n` +
-          `<b>Usage:</b> <code>/demo [project-name]</code>\n` +
-          `<b>Example:</b> <code>/demo simmer-down</code>`,
-      );
-      return;
-    }
-
-    await sendTyping(chatId);
-    const projectName = args[0];
+        // Phase 4: Commit config + prompt so the workflow builds from them
+        const configPath = `${GENESIS_BUILDS_DIR}/${slug}.json`;
+        const promptPath = `${GENESIS_BUILDS_DIR}/${slug}.md`;
+        const committed =
+          (await putRepoFile(
+            GITHUB_OWNER,
+            BOT_REPO,
+            configPath,
+            JSON.stringify(buildConfig, null, 2),
+            `Genesis config: ${businessName} (${sector})`,
+          )) !== null &&
+          (await putRepoFile(
+            GITHUB_OWNER,
+            BOT_REPO,
+            promptPath,
+            buildPrompt,
+            `Genesis prompt: ${businessName} (${sector})`,
+          )) !== null;
+
+        const { city, country } = buildConfig.business.location;
+        const triggered =
+          committed &&
+          (await dispatchWorkflow(
+            chatId,
+            "build",
+            "new-project.yml",
+            businessName,
+            {
+              business_name: businessName,
+              sector,
+              chat_id: String(chatId),
+              location: [city, country].filter(Boolean).join(", "),
+              config_path: configPath,
+              prompt_path: promptPath,
+            },
+          ));
+
+        // Remember this build so future runs can learn from it
+        await recordBuild(research, buildConfig, Date.now() - startedAt, {
+          name: "new-project.yml",
+          triggered,
+        });
 
-    const success = await triggerWorkflow(GITHUB_OWNER, BOT_REPO, "demo.yml", {
-      project: projectName,
-      chat_id: String(chatId),
-    });
+        if (!triggered) {
+          await sendMessage(
+            chatId,
+            `❌ Failed to dispatch the build.\n\n` +
+              `${committed ? "Workflow trigger failed" : "Could not commit the build config"} - make sure GITHUB_TOKEN is configured.\n` +
+              `The config and prompt are attached above.`,
+          );
+          return;
+        }
 
-    if (success) {
-      await sendMessage(
-        chatId,
-        `🎬 <b>Demo Deploy Started</b>\n\n` +
-          `📦 Project: <code>${projectName}</code>\n` +
-          `🔄 Status: Creating preview...\n\n` +
-          `You'll receive the preview URL when ready.`,
-      );
-    } else {
-      await sendMessage(
-        chatId,
-        `❌ Failed to trigger demo deploy.\n\n` +
-          `Make sure GITHUB_TOKEN is configured.`,
-      );
-    }
+        await sendMessage(
+          chatId,
+          `\n🚀 <b>Build Dispatched</b>\n\n` +
+            `This will create:\n` +
+            `• ${buildConfig.architecture.pages.length} pages\n` +
+            `• ${buildConfig.architecture.components.length} components\n` +
+            `• ${buildConfig.architecture.features.length} features\n\n` +
+            `Blue Ocean: ${escapeHtml(buildConfig.blueOcean.vector)}\n` +
+            `📄 Config: <code>${configPath}</code>\n\n` +
+            `⏱️ ETA: 3-4 minutes - you'll receive the GitHub repo + live URL when ready.`,
+        );
+      } catch (error) {
+        await sendMessage(
+          chatId,
+          `❌ Build config failed: ${escapeHtml(error instanceof Error ? error.message : "Unknown error")}`,
+        );
+      }
+    },
   },
 
-  component: async (chatId, args) => {
-    if (args.length < 2) {
-      await sendMessage(
-        chatId,
-        `🧩 <b>Component Generator</b>\n\n` +
-          `Creates a new React component with ZDBS standards.\n\n` +
-          `<b>Usage:</b> <code>/component [ComponentName] [project]</code>\n` +
-          `<b>Example:</b> <code>/component HeroSection simmer-down</code>\n\n` +
-          `<b>Rules:</b>\n` +
-          `• Component: PascalCase (e.g., HeroSection)\n` +
-          `• Project: lowercase with hyphens (e.g., simmer-down)`,
-      );
-      return;
-    }
-
-    await sendTyping(chatId);
-    const componentName = args[0];
-    const projectName = args[1];
-
-    // Input validation - prevent injection attacks
-    if (!validateComponentName(componentName)) {
-      await sendMessage(
-        chatId,
-        `❌ Invalid component name: <code>${componentName}</code>\n\n` +
-          `Must be PascalCase, alphanumeric, max 50 characters.\n` +
-          `Example: <code>HeroSection</code>, <code>ContactForm</code>`,
-      );
-      return;
-    }
-
-    if (!validateProjectName(projectName)) {
-      await sendMessage(
-        chatId,
-        `❌ Invalid project name: <code>${projectName}</code>\n\n` +
-          `Must be lowercase, alphanumeric with hyphens, max 100 characters.`,
-      );
-      return;
-    }
+  memory: {
+    role: "viewer",
+    category: "genesis",
+    description: "Show past Genesis builds",
+    usage: "[list|business-name]",
+    examples: ["/memory list", "/memory Alquimico"],
+    handler: async (chatId, args) => {
+      if (args.length === 0) {
+        await sendMessage(
+          chatId,
+          `🧠 <b>Build Memory</b>\n\n` +
+            `Every /build and /new run is recorded with its research, template, customizations and launch outcome.\n\n` +
+            `<b>Usage:</b>\n` +
+            `<code>/memory list</code> — Recent builds\n` +
+            `<code>/memory [business-name]</code> — Build details\n\n` +
+            `<b>Example:</b> <code>/memory "Casa San Agustin"</code>`,
+        );
+        return;
+      }
 
-    const success = await triggerWorkflow(
-      GITHUB_OWNER,
-      BOT_REPO,
-      "component.yml",
-      {
-        component_name: componentName,
-        project: projectName,
-        chat_id: String(chatId),
-      },
-    );
+      try {
+        if (args.length === 1 && args[0].toLowerCase() === "list") {
+          const memories = await listBuildMemories(15);
+          await sendMessage(chatId, formatBuildMemoryListForTelegram(memories));
+          return;
+        }
+
+        const businessName = args.join(" ");
+        const history = await getBuildHistory(businessName);
+
+        if (history.length === 0) {
+          await sendMessage(
+            chatId,
+            `🧠 No build memory for <code>${escapeHtml(businessName)}</code>.\n\n` +
+              `Use <code>/memory list</code> to see recorded builds.`,
+          );
+          return;
+        }
 
-    if (success) {
-      await sendMessage(
-        chatId,
-        `🧩 <b>Component Generator Started</b>\n\n` +
-          `📦 Component: <code>${componentName}</code>\n` +
-          `📁 Project: <code>${projectName}</code>\n\n` +
-          `You'll receive confirmation when the component is created.`,
-      );
-    } else {
-      await sendMessage(
-        chatId,
-        `❌ Failed to trigger component generator.\n\n` +
-          `Make sure GITHUB_TOKEN is configured.`,
-      );
-    }
+        await sendMessage(
+          chatId,
+          formatBuildMemoryForTelegram(history[0], history.length),
+        );
+      } catch (error) {
+        await sendMessage(
+          chatId,
+          `❌ Error: ${escapeHtml(error instanceof Error ? error.message : "Unknown error")}`,
+        );
+      }
+    },
   },
 
-  sofia: async (chatId, args) => {
-    if (args.length === 0) {
-      await sendMessage(
-        chatId,
-        `🤖 <b>Sofia Deploy Swarm</b>\n\n` +
-          `Full deployment pipeline for Sofia AI agent projects.\n\n` +
-          `<b>Includes:</b>\n` +
-          `• TypeScript validation\n` +
-          `• Build verification\n` +
-          `• Vercel deployment\n` +
-          `• Webhook configuration\n\n` +
-          `<b>Usage:</b> <code>/sofia [project-name]</code>\n` +
-          `<b>Example:</b> <code>/sofia sofia-brain</code>`,
-      );
-      return;
-    }
-
-    await sendTyping(chatId);
-    const projectName = args[0];
-
-    const success = await triggerWorkflow(
-      GITHUB_OWNER,
-      BOT_REPO,
-      "sofia-deploy.yml",
-      {
-        project: projectName,
-        chat_id: String(chatId),
-      },
-    );
+  repos: {
+    role: "viewer",
+    category: "cicd",
+    description: "List GitHub repositories",
+    handler: async (chatId, args) => {
+      await sendTyping(chatId);
+
+      try {
+        const repos = await listReposDetailed(GITHUB_OWNER);
+
+        if (repos.length === 0) {
+          await sendMessage(chatId, "📁 No GitHub repos found.");
+          return;
+        }
+
+        // Filter by search term if provided
+        let filtered = repos;
+        if (args.length > 0) {
+          const search = args[0].toLowerCase();
+          filtered = repos.filter(
+            (r) =>
+              r.name.toLowerCase().includes(search) ||
+              r.description?.toLowerCase().includes(search),
+          );
+        }
+
+        const list = filtered
+          .slice(0, 20)
+          .map((r, i) => {
+            const lang = r.language ? ` (${r.language})` : "";
+            const updated = new Date(r.updated_at).toLocaleDateString();
+            return `${i + 1}. <code>${r.name}</code>${lang}\n   📅 ${updated}`;
+          })
+          .join("\n");
+
+        const searchNote =
+          args.length > 0 ? ` matching "${escapeHtml(args[0])}"` : "";
 
-    if (success) {
-      await sendMessage(
-        chatId,
-        `🤖 <b>Sofia Deploy Swarm Initiated</b>\n\n` +
-          `📦 Project: <code>${projectName}</code>\n` +
-          `🔄 Status: Running checks...\n\n` +
-          `You'll receive the deployment URL when complete.`,
-      );
-    } else {
-      await sendMessage(
-        chatId,
-        `❌ Failed to trigger Sofia deploy.\n\n` +
-          `Make sure GITHUB_TOKEN is configured.`,
-      );
-    }
+        await sendMessage(
+          chatId,
+          `📦 <b>GitHub Repos${searchNote}</b> (${filtered.length})\n\n${list}\n\n` +
+            `💡 These can be used with <code>/genesis [repo]</code>\n` +
+            `🔍 Search: <code>/repos [keyword]</code>`,
+        );
+      } catch (error) {
+        await sendMessage(
+          chatId,
+          `❌ Error: ${escapeHtml(error instanceof Error ? error.message : "Unknown error")}`,
+        );
+      }
+    },
   },
 
-  // ==================== DEPLOYMENT COMMANDS ====================
-
-  sites: async (chatId) => {
-    await sendTyping(chatId);
-
-    try {
-      const projects = await listProjects();
+  // ==================== CREATE COMMANDS ====================
 
-      if (projects.length === 0) {
-        await sendMessage(chatId, "📁 No projects found.");
+  new: {
+    role: "operator",
+    category: "genesis",
+    description: "Create a new project from the starter template",
+    usage: "[business-name] [sector] [city]",
+    examples: [
+      "/new",
+      '/new "Cartagena Yacht Club" yacht',
+      '/new "Sofia\'s Lounge" nightclub Medellín',
+      '/new "Casa Mar" --sector=villa --city="Santa Marta"',
+    ],
+    args: arg.words(1),
+    handler: async (chatId, args, ctx) => {
+      if (args.length === 0) {
+        await startConversation(chatId, ctx.userId, "new", NEW_PROJECT_FLOW);
         return;
       }
 
-      const list = projects
-        .slice(0, 25)
-        .map((p, i) => {
-          const framework = p.framework ? ` (${p.framework})` : "";
-          return `${i + 1}. <code>${p.name}</code>${framework}`;
-        })
-        .join("\n");
-
-      await sendMessage(
-        chatId,
-        `📁 <b>Your Projects (${projects.length})</b>\n\n${list}\n\n` +
-          `💡 Use <code>/status [name]</code> for details`,
-      );
-    } catch (error) {
-      await sendMessage(
-        chatId,
-        `❌ Error: ${error instanceof Error ? error.message : "Unknown error"}`,
-      );
-    }
-  },
-
-  status: async (chatId, args) => {
-    if (args.length === 0) {
-      await sendMessage(
-        chatId,
-        `📊 <b>Usage:</b> <code>/status [project-name]</code>\n\n` +
-          `Example: <code>/status simmer-down</code>`,
+      const { businessName, sector, location } = parseBusinessArgs(
+        args,
+        ctx.flags,
       );
-      return;
-    }
-
-    await sendTyping(chatId);
-    const projectName = args[0];
-
-    try {
-      const project = await getProject(projectName);
 
-      if (!project) {
+      if (!sector) {
         await sendMessage(
           chatId,
-          `❌ Project <code>${projectName}</code> not found.\n\nUse <code>/sites</code> to see available projects.`,
+          `🏗️ <b>New Project Generator</b>\n\n` +
+            `Creates a complete project from scratch.\n\n` +
+            `<b>Usage:</b>\n` +
+            `<code>/new</code> — guided setup\n` +
+            `<code>/new [business-name] [sector] [city]</code>\n` +
+            `Flags: <code>--sector=</code> <code>--city=</code>\n\n` +
+            `<b>Sectors:</b>\n` +
+            `${SECTORS.map((s) => `• ${s}`).join("\n")}\n\n` +
+            `<b>Example:</b>\n` +
+            `<code>/new "Cartagena Yacht Club" yacht</code>\n` +
+            `<code>/new "Sofia's Lounge" nightclub Medellín</code>`,
         );
         return;
       }
 
-      const deployments = await listDeployments(project.id, 5);
+      await sendTyping(chatId);
 
-      if (deployments.length === 0) {
+      // Input validation - prevent injection attacks
+      if (!validateBusinessName(businessName)) {
         await sendMessage(
           chatId,
-          `📦 <b>${project.name}</b>\n\nNo deployments found.`,
+          `❌ Invalid business name: <code>${escapeHtml(businessName.slice(0, 50))}</code>\n\n` +
+            `Must be 1-100 characters, alphanumeric with spaces and basic punctuation.`,
         );
         return;
       }
 
-      const statusEmoji: Record<string, string> = {
-        READY: "✅",
-        ERROR: "❌",
-        BUILDING: "🔄",
-        QUEUED: "⏳",
-        CANCELED: "🚫",
-        INITIALIZING: "🔧",
-      };
-
-      const latest = deployments[0];
-      const latestEmoji = statusEmoji[latest.state] || "❓";
-      const commitMsg =
-        latest.meta?.gitCommitMessage?.slice(0, 50) || "No commit message";
-      const branch = latest.meta?.gitCommitRef || "main";
-
-      let msg =
-        `📦 <b>${project.name}</b>\n\n` +
-        `<b>Latest Deployment:</b>\n` +
-        `${latestEmoji} ${latest.state}\n` +
-        `🔗 <a href="https://${latest.url}">${latest.url}</a>\n` +
-        `📝 ${commitMsg}\n` +
-        `🌿 ${branch}\n` +
-        `📅 ${new Date(latest.createdAt).toLocaleString()}\n`;
-
-      if (deployments.length > 1) {
-        msg += `\n<b>Recent History:</b>\n`;
-        deployments.slice(1, 4).forEach((d) => {
-          const emoji = statusEmoji[d.state] || "❓";
-          const date = new Date(d.createdAt).toLocaleDateString();
-          msg += `${emoji} ${d.state} — ${date}\n`;
-        });
+      // Validate sector
+      if (!SECTORS.includes(sector.toLowerCase())) {
+        await sendMessage(
+          chatId,
+          `❌ Invalid sector: <code>${escapeHtml(sector)}</code>\n\n` +
+            `Valid sectors: ${SECTORS.join(", ")}`,
+        );
+        return;
       }
 
-      await sendMessage(chatId, msg);
-    } catch (error) {
-      await sendMessage(
-        chatId,
-        `❌ Error: ${error instanceof Error ? error.message : "Unknown error"}`,
-      );
-    }
-  },
-
-  deploy: async (chatId, args) => {
-    if (args.length === 0) {
-      await sendMessage(
-        chatId,
-        `🚀 <b>Usage:</b> <code>/deploy [project-name]</code>\n\n` +
-          `Example: <code>/deploy simmer-down</code>`,
-      );
-      return;
-    }
-
-    await sendTyping(chatId);
-    const projectName = args[0];
-
-    await sendMessage(
-      chatId,
-      `🚀 Deploying <code>${projectName}</code> to production...`,
-    );
-
-    try {
-      const result = await triggerDeployment(projectName);
-
-      if (!result) {
+      if (location && !validateBusinessName(location)) {
         await sendMessage(
           chatId,
-          `❌ Failed to deploy <code>${projectName}</code>.\n\nCheck if project exists with <code>/sites</code>`,
+          `❌ Invalid city: <code>${escapeHtml(location.slice(0, 50))}</code>`,
         );
         return;
       }
 
-      await sendMessage(
-        chatId,
-        `✅ <b>Deployment Triggered!</b>\n\n` +
-          `📦 Project: <code>${projectName}</code>\n` +
-          `🆔 Deployment: <code>${result.id.slice(0, 12)}...</code>\n` +
-          `🔗 URL: <a href="https://${result.url}">${result.url}</a>\n\n` +
-          `⏱️ Building now...\n` +
-          `Use <code>/status ${projectName}</code> to check progress.`,
-      );
-    } catch (error) {
-      await sendMessage(
+      const startedAt = Date.now();
+      const success = await dispatchWorkflow(
         chatId,
-        `❌ Deploy Error: ${error instanceof Error ? error.message : "Unknown error"}`,
+        "new",
+        "new-project.yml",
+        businessName,
+        {
+          business_name: businessName,
+          sector: sector.toLowerCase(),
+          chat_id: String(chatId),
+          ...(location ? { location } : {}),
+        },
       );
-    }
-  },
 
-  logs: async (chatId, args) => {
-    if (args.length === 0) {
-      await sendMessage(
-        chatId,
-        `📋 <b>Usage:</b> <code>/logs [project-name]</code>\n\n` +
-          `Example: <code>/logs simmer-down</code>`,
-      );
-      return;
-    }
+      await recordProjectLaunch({
+        businessName,
+        sector: sector.toLowerCase(),
+        chatId: String(chatId),
+        location,
+        workflow: "new-project.yml",
+        triggered: success,
+        buildTime: Date.now() - startedAt,
+      });
 
-    await sendTyping(chatId);
-    const projectName = args[0];
+      if (success) {
+        await sendMessage(
+          chatId,
+          `🏗️ <b>Project Creation Started</b>\n\n` +
+            `🏢 Business: <code>${escapeHtml(businessName)}</code>\n` +
+            `🎯 Sector: <code>${sector}</code>\n` +
+            (location ? `📍 City: ${escapeHtml(location)}\n` : "") +
+            `\n⏱️ ETA: 2-3 minutes\n\n` +
+            `You'll receive the GitHub repo + live URL when ready.`,
+        );
+      } else {
+        await sendMessage(
+          chatId,
+          `❌ Failed to start project creation.\n\n` +
+            `Make sure GITHUB_TOKEN is configured.`,
+        );
+      }
+    },
+  },
 
-    try {
-      const project = await getProject(projectName);
+  // ==================== BUILD COMMANDS ====================
 
-      if (!project) {
+  genesis: {
+    role: "operator",
+    category: "cicd",
+    description: "Run build checks on a project",
+    usage: "[project]",
+    examples: ["/genesis simmer-down"],
+    args: z.tuple([arg.project]),
+    projectArg: 0,
+    handler: async (chatId, args) => {
+      if (args.length === 0) {
         await sendMessage(
           chatId,
-          `❌ Project <code>${projectName}</code> not found.`,
+          `⚡ <b>Genesis Build</b>\n\n` +
+            `Full autonomous build with ZDBS validation.\n\n` +
+            `<b>Usage:</b> <code>/genesis [project-name]</code>\n` +
+            `<b>Example:</b> <code>/genesis simmer-down</code>\n\n` +
+            `💡 Use <code>/repos</code> to see available repos`,
         );
         return;
       }
 
-      const deployments = await listDeployments(project.id, 1);
+      await sendTyping(chatId);
+      const projectName = args[0];
 
-      if (deployments.length === 0) {
+      // Input validation - prevent injection attacks
+      if (!validateProjectName(projectName)) {
         await sendMessage(
           chatId,
-          `📋 No deployments found for <code>${projectName}</code>.`,
+          `❌ Invalid project name: <code>${projectName.slice(0, 50)}</code>\n\n` +
+            `Must be lowercase, alphanumeric with hyphens, max 100 characters.`,
         );
         return;
       }
 
-      const logs = await getDeploymentLogs(deployments[0].id);
+      // Check if repo exists on GitHub
+      const exists = await repoExists(GITHUB_OWNER, projectName);
+
+      if (!exists) {
+        // Check if maybe they meant a similar repo
+        const repos = await listReposDetailed(GITHUB_OWNER);
+        const similar = repos
+          .filter((r) =>
+            r.name.toLowerCase().includes(projectName.toLowerCase()),
+          )
+          .slice(0, 3);
+
+        let suggestion = "";
+        if (similar.length > 0) {
+          suggestion =
+            `\n\n<b>Did you mean:</b>\n` +
+            similar.map((r) => `• <code>${r.name}</code>`).join("\n");
+        }
 
-      if (logs.length === 0) {
         await sendMessage(
           chatId,
-          `📋 No build logs available for <code>${projectName}</code>.`,
+          `❌ <b>Repo not found:</b> <code>${GITHUB_OWNER}/${projectName}</code>\n\n` +
+            `Genesis requires a GitHub repo to run CI/CD.\n\n` +
+            `<b>Options:</b>\n` +
+            `1️⃣ <code>/repos</code> — List your GitHub repos\n` +
+            `2️⃣ <code>/repos ${projectName}</code> — Search repos\n` +
+            `3️⃣ <code>/new "${projectName}" hospitality</code> — Create new project` +
+            suggestion,
         );
         return;
       }
 
-      const logText = logs.slice(-30).join("\n").slice(-3500);
-
-      await sendMessage(
-        chatId,
-        `📋 <b>Build Logs: ${projectName}</b>\n\n<pre>${logText}</pre>`,
-      );
-    } catch (error) {
-      await sendMessage(
-        chatId,
-        `❌ Error: ${error instanceof Error ? error.message : "Unknown error"}`,
-      );
-    }
-  },
-
-  errors: async (chatId, args) => {
-    if (args.length === 0) {
-      await sendMessage(
+      const success = await dispatchWorkflow(
         chatId,
-        `🔴 <b>Usage:</b> <code>/errors [project-name]</code>\n\n` +
-          `Shows runtime errors from your deployed application.`,
+        "genesis",
+        "genesis.yml",
+        projectName,
+        {
+          project: projectName,
+          chat_id: String(chatId),
+        },
       );
-      return;
-    }
-
-    await sendTyping(chatId);
-    const projectName = args[0];
 
-    try {
-      const project = await getProject(projectName);
-
-      if (!project) {
+      if (success) {
         await sendMessage(
           chatId,
-          `❌ Project <code>${projectName}</code> not found.`,
+          `⚡ <b>Genesis Build Triggered</b>\n\n` +
+            `📦 Project: <code>${projectName}</code>\n` +
+            `🔄 Status: Queued\n\n` +
+            `You'll receive updates as the build progresses.`,
+        );
+      } else {
+        await sendMessage(
+          chatId,
+          `❌ Failed to trigger Genesis build.\n\n` +
+            `Make sure GITHUB_TOKEN is configured.`,
         );
-        return;
       }
+    },
+  },
 
-      const logs = await getRuntimeLogs(project.id, {
-        level: "error",
-        limit: 10,
-      });
-
-      if (logs.length === 0) {
+  audit: {
+    role: "operator",
+    category: "cicd",
+    description: "Run a security scan on a project",
+    usage: "[project]",
+    examples: ["/audit simmer-down"],
+    args: z.tuple([arg.project]),
+    projectArg: 0,
+    handler: async (chatId, args) => {
+      if (args.length === 0) {
         await sendMessage(
           chatId,
-          `✅ <b>${projectName}</b>\n\nNo runtime errors found! 🎉`,
+          `🔍 <b>Security Audit</b>\n\n` +
+            `Scans for vulnerabilities, secrets, and code quality.\n\n` +
+            `<b>Usage:</b> <code>/audit [project-name]</code>\n` +
+            `<b>Example:</b> <code>/audit simmer-down</code>`,
         );
         return;
       }
 
-      const errorList = logs
-        .map((log) => {
-          const time = new Date(log.timestamp).toLocaleTimeString();
-          const msg = log.message.slice(0, 100);
-          return `🔴 ${time}\n${msg}`;
-        })
-        .join("\n\n");
-
-      await sendMessage(
-        chatId,
-        `🔴 <b>Runtime Errors: ${projectName}</b>\n\n${errorList}`,
-      );
-    } catch (error) {
-      await sendMessage(
-        chatId,
-        `❌ Error: ${error instanceof Error ? error.message : "Unknown error"}`,
-      );
-    }
-  },
+      await sendTyping(chatId);
+      const projectName = args[0];
 
-  domains: async (chatId, args) => {
-    if (args.length === 0) {
-      await sendMessage(
+      const success = await dispatchWorkflow(
         chatId,
-        `🌐 <b>Usage:</b> <code>/domains [project-name]</code>`,
+        "audit",
+        "audit.yml",
+        projectName,
+        {
+          project: projectName,
+          chat_id: String(chatId),
+        },
       );
-      return;
-    }
-
-    await sendTyping(chatId);
-    const projectName = args[0];
-
-    try {
-      const project = await getProject(projectName);
 
-      if (!project) {
+      if (success) {
         await sendMessage(
           chatId,
-          `❌ Project <code>${projectName}</code> not found.`,
+          `🔍 <b>Security Audit Started</b>\n\n` +
+            `📦 Project: <code>${projectName}</code>\n` +
+            `🔄 Status: Scanning...\n\n` +
+            `You'll receive the audit report when complete.`,
+        );
+      } else {
+        await sendMessage(
+          chatId,
+          `❌ Failed to trigger audit.\n\n` +
+            `Make sure GITHUB_TOKEN is configured.`,
         );
-        return;
       }
+    },
+  },
 
-      const domains = await getProjectDomains(project.id);
-
-      if (domains.length === 0) {
+  demo: {
+    role: "operator",
+    category: "cicd",
+    description: "Create a preview deploy of a project",
+    usage: "[project]",
+    examples: ["/demo simmer-down"],
+    args: z.tuple([arg.project]),
+    projectArg: 0,
+    handler: async (chatId, args) => {
+      if (args.length === 0) {
         await sendMessage(
           chatId,
-          `🌐 <b>${projectName}</b>\n\nNo custom domains configured.`,
+          `🎬 <b>Demo Deploy</b>\n\n` +
+            `Creates a preview deployment for client demos.\n\n` +
+            `<b>Usage:</b> <code>/demo [project-name]</code>\n` +
+            `<b>Example:</b> <code>/demo simmer-down</code>`,
         );
         return;
       }
 
-      const domainList = domains
-        .map((d) => {
-          const status = d.verified ? "✅" : "⚠️";
-          const branch = d.gitBranch ? ` (${d.gitBranch})` : "";
-          return `${status} <code>${d.name}</code>${branch}`;
-        })
-        .join("\n");
-
-      await sendMessage(
-        chatId,
-        `🌐 <b>Domains: ${projectName}</b>\n\n${domainList}`,
-      );
-    } catch (error) {
-      await sendMessage(
-        chatId,
-        `❌ Error: ${error instanceof Error ? error.message : "Unknown error"}`,
-      );
-    }
-  },
+      await sendTyping(chatId);
+      const projectName = args[0];
 
-  env: async (chatId, args) => {
-    if (args.length === 0) {
-      await sendMessage(
+      const success = await dispatchWorkflow(
         chatId,
-        `🔐 <b>Usage:</b> <code>/env [project-name]</code>\n\n` +
-          `Shows environment variable names (not values).`,
+        "demo",
+        "demo.yml",
+        projectName,
+        {
+          project: projectName,
+          chat_id: String(chatId),
+        },
       );
-      return;
-    }
-
-    await sendTyping(chatId);
-    const projectName = args[0];
 
-    try {
-      const project = await getProject(projectName);
-
-      if (!project) {
+      if (success) {
         await sendMessage(
           chatId,
-          `❌ Project <code>${projectName}</code> not found.`,
+          `🎬 <b>Demo Deploy Started</b>\n\n` +
+            `📦 Project: <code>${projectName}</code>\n` +
+            `🔄 Status: Creating preview...\n\n` +
+            `You'll receive the preview URL when ready.`,
+        );
+      } else {
+        await sendMessage(
+          chatId,
+          `❌ Failed to trigger demo deploy.\n\n` +
+            `Make sure GITHUB_TOKEN is configured.`,
         );
-        return;
       }
+    },
+  },
 
-      const envVars = await getProjectEnvVars(project.id);
-
-      if (envVars.length === 0) {
+  component: {
+    role: "operator",
+    category: "cicd",
+    description: "Generate a React component in a project",
+    usage: "[ComponentName] [project]",
+    examples: ["/component HeroSection simmer-down"],
+    args: z.tuple([arg.word, arg.project]),
+    projectArg: 1,
+    handler: async (chatId, args) => {
+      if (args.length < 2) {
         await sendMessage(
           chatId,
-          `🔐 <b>${projectName}</b>\n\nNo environment variables configured.`,
+          `🧩 <b>Component Generator</b>\n\n` +
+            `Creates a new React component with ZDBS standards.\n\n` +
+            `<b>Usage:</b> <code>/component [ComponentName] [project]</code>\n` +
+            `<b>Example:</b> <code>/component HeroSection simmer-down</code>\n\n` +
+            `<b>Rules:</b>\n` +
+            `• Component: PascalCase (e.g., HeroSection)\n` +
+            `• Project: lowercase with hyphens (e.g., simmer-down)`,
         );
         return;
       }
 
-      const envList = envVars
-        .map((e) => {
-          const targets = e.target.join(", ");
-          const icon = e.type === "secret" ? "🔒" : "📝";
-          return `${icon} <code>${e.key}</code>\n   → ${targets}`;
-        })
-        .join("\n");
-
-      await sendMessage(
-        chatId,
-        `🔐 <b>Env Vars: ${projectName}</b> (${envVars.length})\n\n${envList}`,
-      );
-    } catch (error) {
-      await sendMessage(
-        chatId,
-        `❌ Error: ${error instanceof Error ? error.message : "Unknown error"}`,
-      );
-    }
-  },
-
-  rollback: async (chatId, args) => {
-    if (args.length === 0) {
-      await sendMessage(
-        chatId,
-        `⏪ <b>Usage:</b> <code>/rollback [project-name]</code>\n\n` +
-          `Promotes the previous successful deployment to production.`,
-      );
-      return;
-    }
-
-    await sendTyping(chatId);
-    const projectName = args[0];
-
-    try {
-      const project = await getProject(projectName);
+      await sendTyping(chatId);
+      const componentName = args[0];
+      const projectName = args[1];
 
-      if (!project) {
+      // Input validation - prevent injection attacks
+      if (!validateComponentName(componentName)) {
         await sendMessage(
           chatId,
-          `❌ Project <code>${projectName}</code> not found.`,
+          `❌ Invalid component name: <code>${escapeHtml(componentName)}</code>\n\n` +
+            `Must be PascalCase, alphanumeric, max 50 characters.\n` +
+            `Example: <code>HeroSection</code>, <code>ContactForm</code>`,
         );
         return;
       }
 
-      const deployments = await listDeployments(project.id, 5);
-
-      const previousReady = deployments.find(
-        (d, i) => i > 0 && d.state === "READY",
-      );
-
-      if (!previousReady) {
+      if (!validateProjectName(projectName)) {
         await sendMessage(
           chatId,
-          `⏪ No previous successful deployment found for <code>${projectName}</code>.`,
+          `❌ Invalid project name: <code>${escapeHtml(projectName)}</code>\n\n` +
+            `Must be lowercase, alphanumeric with hyphens, max 100 characters.`,
         );
         return;
       }
 
-      await sendMessage(
+      const success = await dispatchWorkflow(
         chatId,
-        `⏪ Rolling back <code>${projectName}</code>...`,
+        "component",
+        "component.yml",
+        projectName,
+        {
+          component_name: componentName,
+          project: projectName,
+          chat_id: String(chatId),
+        },
       );
 
-      const success = await promoteDeployment(previousReady.id, project.id);
-
       if (success) {
         await sendMessage(
           chatId,
-          `✅ <b>Rollback Complete!</b>\n\n` +
-            `📦 Project: <code>${projectName}</code>\n` +
-            `🔗 URL: <a href="https://${previousReady.url}">${previousReady.url}</a>\n` +
-            `📅 From: ${new Date(previousReady.createdAt).toLocaleString()}`,
+          `🧩 <b>Component Generator Started</b>\n\n` +
+            `📦 Component: <code>${escapeHtml(componentName)}</code>\n` +
+            `📁 Project: <code>${escapeHtml(projectName)}</code>\n\n` +
+            `You'll receive confirmation when the component is created.`,
         );
       } else {
         await sendMessage(
           chatId,
-          `❌ Rollback failed for <code>${projectName}</code>.`,
+          `❌ Failed to trigger component generator.\n\n` +
+            `Make sure GITHUB_TOKEN is configured.`,
         );
       }
-    } catch (error) {
-      await sendMessage(
+    },
+  },
+
+  sofia: {
+    role: "operator",
+    category: "cicd",
+    description: "Deploy the Sofia AI concierge to a project",
+    usage: "[project]",
+    examples: ["/sofia sofia-brain"],
+    args: z.tuple([arg.project]),
+    projectArg: 0,
+    handler: async (chatId, args) => {
+      if (args.length === 0) {
+        await sendMessage(
+          chatId,
+          `🤖 <b>Sofia Deploy Swarm</b>\n\n` +
+            `Full deployment pipeline for Sofia AI agent projects.\n\n` +
+            `<b>Includes:</b>\n` +
+            `• TypeScript validation\n` +
+            `• Build verification\n` +
+            `• Vercel deployment\n` +
+            `• Webhook configuration\n\n` +
+            `<b>Usage:</b> <code>/sofia [project-name]</code>\n` +
+            `<b>Example:</b> <code>/sofia sofia-brain</code>`,
+        );
+        return;
+      }
+
+      await sendTyping(chatId);
+      const projectName = args[0];
+
+      const success = await dispatchWorkflow(
+        chatId,
+        "sofia",
+        "sofia-deploy.yml",
+        projectName,
+        {
+          project: projectName,
+          chat_id: String(chatId),
+        },
+      );
+
+      if (success) {
+        await sendMessage(
+          chatId,
+          `🤖 <b>Sofia Deploy Swarm Initiated</b>\n\n` +
+            `📦 Project: <code>${projectName}</code>\n` +
+            `🔄 Status: Running checks...\n\n` +
+            `You'll receive the deployment URL when complete.`,
+        );
+      } else {
+        await sendMessage(
+          chatId,
+          `❌ Failed to trigger Sofia deploy.\n\n` +
+            `Make sure GITHUB_TOKEN is configured.`,
+        );
+      }
+    },
+  },
+
+  // ==================== DEPLOYMENT COMMANDS ====================
+
+  sites: {
+    role: "viewer",
+    category: "deploy",
+    description: "List all Vercel projects with their status",
+    aliases: ["projects"],
+    handler: async (chatId, _args, ctx) => {
+      await sendTyping(chatId);
+
+      try {
+        const projects = await listProjects();
+
+        if (projects.length === 0) {
+          await sendMessage(chatId, "📁 No projects found.");
+          return;
+        }
+
+        const visible = projects.slice(0, 25);
+
+        const list = visible
+          .map((p, i) => {
+            const framework = p.framework ? ` (${p.framework})` : "";
+            return `${i + 1}. <code>${p.name}</code>${framework}`;
+          })
+          .join("\n");
+
+        // One Deploy / Logs / Rollback row per project the caller can act on -
+        // viewers only get Logs, projects outside their scope get no row
+        // Names too long for the 64-byte callback limit are left off the keyboard
+        const canDeploy = hasRole(ctx.permissions.role, "operator");
+        const keyboard: InlineKeyboardButton[][] = visible
+          .filter((p) => p.name.length <= 50)
+          .filter((p) => canAccessProject(ctx.permissions, p.name))
+          .map((p) =>
+            canDeploy
+              ? [
+                  callbackButton(`🚀 ${p.name}`, `/deploy ${p.name}`),
+                  callbackButton("📋 Logs", `/logs ${p.name}`),
+                  callbackButton("⏪ Rollback", `/rollback ${p.name}`),
+                ]
+              : [callbackButton(`📋 ${p.name} logs`, `/logs ${p.name}`)],
+          );
+
+        await sendMessage(
+          chatId,
+          `📁 <b>Your Projects (${projects.length})</b>\n\n${list}\n\n` +
+            `💡 Use <code>/status [name]</code> for details`,
+          { reply_markup: { inline_keyboard: keyboard } },
+        );
+      } catch (error) {
+        await sendMessage(
+          chatId,
+          `❌ Error: ${escapeHtml(error instanceof Error ? error.message : "Unknown error")}`,
+        );
+      }
+    },
+  },
+
+  status: {
+    role: "viewer",
+    category: "deploy",
+    description: "Show a project's latest deployment status",
+    usage: "[project]",
+    examples: ["/status simmer-down"],
+    args: z.tuple([arg.project]),
+    projectArg: 0,
+    handler: async (chatId, args) => {
+      if (args.length === 0) {
+        await sendMessage(
+          chatId,
+          `📊 <b>Usage:</b> <code>/status [project-name]</code>\n\n` +
+            `Example: <code>/status simmer-down</code>`,
+        );
+        return;
+      }
+
+      await sendTyping(chatId);
+      const projectName = args[0];
+
+      try {
+        const project = await getProject(projectName);
+
+        if (!project) {
+          await sendMessage(
+            chatId,
+            `❌ Project <code>${projectName}</code> not found.\n\nUse <code>/sites</code> to see available projects.`,
+          );
+          return;
+        }
+
+        const deployments = await listDeployments(project.id, 5);
+
+        if (deployments.length === 0) {
+          await sendMessage(
+            chatId,
+            `📦 <b>${project.name}</b>\n\nNo deployments found.`,
+          );
+          return;
+        }
+
+        const statusEmoji: Record<string, string> = {
+          READY: "✅",
+          ERROR: "❌",
+          BUILDING: "🔄",
+          QUEUED: "⏳",
+          CANCELED: "🚫",
+          INITIALIZING: "🔧",
+        };
+
+        const latest = deployments[0];
+        const latestEmoji = statusEmoji[latest.state] || "❓";
+        const commitMsg =
+          latest.meta?.gitCommitMessage?.slice(0, 50) || "No commit message";
+        const branch = latest.meta?.gitCommitRef || "main";
+
+        let msg =
+          `📦 <b>${project.name}</b>\n\n` +
+          `<b>Latest Deployment:</b>\n` +
+          `${latestEmoji} ${latest.state}\n` +
+          `🔗 <a href="https://${latest.url}">${latest.url}</a>\n` +
+          `📝 ${commitMsg}\n` +
+          `🌿 ${branch}\n` +
+          `📅 ${new Date(latest.createdAt).toLocaleString()}\n`;
+
+        if (deployments.length > 1) {
+          msg += `\n<b>Recent History:</b>\n`;
+          deployments.slice(1, 4).forEach((d) => {
+            const emoji = statusEmoji[d.state] || "❓";
+            const date = new Date(d.createdAt).toLocaleDateString();
+            msg += `${emoji} ${d.state} — ${date}\n`;
+          });
+        }
+
+        await sendMessage(chatId, msg);
+      } catch (error) {
+        await sendMessage(
+          chatId,
+          `❌ Error: ${escapeHtml(error instanceof Error ? error.message : "Unknown error")}`,
+        );
+      }
+    },
+  },
+
+  deploy: {
+    role: "operator",
+    category: "deploy",
+    description: "Redeploy a project to production",
+    usage: "[project]",
+    examples: ["/deploy simmer-down"],
+    args: z.tuple([arg.project]),
+    projectArg: 0,
+    handler: async (chatId, args) => {
+      if (args.length === 0) {
+        await sendMessage(
+          chatId,
+          `🚀 <b>Usage:</b> <code>/deploy [project-name]</code>\n\n` +
+            `Example: <code>/deploy simmer-down</code>`,
+        );
+        return;
+      }
+
+      await sendTyping(chatId);
+      const projectName = args[0];
+
+      await sendMessage(
+        chatId,
+        `🚀 Deploying <code>${projectName}</code> to production...`,
+      );
+
+      try {
+        const result = await triggerDeployment(projectName);
+
+        if (!result) {
+          await sendMessage(
+            chatId,
+            `❌ Failed to deploy <code>${projectName}</code>.\n\nCheck if project exists with <code>/sites</code>`,
+          );
+          return;
+        }
+
+        await sendMessage(
+          chatId,
+          `✅ <b>Deployment Triggered!</b>\n\n` +
+            `📦 Project: <code>${projectName}</code>\n` +
+            `🆔 Deployment: <code>${result.id.slice(0, 12)}...</code>\n` +
+            `🔗 URL: <a href="https://${result.url}">${result.url}</a>\n\n` +
+            `⏱️ Building now...\n` +
+            `Use <code>/status ${projectName}</code> to check progress.`,
+        );
+      } catch (error) {
+        await sendMessage(
+          chatId,
+          `❌ Deploy Error: ${escapeHtml(error instanceof Error ? error.message : "Unknown error")}`,
+        );
+      }
+    },
+  },
+
+  logs: {
+    role: "viewer",
+    category: "deploy",
+    description: "Show a project's latest build logs",
+    usage: "[project]",
+    examples: ["/logs simmer-down"],
+    aliases: ["log"],
+    args: z.tuple([arg.project]),
+    projectArg: 0,
+    handler: async (chatId, args) => {
+      if (args.length === 0) {
+        await sendMessage(
+          chatId,
+          `📋 <b>Usage:</b> <code>/logs [project-name]</code>\n\n` +
+            `Example: <code>/logs simmer-down</code>`,
+        );
+        return;
+      }
+
+      await sendTyping(chatId);
+      const projectName = args[0];
+
+      try {
+        const project = await getProject(projectName);
+
+        if (!project) {
+          await sendMessage(
+            chatId,
+            `❌ Project <code>${projectName}</code> not found.`,
+          );
+          return;
+        }
+
+        const deployments = await listDeployments(project.id, 1);
+
+        if (deployments.length === 0) {
+          await sendMessage(
+            chatId,
+            `📋 No deployments found for <code>${projectName}</code>.`,
+          );
+          return;
+        }
+
+        const logs = await getDeploymentLogs(deployments[0].id);
+
+        if (logs.length === 0) {
+          await sendMessage(
+            chatId,
+            `📋 No build logs available for <code>${projectName}</code>.`,
+          );
+          return;
+        }
+
+        const logText = logs.join("\n");
+
+        // Very long logs are easier to read as a file than as a message flood
+        if (logText.length > MAX_MESSAGE_LENGTH * 2) {
+          await sendDocument(
+            chatId,
+            {
+              filename: `${slugify(projectName)}-build-logs.txt`,
+              content: logText,
+              contentType: "text/plain",
+            },
+            {
+              caption:
+                markup`📋 <b>Build Logs: ${projectName}</b> (${logs.length} lines)`.toString(),
+            },
+          );
+          return;
+        }
+
+        // sendMessage splits long logs across messages, keeping <pre> intact
+        await sendMessage(
+          chatId,
+          markup`📋 <b>Build Logs: ${projectName}</b>\n\n<pre>${logText}</pre>`,
+        );
+      } catch (error) {
+        await sendMessage(
+          chatId,
+          `❌ Error: ${escapeHtml(error instanceof Error ? error.message : "Unknown error")}`,
+        );
+      }
+    },
+  },
+
+  errors: {
+    role: "viewer",
+    category: "deploy",
+    description: "Show a project's recent runtime errors",
+    usage: "[project]",
+    examples: ["/errors simmer-down"],
+    args: z.tuple([arg.project]),
+    projectArg: 0,
+    handler: async (chatId, args) => {
+      if (args.length === 0) {
+        await sendMessage(
+          chatId,
+          `🔴 <b>Usage:</b> <code>/errors [project-name]</code>\n\n` +
+            `Shows runtime errors from your deployed application.`,
+        );
+        return;
+      }
+
+      await sendTyping(chatId);
+      const projectName = args[0];
+
+      try {
+        const project = await getProject(projectName);
+
+        if (!project) {
+          await sendMessage(
+            chatId,
+            `❌ Project <code>${projectName}</code> not found.`,
+          );
+          return;
+        }
+
+        const logs = await getRuntimeLogs(project.id, {
+          level: "error",
+          limit: 10,
+        });
+
+        if (logs.length === 0) {
+          await sendMessage(
+            chatId,
+            `✅ <b>${projectName}</b>\n\nNo runtime errors found! 🎉`,
+          );
+          return;
+        }
+
+        const errorList = logs
+          .map((log) => {
+            const time = new Date(log.timestamp).toLocaleTimeString();
+            const msg = escapeHtml(log.message.slice(0, 100));
+            return `🔴 ${time}\n${msg}`;
+          })
+          .join("\n\n");
+
+        await sendMessage(
+          chatId,
+          `🔴 <b>Runtime Errors: ${projectName}</b>\n\n${errorList}`,
+        );
+      } catch (error) {
+        await sendMessage(
+          chatId,
+          `❌ Error: ${escapeHtml(error instanceof Error ? error.message : "Unknown error")}`,
+        );
+      }
+    },
+  },
+
+  domains: {
+    role: "viewer",
+    category: "info",
+    description: "List a project's domains",
+    usage: "[project]",
+    examples: ["/domains simmer-down"],
+    args: z.tuple([arg.project]),
+    projectArg: 0,
+    handler: async (chatId, args) => {
+      if (args.length === 0) {
+        await sendMessage(
+          chatId,
+          `🌐 <b>Usage:</b> <code>/domains [project-name]</code>`,
+        );
+        return;
+      }
+
+      await sendTyping(chatId);
+      const projectName = args[0];
+
+      try {
+        const project = await getProject(projectName);
+
+        if (!project) {
+          await sendMessage(
+            chatId,
+            `❌ Project <code>${projectName}</code> not found.`,
+          );
+          return;
+        }
+
+        const domains = await getProjectDomains(project.id);
+
+        if (domains.length === 0) {
+          await sendMessage(
+            chatId,
+            `🌐 <b>${projectName}</b>\n\nNo custom domains configured.`,
+          );
+          return;
+        }
+
+        const domainList = domains
+          .map((d) => {
+            const status = d.verified ? "✅" : "⚠️";
+            const branch = d.gitBranch ? ` (${d.gitBranch})` : "";
+            return `${status} <code>${d.name}</code>${branch}`;
+          })
+          .join("\n");
+
+        await sendMessage(
+          chatId,
+          `🌐 <b>Domains: ${projectName}</b>\n\n${domainList}`,
+        );
+      } catch (error) {
+        await sendMessage(
+          chatId,
+          `❌ Error: ${escapeHtml(error instanceof Error ? error.message : "Unknown error")}`,
+        );
+      }
+    },
+  },
+
+  env: {
+    role: "operator",
+    category: "info",
+    description: "List a project's environment variable names",
+    usage: "[project]",
+    examples: ["/env simmer-down"],
+    args: z.tuple([arg.project]),
+    projectArg: 0,
+    handler: async (chatId, args) => {
+      if (args.length === 0) {
+        await sendMessage(
+          chatId,
+          `🔐 <b>Usage:</b> <code>/env [project-name]</code>\n\n` +
+            `Shows environment variable names (not values).`,
+        );
+        return;
+      }
+
+      await sendTyping(chatId);
+      const projectName = args[0];
+
+      try {
+        const project = await getProject(projectName);
+
+        if (!project) {
+          await sendMessage(
+            chatId,
+            `❌ Project <code>${projectName}</code> not found.`,
+          );
+          return;
+        }
+
+        const envVars = await getProjectEnvVars(project.id);
+
+        if (envVars.length === 0) {
+          await sendMessage(
+            chatId,
+            `🔐 <b>${projectName}</b>\n\nNo environment variables configured.`,
+          );
+          return;
+        }
+
+        const envList = envVars
+          .map((e) => {
+            const targets = e.target.join(", ");
+            const icon = e.type === "secret" ? "🔒" : "📝";
+            return `${icon} <code>${e.key}</code>\n   → ${targets}`;
+          })
+          .join("\n");
+
+        await sendMessage(
+          chatId,
+          `🔐 <b>Env Vars: ${projectName}</b> (${envVars.length})\n\n${envList}`,
+        );
+      } catch (error) {
+        await sendMessage(
+          chatId,
+          `❌ Error: ${escapeHtml(error instanceof Error ? error.message : "Unknown error")}`,
+        );
+      }
+    },
+  },
+
+  rollback: {
+    role: "operator",
+    category: "deploy",
+    description: "Roll a project back to its previous successful deployment",
+    usage: "[project]",
+    examples: ["/rollback simmer-down"],
+    aliases: ["revert"],
+    args: z.tuple([arg.project]),
+    projectArg: 0,
+    handler: async (chatId, args) => {
+      if (args.length === 0) {
+        await sendMessage(
+          chatId,
+          `⏪ <b>Usage:</b> <code>/rollback [project-name]</code>\n\n` +
+            `Promotes the previous successful deployment to production.`,
+        );
+        return;
+      }
+
+      await sendTyping(chatId);
+      const projectName = args[0];
+
+      try {
+        const project = await getProject(projectName);
+
+        if (!project) {
+          await sendMessage(
+            chatId,
+            `❌ Project <code>${projectName}</code> not found.`,
+          );
+          return;
+        }
+
+        const deployments = await listDeployments(project.id, 5);
+
+        const previousReady = deployments.find(
+          (d, i) => i > 0 && d.state === "READY",
+        );
+
+        if (!previousReady) {
+          await sendMessage(
+            chatId,
+            `⏪ No previous successful deployment found for <code>${projectName}</code>.`,
+          );
+          return;
+        }
+
+        await sendMessage(
+          chatId,
+          `⏪ Rolling back <code>${projectName}</code>...`,
+        );
+
+        const success = await promoteDeployment(previousReady.id, project.id);
+
+        if (success) {
+          await sendMessage(
+            chatId,
+            `✅ <b>Rollback Complete!</b>\n\n` +
+              `📦 Project: <code>${projectName}</code>\n` +
+              `🔗 URL: <a href="https://${previousReady.url}">${previousReady.url}</a>\n` +
+              `📅 From: ${new Date(previousReady.createdAt).toLocaleString()}`,
+          );
+        } else {
+          await sendMessage(
+            chatId,
+            `❌ Rollback failed for <code>${projectName}</code>.`,
+          );
+        }
+      } catch (error) {
+        await sendMessage(
+          chatId,
+          `❌ Error: ${escapeHtml(error instanceof Error ? error.message : "Unknown error")}`,
+        );
+      }
+    },
+  },
+
+  cancel: {
+    role: "operator",
+    category: "deploy",
+    description: "Cancel a project's active deployment",
+    usage: "[project]",
+    examples: ["/cancel simmer-down"],
+    args: z.tuple([arg.project]),
+    projectArg: 0,
+    handler: async (chatId, args) => {
+      if (args.length === 0) {
+        await sendMessage(
+          chatId,
+          `🛑 <b>Usage:</b> <code>/cancel [project-name]</code>\n\n` +
+            `Cancels any active deployment.`,
+        );
+        return;
+      }
+
+      await sendTyping(chatId);
+      const projectName = args[0];
+
+      try {
+        const project = await getProject(projectName);
+
+        if (!project) {
+          await sendMessage(
+            chatId,
+            `❌ Project <code>${projectName}</code> not found.`,
+          );
+          return;
+        }
+
+        const deployments = await listDeployments(project.id, 3);
+        const activeDeployment = deployments.find(
+          (d) =>
+            d.state === "BUILDING" ||
+            d.state === "QUEUED" ||
+            d.state === "INITIALIZING",
+        );
+
+        if (!activeDeployment) {
+          await sendMessage(
+            chatId,
+            `🛑 No active deployment to cancel for <code>${projectName}</code>.`,
+          );
+          return;
+        }
+
+        const success = await cancelDeployment(activeDeployment.id);
+
+        if (success) {
+          await sendMessage(
+            chatId,
+            `✅ Deployment cancelled for <code>${projectName}</code>.`,
+          );
+        } else {
+          await sendMessage(
+            chatId,
+            `❌ Failed to cancel deployment for <code>${projectName}</code>.`,
+          );
+        }
+      } catch (error) {
+        await sendMessage(
+          chatId,
+          `❌ Error: ${escapeHtml(error instanceof Error ? error.message : "Unknown error")}`,
+        );
+      }
+    },
+  },
+
+  // ==================== AI-POWERED COMMANDS ====================
+
+  fix: {
+    role: "operator",
+    category: "ai",
+    description:
+      "Diagnose why a project's deployment is failing and suggest fixes",
+    usage: "[project]",
+    examples: ["/fix simmer-down"],
+    aliases: ["diagnose"],
+    args: z.tuple([arg.project]),
+    projectArg: 0,
+    handler: async (chatId, args) => {
+      if (args.length === 0) {
+        await sendMessage(
+          chatId,
+          `🔧 <b>AI Fix</b>\n\n` +
+            `Analyzes errors and suggests fixes using Claude AI.\n\n` +
+            `<b>Usage:</b> <code>/fix [project-name]</code>\n` +
+            `<b>Example:</b> <code>/fix simmer-down</code>`,
+        );
+        return;
+      }
+
+      await sendTyping(chatId);
+      const projectName = args[0];
+      await sendMessage(
+        chatId,
+        `🔍 Analyzing errors for <code>${projectName}</code>...`,
+      );
+
+      try {
+        const result = await diagnoseProject(projectName);
+
+        if (!result.success) {
+          await sendMessage(chatId, `❌ ${escapeHtml(result.error)}`);
+          return;
+        }
+
+        await sendMessage(chatId, formatFixForTelegram(projectName, result));
+      } catch (error) {
+        await sendMessage(
+          chatId,
+          `❌ Error: ${escapeHtml(error instanceof Error ? error.message : "Unknown")}`,
+        );
+      }
+    },
+  },
+
+  review: {
+    role: "operator",
+    category: "ai",
+    description: "AI code review of a project",
+    usage: "[project]",
+    examples: ["/review simmer-down"],
+    args: z.tuple([arg.project]),
+    projectArg: 0,
+    handler: async (chatId, args) => {
+      if (args.length === 0) {
+        await sendMessage(
+          chatId,
+          `📝 <b>AI Code Review</b>\n\n` +
+            `AI-powered code review with recommendations.\n\n` +
+            `<b>Usage:</b> <code>/review [project-name]</code>`,
+        );
+        return;
+      }
+
+      await sendTyping(chatId);
+      const projectName = args[0];
+      await sendMessage(
+        chatId,
+        `📝 Reviewing code for <code>${projectName}</code>...`,
+      );
+
+      try {
+        const result = await reviewCode(projectName, [], {});
+
+        if (!result.success) {
+          await sendMessage(chatId, `❌ ${escapeHtml(result.error)}`);
+          return;
+        }
+
+        const recs = result.recommendations.slice(0, 5).join("\n");
+
+        await sendMessage(
+          chatId,
+          `📝 <b>CODE REVIEW: ${projectName}</b>\n\n` +
+            `<b>Recommendations:</b>\n${escapeHtml(recs) || "No issues found!"}`,
+        );
+      } catch (error) {
+        await sendMessage(
+          chatId,
+          `❌ Error: ${escapeHtml(error instanceof Error ? error.message : "Unknown")}`,
+        );
+      }
+    },
+  },
+
+  optimize: {
+    role: "operator",
+    category: "ai",
+    description: "AI performance optimization suggestions for a project",
+    usage: "[project]",
+    examples: ["/optimize simmer-down"],
+    args: z.tuple([arg.project]),
+    projectArg: 0,
+    handler: async (chatId, args) => {
+      if (args.length === 0) {
+        await sendMessage(
+          chatId,
+          `⚡ <b>AI Optimize</b>\n\n` +
+            `AI-powered performance optimization suggestions.\n\n` +
+            `<b>Usage:</b> <code>/optimize [project-name]</code>`,
+        );
+        return;
+      }
+
+      await sendTyping(chatId);
+      const projectName = args[0];
+      await sendMessage(
+        chatId,
+        `⚡ Analyzing performance for <code>${projectName}</code>...`,
+      );
+
+      try {
+        const result = await optimizeProject(projectName, "{}", {});
+
+        if (!result.success) {
+          await sendMessage(chatId, `❌ ${escapeHtml(result.error)}`);
+          return;
+        }
+
+        const recs = result.recommendations.slice(0, 5).join("\n");
+
+        await sendMessage(
+          chatId,
+          `⚡ <b>OPTIMIZATION: ${projectName}</b>\n\n` +
+            `<b>Recommendations:</b>\n${escapeHtml(recs) || "Project is optimized!"}`,
+        );
+      } catch (error) {
+        await sendMessage(
+          chatId,
+          `❌ Error: ${escapeHtml(error instanceof Error ? error.message : "Unknown")}`,
+        );
+      }
+    },
+  },
+
+  chat: {
+    role: "operator",
+    category: "ai",
+    description: "Ask Claude a question about a project",
+    usage: "[project] [question]",
+    examples: ["/chat simmer-down how do I add authentication?"],
+    aliases: ["ask"],
+    args: z.tuple([arg.project, arg.word], arg.word),
+    projectArg: 0,
+    handler: async (chatId, args) => {
+      if (args.length < 2) {
+        await sendMessage(
+          chatId,
+          `💬 <b>AI Chat</b>\n\n` +
+            `Ask Claude anything about a project.\n\n` +
+            `<b>Usage:</b> <code>/chat [project] [question]</code>\n` +
+            `<b>Example:</b> <code>/chat simmer-down how do I add authentication?</code>`,
+        );
+        return;
+      }
+
+      await sendTyping(chatId);
+      const projectName = args[0];
+      const question = args.slice(1).join(" ");
+
+      const result = await chatAboutProject(projectName, question);
+
+      if (!result.success) {
+        await sendMessage(chatId, `❌ ${escapeHtml(result.error)}`);
+        return;
+      }
+
+      await sendMessage(
+        chatId,
+        markup`💬 <b>AI Response</b>\n\n${result.response}`,
+      );
+    },
+  },
+
+  // ==================== CLIENT ACQUISITION COMMANDS ====================
+
+  roi: {
+    role: "viewer",
+    category: "acquisition",
+    description: "Calculate ROI for a hospitality sector",
+    usage:
+      "[sector] [--tier=] [--avg-booking=] [--lost-per-month=] [--currency=]",
+    examples: [
+      "/roi hotel",
+      "/roi yacht --tier=enterprise --currency=COP",
+      "/roi restaurant --avg-booking=120 --lost-per-month=40",
+    ],
+    args: z.tuple([arg.slug]),
+    handler: async (chatId, args, ctx) => {
+      const config = await getPricingConfig();
+
+      if (args.length === 0) {
+        await sendMessage(
+          chatId,
+          `💰 <b>ROI Calculator</b>\n\n` +
+            `Calculate ROI for any sector.\n\n` +
+            `<b>Usage:</b> <code>/roi [sector]</code>\n` +
+            `<b>Sectors:</b> ${Object.keys(config.sectors).join(", ")}\n\n` +
+            `<b>Flags:</b>\n` +
+            `<code>--tier=</code> ${Object.keys(config.tiers).join(", ")}\n` +
+            `<code>--avg-booking=</code> booking value in the chosen currency\n` +
+            `<code>--lost-per-month=</code> bookings lost each month\n` +
+            `<code>--currency=</code> ${CURRENCIES.join(", ")}\n\n` +
+            `<b>Example:</b> <code>/roi hotel --tier=enterprise --currency=COP</code>`,
+        );
+        return;
+      }
+
+      const sector = args[0].toLowerCase();
+
+      if (!config.sectors[sector]) {
+        await sendMessage(
+          chatId,
+          `❌ No economics for <code>${escapeHtml(sector)}</code>\n\n` +
+            `Available: ${Object.keys(config.sectors).join(", ")}`,
+        );
+        return;
+      }
+
+      const parsed = parseROIOptions(ctx.flags, config);
+
+      if ("error" in parsed) {
+        await sendMessage(chatId, `❌ ${escapeHtml(parsed.error)}`);
+        return;
+      }
+
+      const roi = calculateROI(
+        sector,
+        config,
+        await getExchangeRates(),
+        parsed.options,
+      );
+      await sendMessage(chatId, formatROIForTelegram(roi));
+    },
+  },
+
+  pricing: {
+    role: "viewer",
+    category: "acquisition",
+    description: "Show or edit MachineMind pricing tiers",
+    usage: "[set] [tier] [--setup=] [--monthly=] [--name=]",
+    examples: [
+      "/pricing",
+      "/pricing set professional --setup=2497 --monthly=1197",
+      '/pricing set boutique --setup=1497 --monthly=697 --name="Boutique"',
+    ],
+    args: z.tuple([z.literal("set"), arg.slug]),
+    handler: async (chatId, args, ctx) => {
+      if (args.length === 0) {
+        await sendMessage(
+          chatId,
+          formatPricingForTelegram(await getPricingConfig()) +
+            `\n\n💡 <code>/pricing set [tier] --setup= --monthly=</code> (admin)`,
+        );
+        return;
+      }
+
+      if (!hasRole(ctx.permissions.role, "admin")) {
+        await sendMessage(
+          chatId,
+          `⛔ <code>/pricing set</code> requires the <b>admin</b> role.`,
+        );
+        return;
+      }
+
+      const setup = parseAmount(ctx.flags.setup);
+      const monthly = parseAmount(ctx.flags.monthly);
+
+      if (
+        (ctx.flags.setup !== undefined && setup === null) ||
+        (ctx.flags.monthly !== undefined && monthly === null)
+      ) {
+        await sendMessage(
+          chatId,
+          `❌ --setup and --monthly must be positive USD amounts`,
+        );
+        return;
+      }
+
+      if (setup === null && monthly === null && !ctx.flags.name) {
+        await sendMessage(
+          chatId,
+          `❌ Nothing to change - pass <code>--setup=</code>, <code>--monthly=</code> or <code>--name=</code>`,
+        );
+        return;
+      }
+
+      const result = await setTierPricing(args[1], {
+        setup: setup ?? undefined,
+        monthly: monthly ?? undefined,
+        name: ctx.flags.name?.slice(0, 40) || undefined,
+      });
+
+      if (!result.success || !result.tier) {
+        await sendMessage(chatId, `❌ ${escapeHtml(result.error)}`);
+        return;
+      }
+
+      const { tier } = result;
+      await sendMessage(
+        chatId,
+        `✅ <b>${escapeHtml(tier.name)}</b> (<code>${tier.id}</code>) updated\n\n` +
+          `Setup $${tier.setup.toLocaleString()} · $${tier.monthly.toLocaleString()}/mo\n\n` +
+          `Used by <code>/roi</code>, <code>/pitch</code> and <code>/proposal</code> from now on.`,
+      );
+    },
+  },
+
+  "sector-economics": {
+    role: "viewer",
+    category: "acquisition",
+    description: "Show or edit booking value and lost bookings per sector",
+    usage: "[set] [sector] [--avg-booking=] [--lost-per-month=]",
+    examples: [
+      "/sector-economics",
+      "/sector-economics set hotel --avg-booking=280 --lost-per-month=18",
+    ],
+    args: z.tuple([z.literal("set"), arg.slug]),
+    handler: async (chatId, args, ctx) => {
+      if (args.length === 0) {
+        await sendMessage(
+          chatId,
+          formatPricingForTelegram(await getPricingConfig()) +
+            `\n\n💡 <code>/sector-economics set [sector] --avg-booking= --lost-per-month=</code> (admin)`,
+        );
+        return;
+      }
+
+      if (!hasRole(ctx.permissions.role, "admin")) {
+        await sendMessage(
+          chatId,
+          `⛔ <code>/sector-economics set</code> requires the <b>admin</b> role.`,
+        );
+        return;
+      }
+
+      const avgBooking = parseAmount(ctx.flags["avg-booking"]);
+      const monthlyLost = parseAmount(ctx.flags["lost-per-month"]);
+
+      if (
+        (ctx.flags["avg-booking"] !== undefined && avgBooking === null) ||
+        (ctx.flags["lost-per-month"] !== undefined && monthlyLost === null)
+      ) {
+        await sendMessage(
+          chatId,
+          `❌ --avg-booking (USD) and --lost-per-month must be positive numbers`,
+        );
+        return;
+      }
+
+      if (avgBooking === null && monthlyLost === null) {
+        await sendMessage(
+          chatId,
+          `❌ Nothing to change - pass <code>--avg-booking=</code> or <code>--lost-per-month=</code>`,
+        );
+        return;
+      }
+
+      const result = await setSectorEconomics(args[1], {
+        avgBooking: avgBooking ?? undefined,
+        monthlyLost: monthlyLost ?? undefined,
+      });
+
+      if (!result.success || !result.economics) {
+        await sendMessage(chatId, `❌ ${escapeHtml(result.error)}`);
+        return;
+      }
+
+      const { economics } = result;
+      await sendMessage(
+        chatId,
+        `✅ <code>${economics.sector}</code> economics updated\n\n` +
+          `$${economics.avgBooking.toLocaleString()}/booking · ${economics.monthlyLost} lost/mo\n\n` +
+          `Used by <code>/roi</code>, <code>/pitch</code> and <code>/proposal</code> from now on.`,
+      );
+    },
+  },
+
+  currency: {
+    role: "viewer",
+    category: "acquisition",
+    description: "Show or update the exchange rates used for quotes",
+    usage: "[set] [currency] [per-usd]",
+    examples: ["/currency", "/currency set COP 4150"],
+    aliases: ["fx"],
+    args: z.tuple([z.literal("set"), arg.word, arg.word]),
+    handler: async (chatId, args, ctx) => {
+      if (args.length === 0) {
+        await sendMessage(
+          chatId,
+          formatRatesForTelegram(await getExchangeRates()) +
+            `\n\n💡 <code>/currency set [currency] [per-usd]</code> (admin)`,
+        );
+        return;
+      }
+
+      if (!hasRole(ctx.permissions.role, "admin")) {
+        await sendMessage(
+          chatId,
+          `⛔ <code>/currency set</code> requires the <b>admin</b> role.`,
+        );
+        return;
+      }
+
+      const currency = args[1].toUpperCase();
+
+      if (!isCurrency(currency)) {
+        await sendMessage(
+          chatId,
+          `❌ Unknown currency: <code>${escapeHtml(args[1])}</code>\n\n` +
+            `Available: ${CURRENCIES.join(", ")}`,
+        );
+        return;
+      }
+
+      const result = await setExchangeRate(currency, parseAmount(args[2]) ?? 0);
+
+      if (!result.success || !result.rate) {
+        await sendMessage(chatId, `❌ ${escapeHtml(result.error)}`);
+        return;
+      }
+
+      await sendMessage(
+        chatId,
+        `✅ Rate updated\n\n💱 ${formatRate(result.rate)}\n\n` +
+          `Used by <code>/roi</code>, <code>/pitch</code> and <code>/proposal</code> from now on.`,
+      );
+    },
+  },
+
+  pitch: {
+    role: "operator",
+    category: "acquisition",
+    description: "Generate a sales pitch for a business",
+    usage: "[business] [sector] [--tier=] [--currency=]",
+    examples: [
+      '/pitch "Casa San Agustin" hotel',
+      '/pitch "Alquimico" nightclub --tier=enterprise --currency=COP',
+    ],
+    args: arg.words(1),
+    handler: async (chatId, args, ctx) => {
+      const { businessName, sector } = parseBusinessArgs(args, ctx.flags);
+
+      if (!businessName || !sector) {
+        await sendMessage(
+          chatId,
+          `🎯 <b>Sales Pitch Generator</b>\n\n` +
+            `Generate a compelling sales pitch.\n\n` +
+            `<b>Usage:</b> <code>/pitch [business] [sector]</code>\n` +
+            `<b>Example:</b> <code>/pitch "Casa San Agustin" hotel</code>`,
+        );
+        return;
+      }
+
+      const parsed = parseROIOptions(ctx.flags, await getPricingConfig());
+
+      if ("error" in parsed) {
+        await sendMessage(chatId, `❌ ${escapeHtml(parsed.error)}`);
+        return;
+      }
+
+      await sendTyping(chatId);
+
+      await sendMessage(
+        chatId,
+        markup`🎯 Generating pitch for <code>${businessName}</code>...`,
+      );
+
+      // Reuse what /research found so the pitch can be specific
+      const lead = await getLead(businessName);
+      const result = await generatePitch(
+        businessName,
+        sector,
+        lead?.research,
+        parsed.options,
+      );
+
+      if (!result.success) {
+        await sendMessage(chatId, `❌ ${escapeHtml(result.error)}`);
+        return;
+      }
+
+      await sendMessage(chatId, formatPitchForTelegram(result));
+      await trackLead(chatId, businessName, "pitched", "pitch", { sector });
+    },
+  },
+
+  proposal: {
+    role: "operator",
+    category: "acquisition",
+    description: "Generate a full client proposal",
+    usage: "[business] [sector] [--tier=] [--currency=]",
+    examples: [
+      '/proposal "Alquimico" nightclub',
+      '/proposal "Casa Mar" villa --tier=starter --avg-booking=650',
+    ],
+    args: arg.words(1),
+    handler: async (chatId, args, ctx) => {
+      const { businessName, sector } = parseBusinessArgs(args, ctx.flags);
+
+      if (!businessName || !sector) {
+        await sendMessage(
+          chatId,
+          `📋 <b>Proposal Generator</b>\n\n` +
+            `Generate a full client proposal.\n\n` +
+            `<b>Usage:</b> <code>/proposal [business] [sector]</code>\n` +
+            `<b>Example:</b> <code>/proposal "Alquimico" nightclub</code>`,
+        );
+        return;
+      }
+
+      const parsed = parseROIOptions(ctx.flags, await getPricingConfig());
+
+      if ("error" in parsed) {
+        await sendMessage(chatId, `❌ ${escapeHtml(parsed.error)}`);
+        return;
+      }
+
+      await sendTyping(chatId);
+
+      const result = await generateProposal(
+        businessName,
+        sector,
+        parsed.options,
+      );
+      await sendMessage(chatId, formatProposalForTelegram(result));
+
+      if (result.success) {
+        const proposal = await saveProposal(businessName, sector, result);
+        await sendProposalFiles(chatId, proposal);
+        await trackLead(chatId, businessName, "proposal_sent", "proposal", {
+          sector,
+        });
+      }
+    },
+  },
+
+  "proposal-get": {
+    role: "viewer",
+    category: "acquisition",
+    description: "Re-send a stored proposal as PDF and HTML",
+    usage: "[business]",
+    examples: ['/proposal-get "Alquimico"'],
+    args: arg.words(1),
+    handler: async (chatId, args) => {
+      if (args.length === 0) {
+        await sendMessage(
+          chatId,
+          `${formatProposalListForTelegram(await listProposals())}\n\n` +
+            `<b>Usage:</b> <code>/proposal-get [business]</code>`,
+        );
+        return;
+      }
+
+      const query = args.join(" ");
+      const proposal = await findProposal(query);
+
+      if (!proposal) {
+        await sendMessage(
+          chatId,
+          markup`❌ No stored proposal for <b>${query}</b>\n\nGenerate one with <code>/proposal [business] [sector]</code>.`,
+        );
+        return;
+      }
+
+      await sendProposalFiles(chatId, proposal);
+    },
+  },
+
+  competitor: {
+    role: "operator",
+    category: "acquisition",
+    description: "Analyze a business's competitors",
+    usage: "[business] [sector]",
+    examples: ['/competitor "Alquimico" nightclub'],
+    args: arg.words(1),
+    handler: async (chatId, args, ctx) => {
+      const { businessName, sector } = parseBusinessArgs(args, ctx.flags);
+
+      if (!businessName || !sector) {
+        await sendMessage(
+          chatId,
+          `🔍 <b>Competitor Analysis</b>\n\n` +
+            `Analyze competitors for a business.\n\n` +
+            `<b>Usage:</b> <code>/competitor [business] [sector]</code>`,
+        );
+        return;
+      }
+
+      await sendTyping(chatId);
+
+      await sendMessage(
         chatId,
-        `❌ Error: ${error instanceof Error ? error.message : "Unknown error"}`,
+        markup`🔍 Analyzing competitors for <code>${businessName}</code>...`,
       );
-    }
+
+      const result = await analyzeCompetitors(businessName, sector);
+
+      if (!result.success) {
+        await sendMessage(chatId, `❌ ${escapeHtml(result.error)}`);
+        return;
+      }
+
+      // Names and findings are model output - escape all of it
+      const competitorList = result.competitors.map(
+        (c, i) =>
+          markup`${i ? "\n\n" : ""}<b>${c.name}</b>\n✅ ${c.strengths.join(", ")}\n❌ ${c.weaknesses.join(", ")}`,
+      );
+
+      const opportunities = result.opportunities.map(
+        (o, i) => markup`${i ? "\n" : ""}• ${o}`,
+      );
+
+      await sendMessage(
+        chatId,
+        markup`🔍 <b>COMPETITOR ANALYSIS</b>\n\n${competitorList.length ? competitorList : "No competitors found"}\n\n<b>Opportunities:</b>\n${opportunities}`,
+      );
+    },
+  },
+
+  // ==================== LEAD COMMANDS ====================
+
+  leads: {
+    role: "viewer",
+    category: "acquisition",
+    description: "Show the lead pipeline by stage",
+    usage: "[stage]",
+    examples: ["/leads", "/leads negotiating"],
+    args: z.tuple([arg.word]),
+    handler: async (chatId, args) => {
+      const stage = args[0] ? parseLeadStage(args[0]) : undefined;
+
+      if (stage === null) {
+        await sendMessage(
+          chatId,
+          `❌ Unknown stage: <code>${escapeHtml(args[0])}</code>\n\n` +
+            `Stages: ${LEAD_STAGES.join(", ")}`,
+        );
+        return;
+      }
+
+      try {
+        const leads = await listLeads(stage);
+        await sendMessage(chatId, formatLeadListForTelegram(leads));
+      } catch (error) {
+        await sendMessage(
+          chatId,
+          `❌ Error: ${escapeHtml(error instanceof Error ? error.message : "Unknown error")}`,
+        );
+      }
+    },
+  },
+
+  lead: {
+    role: "viewer",
+    category: "acquisition",
+    description: "Show a lead's stage, research, history and notes",
+    usage: "[business-name]",
+    examples: ['/lead "Casa San Agustin"'],
+    args: arg.words(1),
+    handler: async (chatId, args) => {
+      if (args.length === 0) {
+        await sendMessage(
+          chatId,
+          `📇 <b>Lead Details</b>\n\n` +
+            `<b>Usage:</b> <code>/lead [business-name]</code>\n` +
+            `<b>Example:</b> <code>/lead "Casa San Agustin"</code>\n\n` +
+            `Use <code>/leads</code> to see the whole pipeline.`,
+        );
+        return;
+      }
+
+      const lead = await findLead(args.join(" "));
+
+      if (!lead) {
+        await sendMessage(
+          chatId,
+          markup`📇 No lead matching <code>${args.join(" ")}</code>.\n\nUse <code>/leads</code> to see the pipeline.`,
+        );
+        return;
+      }
+
+      await sendMessage(chatId, formatLeadForTelegram(lead));
+    },
   },
 
-  cancel: async (chatId, args) => {
-    if (args.length === 0) {
+  "lead-stage": {
+    role: "operator",
+    category: "acquisition",
+    description: "Move a lead to another pipeline stage",
+    usage: "[business-name] [stage] [--follow-up=]",
+    examples: [
+      '/lead-stage "Casa San Agustin" negotiating',
+      "/lead-stage Alquimico won",
+      '/lead-stage "Casa Mar" pitched --follow-up=2w',
+    ],
+    args: arg.words(2),
+    handler: async (chatId, args, ctx) => {
+      if (args.length < 2) {
+        await sendMessage(
+          chatId,
+          `📇 <b>Lead Stage</b>\n\n` +
+            `<b>Usage:</b> <code>/lead-stage [business-name] [stage]</code>\n` +
+            `<b>Stages:</b> ${LEAD_STAGES.join(", ")}\n` +
+            `<b>Follow-up:</b> <code>--follow-up=</code> 2026-11-03, tomorrow, 3d or 2w`,
+        );
+        return;
+      }
+
+      const stage = parseLeadStage(args[args.length - 1]);
+
+      if (!stage) {
+        await sendMessage(
+          chatId,
+          `❌ Unknown stage: <code>${escapeHtml(args[args.length - 1])}</code>\n\n` +
+            `Stages: ${LEAD_STAGES.join(", ")}`,
+        );
+        return;
+      }
+
+      const followUp = parseFollowUpFlag(ctx.flags);
+
+      if (followUp === null) {
+        await sendMessage(
+          chatId,
+          `❌ --follow-up must be a date (2026-11-03), today, tomorrow, 3d or 2w`,
+        );
+        return;
+      }
+
+      const lead = await findLead(args.slice(0, -1).join(" "));
+
+      if (!lead) {
+        await sendMessage(
+          chatId,
+          markup`📇 No lead matching <code>${args.slice(0, -1).join(" ")}</code>.\n\nLeads are created by /research, /pitch and /proposal.`,
+        );
+        return;
+      }
+
+      const updated = await setLeadStage(lead, stage, followUp);
+
+      const followUpLine = updated.nextFollowUp
+        ? `\n⏰ Follow up ${updated.nextFollowUp}`
+        : "";
+
       await sendMessage(
         chatId,
-        `🛑 <b>Usage:</b> <code>/cancel [project-name]</code>\n\n` +
-          `Cancels any active deployment.`,
+        markup`✅ <b>${updated.businessName}</b> → ${formatLeadStage(updated.stage)}${followUpLine}`,
       );
-      return;
-    }
+    },
+  },
+
+  "lead-note": {
+    role: "operator",
+    category: "acquisition",
+    description: "Add a note to a lead",
+    usage: "[business-name] [note] [--follow-up=]",
+    examples: [
+      '/lead-note "Casa San Agustin" Owner wants a demo next week --follow-up=5d',
+    ],
+    args: arg.words(2),
+    handler: async (chatId, args, ctx) => {
+      if (args.length < 2) {
+        await sendMessage(
+          chatId,
+          `📝 <b>Lead Note</b>\n\n` +
+            `<b>Usage:</b> <code>/lead-note [business-name] [note]</code>\n` +
+            `<b>Example:</b> <code>/lead-note "Casa San Agustin" Owner wants a demo --follow-up=5d</code>\n\n` +
+            `Quote multi-word business names.`,
+        );
+        return;
+      }
+
+      const followUp = parseFollowUpFlag(ctx.flags);
+
+      if (followUp === null) {
+        await sendMessage(
+          chatId,
+          `❌ --follow-up must be a date (2026-11-03), today, tomorrow, 3d or 2w`,
+        );
+        return;
+      }
+
+      const lead = await findLead(args[0]);
+
+      if (!lead) {
+        await sendMessage(
+          chatId,
+          markup`📇 No lead matching <code>${args[0]}</code>.\n\nLeads are created by /research, /pitch and /proposal.`,
+        );
+        return;
+      }
+
+      const updated = await addLeadNote(
+        lead,
+        args.slice(1).join(" ").slice(0, 500),
+        ctx.userId,
+        followUp,
+      );
+
+      await sendMessage(
+        chatId,
+        markup`📝 Note added to <b>${updated.businessName}</b> (${updated.notes.length} total)${followUp ? `\n⏰ Follow up ${followUp}` : ""}`,
+      );
+    },
+  },
+
+  // ==================== ANALYTICS COMMANDS ====================
+
+  speed: {
+    role: "viewer",
+    category: "analytics",
+    description: "Run a Core Web Vitals speed test",
+    usage: "[url-or-project]",
+    examples: ["/speed simmer-down", "/speed https://example.com"],
+    aliases: ["vitals"],
+    args: z.tuple([arg.target]),
+    projectArg: 0,
+    handler: async (chatId, args) => {
+      if (args.length === 0) {
+        await sendMessage(
+          chatId,
+          `⚡ <b>Speed Test</b>\n\n` +
+            `Test Core Web Vitals for any URL.\n\n` +
+            `<b>Usage:</b> <code>/speed [url-or-project]</code>\n` +
+            `<b>Example:</b> <code>/speed simmer-down</code>`,
+        );
+        return;
+      }
+
+      await sendTyping(chatId);
+      let url = args[0];
+
+      if (!url.startsWith("http")) {
+        url = `https://${url}.vercel.app`;
+      }
+
+      await sendMessage(
+        chatId,
+        `⚡ Running speed test on <code>${escapeHtml(url)}</code>...`,
+      );
+
+      const result = await runSpeedTest(url);
+
+      if (!result.success) {
+        await sendMessage(chatId, `❌ ${escapeHtml(result.error)}`);
+        return;
+      }
+
+      await recordSpeedResult(result);
+      await sendMessage(chatId, formatSpeedForTelegram(result));
+    },
+  },
+
+  "speed-trend": {
+    role: "viewer",
+    category: "analytics",
+    description: "Show Core Web Vitals history for a site",
+    usage: "[url-or-project] [runs]",
+    examples: ["/speed-trend simmer-down 20"],
+    args: z.tuple([arg.target, arg.count.optional()]),
+    projectArg: 0,
+    handler: async (chatId, args) => {
+      if (args.length === 0) {
+        await sendMessage(
+          chatId,
+          `📈 <b>Speed Trend</b>\n\n` +
+            `Core Web Vitals history from /speed runs and post-deploy tests.\n\n` +
+            `<b>Usage:</b> <code>/speed-trend [url-or-project] [runs]</code>\n` +
+            `<b>Example:</b> <code>/speed-trend simmer-down 20</code>`,
+        );
+        return;
+      }
+
+      const url = resolveSpeedUrl(args[0]);
+      const limit = Math.min(Math.max(Number(args[1]) || 30, 2), 100);
+      const records = await getSpeedHistory(url, limit);
+
+      await sendMessage(chatId, formatSpeedTrendForTelegram(url, records));
+    },
+  },
+
+  seo: {
+    role: "viewer",
+    category: "analytics",
+    description: "Run an SEO audit of a page",
+    usage: "[url-or-project]",
+    examples: ["/seo simmer-down"],
+    args: z.tuple([arg.target]),
+    projectArg: 0,
+    handler: async (chatId, args) => {
+      if (args.length === 0) {
+        await sendMessage(
+          chatId,
+          `🔍 <b>SEO Audit</b>\n\n` +
+            `Check SEO for any URL.\n\n` +
+            `<b>Usage:</b> <code>/seo [url-or-project]</code>`,
+        );
+        return;
+      }
+
+      await sendTyping(chatId);
+      let url = args[0];
+
+      if (!url.startsWith("http")) {
+        url = `https://${url}.vercel.app`;
+      }
+
+      await sendMessage(
+        chatId,
+        `🔍 Running SEO audit on <code>${escapeHtml(url)}</code>...`,
+      );
+
+      const result = await checkSEO(url);
+
+      if (!result.success) {
+        await sendMessage(chatId, `❌ ${escapeHtml(result.error)}`);
+        return;
+      }
+
+      await sendMessage(chatId, formatSEOForTelegram(result));
+    },
+  },
+
+  a11y: {
+    role: "viewer",
+    category: "analytics",
+    description: "Run an accessibility audit of a page",
+    usage: "[url-or-project]",
+    examples: ["/a11y simmer-down"],
+    aliases: ["accessibility"],
+    args: z.tuple([arg.target]),
+    projectArg: 0,
+    handler: async (chatId, args) => {
+      if (args.length === 0) {
+        await sendMessage(
+          chatId,
+          `♿ <b>Accessibility Audit</b>\n\n` +
+            `Checks contrast of declared color tokens, alt text, form labels, landmarks, heading order, focus states and tap targets against the engine checklist.\n\n` +
+            `<b>Usage:</b> <code>/a11y [url-or-project]</code>\n` +
+            `<b>Example:</b> <code>/a11y simmer-down</code>`,
+        );
+        return;
+      }
+
+      await sendTyping(chatId);
+      let url = args[0];
+
+      if (!url.startsWith("http")) {
+        url = `https://${url}.vercel.app`;
+      }
+
+      await sendMessage(
+        chatId,
+        `♿ Running accessibility audit on <code>${escapeHtml(url)}</code>...`,
+      );
+
+      const result = await runAccessibilityAudit(url);
+
+      if (!result.success) {
+        await sendMessage(chatId, `❌ ${escapeHtml(result.error)}`);
+        return;
+      }
+
+      await sendMessage(chatId, formatAccessibilityForTelegram(result));
+    },
+  },
+
+  "seo-crawl": {
+    role: "viewer",
+    category: "analytics",
+    description: "Crawl a whole site for SEO issues",
+    usage: "[url-or-project] [maxPages] [sector]",
+    examples: ["/seo-crawl simmer-down 30 restaurant"],
+    args: z.tuple([arg.target], arg.word),
+    projectArg: 0,
+    handler: async (chatId, args) => {
+      if (args.length === 0) {
+        await sendMessage(
+          chatId,
+          `🕷️ <b>SEO Crawl</b>\n\n` +
+            `Crawls internal links, robots.txt and sitemap.xml for broken links, duplicate meta, canonical/hreflang gaps, orphan pages and sector JSON-LD.\n\n` +
+            `<b>Usage:</b> <code>/seo-crawl [url-or-project] [maxPages] [sector]</code>\n` +
+            `<b>Example:</b> <code>/seo-crawl simmer-down 30 restaurant</code>\n\n` +
+            `Default ${DEFAULT_MAX_PAGES} pages, max ${MAX_CRAWL_PAGES}. Stops with partial results after ${CRAWL_TIME_BUDGET_MS / 1000}s.`,
+        );
+        return;
+      }
+
+      await sendTyping(chatId);
+      let url = args[0];
+
+      if (!url.startsWith("http")) {
+        url = `https://${url}.vercel.app`;
+      }
+
+      // maxPages and sector may come in either order
+      const maxPages = Number(args.slice(1).find((a) => /^\d+$/.test(a)));
+      const sector = args.slice(1).find((a) => !/^\d+$/.test(a));
+
+      if (sector && !SECTOR_SCHEMA_TYPES[sector.toLowerCase()]) {
+        await sendMessage(
+          chatId,
+          markup`❌ Unknown sector: <code>${sector}</code>\n\nAvailable: ${Object.keys(SECTOR_SCHEMA_TYPES).join(", ")}`,
+        );
+        return;
+      }
+
+      await sendMessage(
+        chatId,
+        markup`🕷️ Crawling <code>${url}</code> (up to ${maxPages || DEFAULT_MAX_PAGES} pages)...`,
+      );
+
+      try {
+        const report = await crawlSite(url, { maxPages, sector });
+        await sendMessage(chatId, formatSeoCrawlForTelegram(report));
+        await sendDocument(
+          chatId,
+          {
+            filename: `${slugify(new URL(report.startUrl).hostname)}-seo-crawl.md`,
+            content: formatSeoCrawlReportMarkdown(report),
+            contentType: "text/markdown",
+          },
+          { caption: "🕷️ Full SEO crawl report" },
+        );
+      } catch (error) {
+        await sendMessage(
+          chatId,
+          `❌ Crawl failed: ${escapeHtml(error instanceof Error ? error.message : "Unknown error")}`,
+        );
+      }
+    },
+  },
+
+  uptime: {
+    role: "viewer",
+    category: "analytics",
+    description: "Check whether a site is up",
+    usage: "[url-or-project]",
+    examples: ["/uptime simmer-down"],
+    args: z.tuple([arg.target]),
+    projectArg: 0,
+    handler: async (chatId, args) => {
+      if (args.length === 0) {
+        await sendMessage(
+          chatId,
+          `📡 <b>Uptime Check</b>\n\n` +
+            `Check if a site is up.\n\n` +
+            `<b>Usage:</b> <code>/uptime [url-or-project]</code>`,
+        );
+        return;
+      }
 
-    await sendTyping(chatId);
-    const projectName = args[0];
+      await sendTyping(chatId);
+      let url = args[0];
 
-    try {
-      const project = await getProject(projectName);
+      if (!url.startsWith("http")) {
+        url = `https://${url}.vercel.app`;
+      }
+
+      const result = await checkUptime(url);
+      await sendMessage(chatId, formatUptimeForTelegram(result));
+    },
+  },
 
-      if (!project) {
+  monitor: {
+    role: "viewer",
+    category: "analytics",
+    description: "Manage scheduled uptime monitors",
+    usage: "[add|list|remove|report] [project|url] [interval]",
+    examples: ["/monitor add simmer-down 5m", "/monitor report simmer-down"],
+    args: z.tuple([z.enum(["add", "list", "remove", "report"])], arg.word),
+    projectArg: 1,
+    handler: async (chatId, args, ctx) => {
+      const [action, target, intervalArg] = args;
+
+      if (!action || !["add", "list", "remove", "report"].includes(action)) {
         await sendMessage(
           chatId,
-          `❌ Project <code>${projectName}</code> not found.`,
+          `📡 <b>Uptime Monitoring</b>\n\n` +
+            `Scheduled checks with alerts when a site goes down or recovers.\n\n` +
+            `<b>Usage:</b>\n` +
+            `<code>/monitor add [project|url] [interval]</code> — e.g. 5m, 1h (default ${DEFAULT_INTERVAL_MINUTES}m)\n` +
+            `<code>/monitor list</code> — This chat's monitors\n` +
+            `<code>/monitor report [project|url]</code> — Uptime 24h/7d/30d\n` +
+            `<code>/monitor remove [project|url]</code> — Stop monitoring`,
         );
         return;
       }
 
-      const deployments = await listDeployments(project.id, 3);
-      const activeDeployment = deployments.find(
-        (d) =>
-          d.state === "BUILDING" ||
-          d.state === "QUEUED" ||
-          d.state === "INITIALIZING",
-      );
+      if (action === "list") {
+        const monitors = await listMonitors(chatId);
+        await sendMessage(chatId, formatMonitorListForTelegram(monitors));
+        return;
+      }
+
+      if (!target) {
+        await sendMessage(
+          chatId,
+          `<b>Usage:</b> <code>/monitor ${action} [project|url]</code>`,
+        );
+        return;
+      }
 
-      if (!activeDeployment) {
+      if (
+        (action === "add" || action === "remove") &&
+        !hasRole(ctx.permissions.role, "operator")
+      ) {
         await sendMessage(
           chatId,
-          `🛑 No active deployment to cancel for <code>${projectName}</code>.`,
+          `⛔ <code>/monitor ${action}</code> requires the <b>operator</b> role.`,
         );
         return;
       }
 
-      const success = await cancelDeployment(activeDeployment.id);
+      if (action === "add") {
+        if (!target.startsWith("http") && !validateProjectName(target)) {
+          await sendMessage(
+            chatId,
+            markup`❌ Invalid project name: <code>${target.slice(0, 50)}</code>`,
+          );
+          return;
+        }
+
+        const intervalMinutes = intervalArg
+          ? parseInterval(intervalArg)
+          : DEFAULT_INTERVAL_MINUTES;
+        if (!intervalMinutes) {
+          await sendMessage(
+            chatId,
+            markup`❌ Invalid interval: <code>${intervalArg}</code>\n\nUse minutes or hours, e.g. 5m, 30m, 1h.`,
+          );
+          return;
+        }
+
+        await sendTyping(chatId);
+        const monitor = await addMonitor({ chatId, target, intervalMinutes });
+        const checked = await runMonitorCheck(monitor);
 
-      if (success) {
         await sendMessage(
           chatId,
-          `✅ Deployment cancelled for <code>${projectName}</code>.`,
+          markup`📡 <b>Monitoring ${checked.target}</b> every ${checked.intervalMinutes}m\n\n🌐 ${checked.url}\nCurrent status: <b>${checked.status.toUpperCase()}</b>`,
         );
-      } else {
+        return;
+      }
+
+      if (action === "remove") {
+        const removed = await removeMonitor(chatId, target);
         await sendMessage(
           chatId,
-          `❌ Failed to cancel deployment for <code>${projectName}</code>.`,
+          removed
+            ? markup`🗑️ Stopped monitoring <code>${removed.target}</code>.`
+            : markup`❌ No monitor for <code>${target}</code> in this chat.`,
         );
+        return;
       }
-    } catch (error) {
-      await sendMessage(
-        chatId,
-        `❌ Error: ${error instanceof Error ? error.message : "Unknown error"}`,
-      );
-    }
-  },
 
-  // ==================== AI-POWERED COMMANDS ====================
+      const monitor = await findMonitor(chatId, target);
+      if (!monitor) {
+        await sendMessage(
+          chatId,
+          markup`❌ No monitor for <code>${target}</code>. Add one with <code>/monitor add ${target}</code>.`,
+        );
+        return;
+      }
 
-  fix: async (chatId, args) => {
-    if (args.length === 0) {
-      await sendMessage(
-        chatId,
-        `🔧 <b>AI Fix</b>\n\n` +
-          `Analyzes errors and suggests fixes using Claude AI.\n\n` +
-          `<b>Usage:</b> <code>/fix [project-name]</code>\n` +
-          `<b>Example:</b> <code>/fix simmer-down</code>`,
-      );
-      return;
-    }
+      const report = await getUptimeReport(monitor.id);
+      await sendMessage(chatId, formatUptimeReportForTelegram(monitor, report));
+    },
+  },
 
-    await sendTyping(chatId);
-    const projectName = args[0];
-    await sendMessage(
-      chatId,
-      `🔍 Analyzing errors for <code>${projectName}</code>...`,
-    );
+  // ==================== CONTENT COMMANDS ====================
 
-    try {
-      const project = await getProject(projectName);
-      if (!project) {
+  copy: {
+    role: "operator",
+    category: "content",
+    description: "Generate marketing copy for a business",
+    usage: "[business] [section]",
+    examples: ['/copy "Alquimico" hero'],
+    args: arg.words(2),
+    handler: async (chatId, args) => {
+      if (args.length < 2) {
         await sendMessage(
           chatId,
-          `❌ Project <code>${projectName}</code> not found.`,
+          `✍️ <b>Copy Generator</b>\n\n` +
+            `Generate marketing copy.\n\n` +
+            `<b>Usage:</b> <code>/copy [business] [section]</code>\n` +
+            `<b>Sections:</b> hero, cta, about, contact, services\n\n` +
+            `<b>Example:</b> <code>/copy "Casa Hotel" hero</code>`,
         );
         return;
       }
 
-      const deployments = await listDeployments(project.id, 1);
-      const errorLogs = await getRuntimeLogs(project.id, {
-        level: "error",
-        limit: 10,
-      });
-      const buildLogs =
-        deployments.length > 0
-          ? await getDeploymentLogs(deployments[0].id)
-          : [];
+      await sendTyping(chatId);
 
-      const result = await analyzeAndFix(
-        projectName,
-        errorLogs.map((l) => l.message),
-        buildLogs,
-      );
+      const section = args[args.length - 1];
+      const businessName = args.slice(0, -1).join(" ");
+
+      const result = await generateCopy(businessName, "hospitality", section);
 
       if (!result.success) {
-        await sendMessage(chatId, `❌ ${result.error}`);
+        await sendMessage(chatId, `❌ ${escapeHtml(result.error)}`);
         return;
       }
 
-      const fixes = result.fixes?.join("\n\n") || "No specific fix identified";
-      const recommendations = result.recommendations?.join("\n") || "";
-
-      await sendMessage(
-        chatId,
-        `🔧 <b>AI FIX ANALYSIS: ${projectName}</b>\n\n` +
-          `<b>Root Cause:</b>\n${result.analysis || "No errors detected"}\n\n` +
-          `<b>Fix:</b>\n<pre>${fixes}</pre>\n\n` +
-          `${recommendations ? `<b>Prevention:</b>\n${recommendations}` : ""}`,
-      );
-    } catch (error) {
-      await sendMessage(
-        chatId,
-        `❌ Error: ${error instanceof Error ? error.message : "Unknown"}`,
-      );
-    }
+      await sendMessage(chatId, formatCopyForTelegram(result));
+    },
   },
 
-  review: async (chatId, args) => {
-    if (args.length === 0) {
-      await sendMessage(
-        chatId,
-        `📝 <b>AI Code Review</b>\n\n` +
-          `AI-powered code review with recommendations.\n\n` +
-          `<b>Usage:</b> <code>/review [project-name]</code>`,
-      );
-      return;
-    }
+  translate: {
+    role: "operator",
+    category: "content",
+    description: "Translate text between English and Spanish",
+    usage: "[text]",
+    examples: ["/translate Welcome to our hotel"],
+    aliases: ["tr"],
+    args: arg.words(1),
+    handler: async (chatId, args) => {
+      if (args.length === 0) {
+        await sendMessage(
+          chatId,
+          `🌐 <b>Translator</b>\n\n` +
+            `Translate text between Spanish and English.\n\n` +
+            `<b>Usage:</b> <code>/translate [text]</code>\n` +
+            `<b>Example:</b> <code>/translate Welcome to our hotel</code>`,
+        );
+        return;
+      }
 
-    await sendTyping(chatId);
-    const projectName = args[0];
-    await sendMessage(
-      chatId,
-      `📝 Reviewing code for <code>${projectName}</code>...`,
-    );
+      await sendTyping(chatId);
+      const text = args.join(" ");
 
-    try {
-      const result = await reviewCode(projectName, [], {});
+      // Detect language and translate to opposite
+      const isSpanish = /[áéíóúñ¿¡]/i.test(text);
+      const targetLang = isSpanish ? "en" : "es";
+
+      const result = await translateText(text, targetLang as "es" | "en");
 
       if (!result.success) {
-        await sendMessage(chatId, `❌ ${result.error}`);
+        await sendMessage(chatId, `❌ ${escapeHtml(result.error)}`);
         return;
       }
 
-      const recs = result.recommendations.slice(0, 5).join("\n");
-
-      await sendMessage(
-        chatId,
-        `📝 <b>CODE REVIEW: ${projectName}</b>\n\n` +
-          `<b>Recommendations:</b>\n${recs || "No issues found!"}`,
-      );
-    } catch (error) {
-      await sendMessage(
-        chatId,
-        `❌ Error: ${error instanceof Error ? error.message : "Unknown"}`,
-      );
-    }
+      await sendMessage(chatId, formatTranslationForTelegram(result));
+    },
   },
 
-  optimize: async (chatId, args) => {
-    if (args.length === 0) {
-      await sendMessage(
-        chatId,
-        `⚡ <b>AI Optimize</b>\n\n` +
-          `AI-powered performance optimization suggestions.\n\n` +
-          `<b>Usage:</b> <code>/optimize [project-name]</code>`,
-      );
-      return;
-    }
+  image: {
+    role: "operator",
+    category: "content",
+    description: "Generate an AI image prompt",
+    usage: "[description]",
+    examples: ["/image luxury hotel lobby at sunset"],
+    args: arg.words(1),
+    handler: async (chatId, args) => {
+      if (args.length === 0) {
+        await sendMessage(
+          chatId,
+          `🎨 <b>Image Prompt Generator</b>\n\n` +
+            `Generate AI image prompts.\n\n` +
+            `<b>Usage:</b> <code>/image [description]</code>\n` +
+            `<b>Example:</b> <code>/image luxury hotel lobby at sunset</code>`,
+        );
+        return;
+      }
 
-    await sendTyping(chatId);
-    const projectName = args[0];
-    await sendMessage(
-      chatId,
-      `⚡ Analyzing performance for <code>${projectName}</code>...`,
-    );
+      await sendTyping(chatId);
+      const description = args.join(" ");
 
-    try {
-      const result = await optimizeProject(projectName, "{}", {});
+      const result = await generateImagePrompt(description);
 
       if (!result.success) {
-        await sendMessage(chatId, `❌ ${result.error}`);
+        await sendMessage(chatId, `❌ ${escapeHtml(result.error)}`);
         return;
       }
 
-      const recs = result.recommendations.slice(0, 5).join("\n");
-
-      await sendMessage(
-        chatId,
-        `⚡ <b>OPTIMIZATION: ${projectName}</b>\n\n` +
-          `<b>Recommendations:</b>\n${recs || "Project is optimized!"}`,
-      );
-    } catch (error) {
       await sendMessage(
         chatId,
-        `❌ Error: ${error instanceof Error ? error.message : "Unknown"}`,
+        `🎨 <b>IMAGE PROMPT</b>\n\n` +
+          `<b>Description:</b> ${escapeHtml(description)}\n\n` +
+          `<b>AI Prompt:</b>\n<pre>${escapeHtml(result.prompt)}</pre>\n\n` +
+          `💡 Use this prompt with DALL-E, Midjourney, or Stable Diffusion`,
       );
-    }
+    },
   },
 
-  chat: async (chatId, args) => {
-    if (args.length < 2) {
+  // ==================== ADVANCED DEPLOY COMMANDS ====================
+
+  clone: {
+    role: "admin",
+    category: "deploy",
+    description: "Clone a project into a new one",
+    usage: "[source] [new-name]",
+    examples: ["/clone simmer-down my-new-site"],
+    args: z.tuple([arg.project, arg.project]),
+    handler: async (chatId, args) => {
+      if (args.length < 2) {
+        await sendMessage(
+          chatId,
+          `📋 <b>Clone Project</b>\n\n` +
+            `Clone an existing project to a new name.\n\n` +
+            `<b>Usage:</b> <code>/clone [source] [new-name]</code>\n` +
+            `<b>Example:</b> <code>/clone simmer-down my-new-site</code>`,
+        );
+        return;
+      }
+
+      await sendTyping(chatId);
+      const source = args[0];
+      const newName = args[1];
+
       await sendMessage(
         chatId,
-        `💬 <b>AI Chat</b>\n\n` +
-          `Ask Claude anything about a project.\n\n` +
-          `<b>Usage:</b> <code>/chat [project] [question]</code>\n` +
-          `<b>Example:</b> <code>/chat simmer-down how do I add authentication?</code>`,
+        markup`📋 Cloning <code>${source}</code> to <code>${newName}</code>...`,
       );
-      return;
-    }
 
-    await sendTyping(chatId);
-    const projectName = args[0];
-    const question = args.slice(1).join(" ");
+      const result = await cloneProject(source, newName);
 
-    const result = await chatAboutProject(projectName, question);
+      if (!result.success) {
+        await sendMessage(chatId, `❌ ${escapeHtml(result.error)}`);
+        return;
+      }
 
-    if (!result.success) {
-      await sendMessage(chatId, `❌ ${result.error}`);
-      return;
-    }
+      await sendMessage(
+        chatId,
+        markup`✅ <b>Project Cloned!</b>
 
-    await sendMessage(
-      chatId,
-      `💬 <b>AI Response</b>\n\n${result.response.slice(0, 3500)}`,
-    );
-  },
+📁 Repo: <a href="${result.repoUrl}">${newName}</a>
 
-  // ==================== CLIENT ACQUISITION COMMANDS ====================
+<b>Next steps:</b>
+1. Clone the repo locally
+2. Copy files from ${source}
+3. Push and deploy
 
-  roi: async (chatId, args) => {
-    if (args.length === 0) {
-      await sendMessage(
-        chatId,
-        `💰 <b>ROI Calculator</b>\n\n` +
-          `Calculate ROI for any sector.\n\n` +
-          `<b>Usage:</b> <code>/roi [sector]</code>\n` +
-          `<b>Sectors:</b> hotel, restaurant, nightclub, yacht, villa, spa, tour\n\n` +
-          `<b>Example:</b> <code>/roi hotel</code>`,
+<code>/deploy ${newName}</code> when ready`,
       );
-      return;
-    }
-
-    const sector = args[0].toLowerCase();
-    const roi = calculateROI(sector);
-    await sendMessage(chatId, formatROIForTelegram(roi));
+    },
   },
 
-  pitch: async (chatId, args) => {
-    if (args.length === 0) {
+  "env-set": {
+    role: "admin",
+    category: "deploy",
+    description: "Set an environment variable on a project",
+    usage: "[project] [KEY] [value]",
+    examples: ["/env-set mysite API_KEY sk-123"],
+    args: z.tuple([arg.project, arg.word, arg.word], arg.word),
+    projectArg: 0,
+    handler: async (chatId, args) => {
+      if (args.length < 3) {
+        await sendMessage(
+          chatId,
+          `🔐 <b>Set Environment Variable</b>\n\n` +
+            `Set an env var on a Vercel project.\n\n` +
+            `<b>Usage:</b> <code>/env-set [project] [KEY] [value]</code>\n` +
+            `<b>Example:</b> <code>/env-set mysite API_KEY sk-123</code>`,
+        );
+        return;
+      }
+
+      await sendTyping(chatId);
+      const projectName = args[0];
+      const key = args[1];
+      const value = args.slice(2).join(" ");
+
+      const result = await setEnvVar(projectName, key, value);
+
+      if (!result.success) {
+        await sendMessage(chatId, `❌ ${escapeHtml(result.error)}`);
+        return;
+      }
+
       await sendMessage(
         chatId,
-        `🎯 <b>Sales Pitch Generator</b>\n\n` +
-          `Generate a compelling sales pitch.\n\n` +
-          `<b>Usage:</b> <code>/pitch [business] [sector]</code>\n` +
-          `<b>Example:</b> <code>/pitch "Casa San Agustin" hotel</code>`,
-      );
-      return;
-    }
+        markup`✅ <b>Environment Variable Set</b>
 
-    await sendTyping(chatId);
+📦 Project: <code>${projectName}</code>
+🔑 Key: <code>${key}</code>
+🎯 Targets: production, preview
 
-    const fullText = args.join(" ");
-    let businessName: string;
-    let sector: string;
-
-    const quotedMatch = fullText.match(/["']([^"']+)["']\s+(\w+)/);
-    if (quotedMatch) {
-      businessName = quotedMatch[1];
-      sector = quotedMatch[2];
-    } else {
-      sector = args[args.length - 1];
-      businessName = args.slice(0, -1).join(" ");
-    }
+⚠️ Redeploy to apply: <code>/deploy ${projectName}</code>`,
+      );
+    },
+  },
 
-    await sendMessage(
-      chatId,
-      `🎯 Generating pitch for <code>${businessName}</code>...`,
-    );
+  "domain-add": {
+    role: "admin",
+    category: "deploy",
+    description: "Add a domain to a project",
+    usage: "[project] [domain]",
+    examples: ["/domain-add mysite example.com"],
+    args: z.tuple([arg.project, arg.word]),
+    projectArg: 0,
+    handler: async (chatId, args) => {
+      if (args.length < 2) {
+        await sendMessage(
+          chatId,
+          `🌐 <b>Add Domain</b>\n\n` +
+            `Add a custom domain to a project.\n\n` +
+            `<b>Usage:</b> <code>/domain-add [project] [domain]</code>\n` +
+            `<b>Example:</b> <code>/domain-add mysite example.com</code>`,
+        );
+        return;
+      }
 
-    const result = await generatePitch(businessName, sector);
+      await sendTyping(chatId);
+      const projectName = args[0];
+      const domain = args[1];
 
-    if (!result.success) {
-      await sendMessage(chatId, `❌ ${result.error}`);
-      return;
-    }
+      const result = await addDomain(projectName, domain);
 
-    await sendMessage(chatId, formatPitchForTelegram(result));
-  },
+      if (!result.success) {
+        await sendMessage(chatId, `❌ ${escapeHtml(result.error)}`);
+        return;
+      }
 
-  proposal: async (chatId, args) => {
-    if (args.length === 0) {
       await sendMessage(
         chatId,
-        `📋 <b>Proposal Generator</b>\n\n` +
-          `Generate a full client proposal.\n\n` +
-          `<b>Usage:</b> <code>/proposal [business] [sector]</code>\n` +
-          `<b>Example:</b> <code>/proposal "Alquimico" nightclub</code>`,
+        markup`✅ <b>Domain Added</b>
+
+📦 Project: <code>${projectName}</code>
+🌐 Domain: <code>${domain}</code>
+${result.configured ? "✅ Verified" : "⚠️ DNS configuration required"}
+
+<b>DNS Records:</b>
+A Record: 76.76.21.21
+CNAME: cname.vercel-dns.com`,
       );
-      return;
-    }
+    },
+  },
 
-    await sendTyping(chatId);
+  preview: {
+    role: "operator",
+    category: "deploy",
+    description: "Get the preview URL of a project's branch",
+    usage: "[project] [branch]",
+    examples: ["/preview mysite feature-branch"],
+    args: z.tuple([arg.project, arg.word.optional()]),
+    projectArg: 0,
+    handler: async (chatId, args) => {
+      if (args.length === 0) {
+        await sendMessage(
+          chatId,
+          `👁️ <b>Preview Branch</b>\n\n` +
+            `Get preview URL for a branch.\n\n` +
+            `<b>Usage:</b> <code>/preview [project] [branch]</code>\n` +
+            `<b>Example:</b> <code>/preview mysite feature-branch</code>`,
+        );
+        return;
+      }
 
-    const fullText = args.join(" ");
-    let businessName: string;
-    let sector: string;
+      await sendTyping(chatId);
+      const projectName = args[0];
+      const branch = args[1] || "main";
 
-    const quotedMatch = fullText.match(/["']([^"']+)["']\s+(\w+)/);
-    if (quotedMatch) {
-      businessName = quotedMatch[1];
-      sector = quotedMatch[2];
-    } else {
-      sector = args[args.length - 1];
-      businessName = args.slice(0, -1).join(" ");
-    }
+      const result = await getPreviewUrl(projectName, branch);
 
-    const result = await generateProposal(businessName, sector);
-    await sendMessage(chatId, formatProposalForTelegram(result));
-  },
+      if (!result.success) {
+        await sendMessage(chatId, `❌ ${escapeHtml(result.error)}`);
+        return;
+      }
 
-  competitor: async (chatId, args) => {
-    if (args.length === 0) {
       await sendMessage(
         chatId,
-        `🔍 <b>Competitor Analysis</b>\n\n` +
-          `Analyze competitors for a business.\n\n` +
-          `<b>Usage:</b> <code>/competitor [business] [sector]</code>`,
+        markup`👁️ <b>Preview URL</b>
+
+📦 Project: <code>${projectName}</code>
+🌿 Branch: <code>${branch}</code>
+🔗 URL: <a href="${result.url}">${result.url}</a>`,
       );
-      return;
-    }
+    },
+  },
+
+  // ==================== SAFETY COMMANDS ====================
 
-    await sendTyping(chatId);
+  confirm: {
+    role: "viewer",
+    category: "safety",
+    description: "Run a pending action",
+    usage: "[token]",
+    args: z.tuple([arg.token]),
+    handler: async (chatId, args, ctx) => {
+      if (args.length === 0) {
+        await sendMessage(
+          chatId,
+          `✅ <b>Usage:</b> <code>/confirm [token]</code>\n\n` +
+            `Runs a pending destructive action. Use <code>/pending</code> to list them.`,
+        );
+        return;
+      }
 
-    const fullText = args.join(" ");
-    let businessName: string;
-    let sector: string;
+      const { action, error } = await consumePendingAction(
+        args[0],
+        chatId,
+        ctx.userId,
+      );
 
-    const quotedMatch = fullText.match(/["']([^"']+)["']\s+(\w+)/);
-    if (quotedMatch) {
-      businessName = quotedMatch[1];
-      sector = quotedMatch[2];
-    } else {
-      sector = args[args.length - 1];
-      businessName = args.slice(0, -1).join(" ");
-    }
+      if (!action) {
+        await sendMessage(chatId, `⚠️ ${escapeHtml(error)}`);
+        return;
+      }
 
-    await sendMessage(
-      chatId,
-      `🔍 Analyzing competitors for <code>${businessName}</code>...`,
-    );
+      // Permissions may have changed since the action was requested
+      if (!(await authorizeCommand(chatId, ctx, action.command, action.args))) {
+        return;
+      }
 
-    const result = await analyzeCompetitors(businessName, sector);
+      await sendMessage(chatId, `✅ Confirmed: ${action.summary}`);
+      await runHandler(chatId, action.command, action.args, {
+        ...ctx,
+        flags: action.flags || {},
+      });
+    },
+  },
 
-    if (!result.success) {
-      await sendMessage(chatId, `❌ ${result.error}`);
-      return;
-    }
+  abort: {
+    role: "viewer",
+    category: "safety",
+    description: "Discard a pending action",
+    usage: "[token]",
+    args: z.tuple([arg.token]),
+    handler: async (chatId, args, ctx) => {
+      if (args.length === 0) {
+        await sendMessage(
+          chatId,
+          `✋ <b>Usage:</b> <code>/abort [token]</code>\n\n` +
+            `Discards a pending action without running it.`,
+        );
+        return;
+      }
 
-    const competitorList = result.competitors
-      .map(
-        (c) =>
-          `<b>${c.name}</b>\n✅ ${c.strengths.join(", ")}\n❌ ${c.weaknesses.join(", ")}`,
-      )
-      .join("\n\n");
+      const action = await discardPendingAction(args[0], chatId, ctx.userId);
 
-    const opportunities = result.opportunities.map((o) => `• ${o}`).join("\n");
+      if (!action) {
+        await sendMessage(chatId, `⚠️ No pending action with that token.`);
+        return;
+      }
 
-    await sendMessage(
-      chatId,
-      `🔍 <b>COMPETITOR ANALYSIS</b>\n\n` +
-        `${competitorList || "No competitors found"}\n\n` +
-        `<b>Opportunities:</b>\n${opportunities}`,
-    );
+      await sendMessage(chatId, `✋ Aborted: ${action.summary}`);
+    },
   },
 
-  // ==================== ANALYTICS COMMANDS ====================
+  pending: {
+    role: "viewer",
+    category: "safety",
+    description: "List actions awaiting confirmation",
+    handler: async (chatId) => {
+      const actions = await listPendingActions(chatId);
+
+      if (actions.length === 0) {
+        await sendMessage(
+          chatId,
+          `✅ No pending actions awaiting confirmation.`,
+        );
+        return;
+      }
+
+      const list = actions
+        .map((a) => {
+          const secondsLeft = Math.max(
+            0,
+            Math.round((new Date(a.expiresAt).getTime() - Date.now()) / 1000),
+          );
+          return `• ${a.summary}\n  🔑 <code>${a.token}</code> — ${secondsLeft}s left`;
+        })
+        .join("\n\n");
 
-  speed: async (chatId, args) => {
-    if (args.length === 0) {
       await sendMessage(
         chatId,
-        `⚡ <b>Speed Test</b>\n\n` +
-          `Test Core Web Vitals for any URL.\n\n` +
-          `<b>Usage:</b> <code>/speed [url-or-project]</code>\n` +
-          `<b>Example:</b> <code>/speed simmer-down</code>`,
+        `⏳ <b>Pending Actions</b> (${actions.length})\n\n${list}`,
       );
-      return;
-    }
+    },
+  },
 
-    await sendTyping(chatId);
-    let url = args[0];
+  jobs: {
+    role: "viewer",
+    category: "cicd",
+    description: "Show workflow runs in flight",
+    aliases: ["runs"],
+    handler: async (chatId) => {
+      try {
+        // Refresh from GitHub so the list isn't only as fresh as the last cron tick
+        await syncJobs(chatId);
+        const jobs = await listActiveJobs(chatId);
+        await sendMessage(chatId, formatJobsForTelegram(jobs));
+      } catch (error) {
+        await sendMessage(
+          chatId,
+          `❌ Error: ${escapeHtml(error instanceof Error ? error.message : "Unknown error")}`,
+        );
+      }
+    },
+  },
 
-    if (!url.startsWith("http")) {
-      url = `https://${url}.vercel.app`;
-    }
+  subscribe: {
+    role: "viewer",
+    category: "notifications",
+    description: "Subscribe this chat to GitHub events",
+    usage: "[repo|*] [events...]",
+    examples: [
+      "/subscribe simmer-down push pull_request",
+      "/subscribe * workflow_run",
+    ],
+    args: z.tuple([arg.word], arg.word),
+    projectArg: 0,
+    handler: async (chatId, args) => {
+      if (args.length === 0) {
+        await sendMessage(
+          chatId,
+          `🔔 <b>GitHub Notifications</b>\n\n` +
+            `Relay repo events to this chat.\n\n` +
+            `<b>Usage:</b> <code>/subscribe [repo|*] [events...]</code>\n` +
+            `<b>Events:</b> ${GITHUB_EVENT_TYPES.join(", ")} (default: all)\n\n` +
+            `<b>Examples:</b>\n` +
+            `<code>/subscribe simmer-down</code>\n` +
+            `<code>/subscribe sofia-brain pull_request workflow_run</code>\n` +
+            `<code>/subscribe * workflow_run</code>`,
+        );
+        return;
+      }
 
-    await sendMessage(
-      chatId,
-      `⚡ Running speed test on <code>${url}</code>...`,
-    );
+      const [repo, ...eventArgs] = args;
+      const invalid = eventArgs.filter((e) => !isGitHubEventType(e));
 
-    const result = await runSpeedTest(url);
+      if (invalid.length > 0) {
+        await sendMessage(
+          chatId,
+          markup`❌ Unknown event: <code>${invalid.join(", ")}</code>\n\nValid events: ${GITHUB_EVENT_TYPES.join(", ")}`,
+        );
+        return;
+      }
 
-    if (!result.success) {
-      await sendMessage(chatId, `❌ ${result.error}`);
-      return;
-    }
+      if (repo !== ALL_REPOS && !validateProjectName(repo)) {
+        await sendMessage(
+          chatId,
+          markup`❌ Invalid repo name: <code>${repo.slice(0, 50)}</code>`,
+        );
+        return;
+      }
 
-    await sendMessage(chatId, formatSpeedForTelegram(result));
-  },
+      const events = eventArgs.length
+        ? (eventArgs as GitHubEventType[])
+        : GITHUB_EVENT_TYPES;
+      const subscription = await subscribe(chatId, repo, events);
 
-  seo: async (chatId, args) => {
-    if (args.length === 0) {
       await sendMessage(
         chatId,
-        `🔍 <b>SEO Audit</b>\n\n` +
-          `Check SEO for any URL.\n\n` +
-          `<b>Usage:</b> <code>/seo [url-or-project]</code>`,
+        markup`🔔 <b>Subscribed</b> to <code>${subscription.repo === ALL_REPOS ? "all repos" : subscription.repo}</code>\n\nEvents: ${subscription.events.join(", ")}`,
       );
-      return;
-    }
-
-    await sendTyping(chatId);
-    let url = args[0];
-
-    if (!url.startsWith("http")) {
-      url = `https://${url}.vercel.app`;
-    }
-
-    await sendMessage(chatId, `🔍 Running SEO audit on <code>${url}</code>...`);
-
-    const result = await checkSEO(url);
+    },
+  },
 
-    if (!result.success) {
-      await sendMessage(chatId, `❌ ${result.error}`);
-      return;
-    }
+  unsubscribe: {
+    role: "viewer",
+    category: "notifications",
+    description: "Stop GitHub event notifications",
+    usage: "[repo|*] [events...]",
+    examples: ["/unsubscribe simmer-down"],
+    args: z.tuple([arg.word], arg.word),
+    projectArg: 0,
+    handler: async (chatId, args) => {
+      if (args.length === 0) {
+        await sendMessage(
+          chatId,
+          `🔕 <b>Usage:</b> <code>/unsubscribe [repo|*] [events...]</code>\n\n` +
+            `Omit events to drop the whole subscription.`,
+        );
+        return;
+      }
 
-    await sendMessage(chatId, formatSEOForTelegram(result));
-  },
+      const [repo, ...eventArgs] = args;
+      const events = eventArgs.filter(isGitHubEventType);
+      const remaining = await unsubscribe(chatId, repo, events);
 
-  uptime: async (chatId, args) => {
-    if (args.length === 0) {
       await sendMessage(
         chatId,
-        `📡 <b>Uptime Check</b>\n\n` +
-          `Check if a site is up.\n\n` +
-          `<b>Usage:</b> <code>/uptime [url-or-project]</code>`,
+        remaining
+          ? markup`🔕 Updated <code>${remaining.repo}</code>\n\nStill receiving: ${remaining.events.join(", ")}`
+          : markup`🔕 Unsubscribed from <code>${repo}</code>`,
       );
-      return;
-    }
+    },
+  },
 
-    await sendTyping(chatId);
-    let url = args[0];
+  subscriptions: {
+    role: "viewer",
+    category: "notifications",
+    description: "List this chat's GitHub subscriptions",
+    handler: async (chatId) => {
+      const subscriptions = await listSubscriptions(chatId);
 
-    if (!url.startsWith("http")) {
-      url = `https://${url}.vercel.app`;
-    }
+      if (subscriptions.length === 0) {
+        await sendMessage(
+          chatId,
+          `🔔 No GitHub subscriptions in this chat.\n\nUse <code>/subscribe [repo]</code> to add one.`,
+        );
+        return;
+      }
+
+      const list = subscriptions.map(
+        (s) =>
+          markup`• <code>${s.repo === ALL_REPOS ? "* (all repos)" : s.repo}</code>\n  ${s.events.join(", ")}\n`,
+      );
 
-    const result = await checkUptime(url);
-    await sendMessage(chatId, formatUptimeForTelegram(result));
+      await sendMessage(
+        chatId,
+        markup`🔔 <b>GitHub Subscriptions</b> (${subscriptions.length})\n\n${list}`,
+      );
+    },
   },
 
-  // ==================== CONTENT COMMANDS ====================
+  watch: {
+    role: "viewer",
+    category: "notifications",
+    description: "Get Vercel deploy alerts for a project",
+    usage: "[project]",
+    examples: ["/watch simmer-down"],
+    args: z.tuple([arg.project]),
+    projectArg: 0,
+    handler: async (chatId, args) => {
+      if (args.length === 0) {
+        const watched = await listWatchedProjects(chatId);
+        await sendMessage(
+          chatId,
+          markup`👀 <b>Deploy Alerts</b>\n\nGet Vercel deploy alerts for a project in this chat.\n\n<b>Usage:</b> <code>/watch [project]</code> · <code>/unwatch [project]</code>\n\n${watched.length ? markup`<b>Watching:</b> ${watched.join(", ")}` : "Not watching any projects yet."}`,
+        );
+        return;
+      }
+
+      const projectName = args[0];
+      if (!validateProjectName(projectName)) {
+        await sendMessage(
+          chatId,
+          markup`❌ Invalid project name: <code>${projectName.slice(0, 50)}</code>`,
+        );
+        return;
+      }
 
-  copy: async (chatId, args) => {
-    if (args.length < 2) {
+      await watchProject(chatId, projectName);
       await sendMessage(
         chatId,
-        `✍️ <b>Copy Generator</b>\n\n` +
-          `Generate marketing copy.\n\n` +
-          `<b>Usage:</b> <code>/copy [business] [section]</code>\n` +
-          `<b>Sections:</b> hero, cta, about, contact, services\n\n` +
-          `<b>Example:</b> <code>/copy "Casa Hotel" hero</code>`,
+        markup`👀 Watching <code>${projectName}</code> - failed deploys will be reported here.`,
       );
-      return;
-    }
+    },
+  },
 
-    await sendTyping(chatId);
+  unwatch: {
+    role: "viewer",
+    category: "notifications",
+    description: "Stop Vercel deploy alerts for a project",
+    usage: "[project]",
+    examples: ["/unwatch simmer-down"],
+    args: z.tuple([arg.project]),
+    projectArg: 0,
+    handler: async (chatId, args) => {
+      if (args.length === 0) {
+        await sendMessage(
+          chatId,
+          `<b>Usage:</b> <code>/unwatch [project]</code>`,
+        );
+        return;
+      }
 
-    const section = args[args.length - 1];
-    const businessName = args.slice(0, -1).join(" ").replace(/["']/g, "");
+      const removed = await unwatchProject(chatId, args[0]);
+      await sendMessage(
+        chatId,
+        removed
+          ? markup`🙈 Stopped watching <code>${args[0]}</code>.`
+          : markup`ℹ️ This chat isn't watching <code>${args[0]}</code>.`,
+      );
+    },
+  },
 
-    const result = await generateCopy(businessName, "hospitality", section);
+  remind: {
+    role: "viewer",
+    category: "notifications",
+    description: "Schedule a reminder in this chat",
+    usage: "[when] [text]",
+    examples: [
+      "/remind 2h Call the Alquimico owner",
+      "/remind tomorrow Send the Cartagena Yacht Club proposal",
+      "/remind 9:30am Check the overnight deploys",
+      "/remind cancel 1a2b3c4d",
+    ],
+    args: arg.words(2),
+    handler: async (chatId, args, ctx) => {
+      if (args.length === 0) {
+        const reminders = await listReminders(chatId);
+        await sendMessage(
+          chatId,
+          `${formatRemindersForTelegram(reminders)}\n\n` +
+            `<b>Usage:</b> <code>/remind [when] [text]</code>\n` +
+            `<b>When:</b> 30m, 2h, 3d, 1w, tomorrow, 2026-11-03, 14:30 or 9am\n` +
+            `<b>Cancel:</b> <code>/remind cancel [id]</code>`,
+        );
+        return;
+      }
 
-    if (!result.success) {
-      await sendMessage(chatId, `❌ ${result.error}`);
-      return;
-    }
+      if (args[0].toLowerCase() === "cancel") {
+        const removed = await cancelReminder(chatId, args[1]);
+        await sendMessage(
+          chatId,
+          removed
+            ? markup`🗑️ Reminder <code>${args[1]}</code> cancelled.`
+            : markup`❌ No reminder <code>${args[1]}</code> in this chat.`,
+        );
+        return;
+      }
 
-    await sendMessage(chatId, formatCopyForTelegram(result));
-  },
+      const [when, ...textParts] = args;
+      const dueAt = parseReminderTime(when);
+      if (!dueAt) {
+        await sendMessage(
+          chatId,
+          markup`❌ Can't schedule for <code>${when}</code>\n\nUse a future time like 30m, 2h, 3d, tomorrow, 2026-11-03, 14:30 or 9am (up to a year ahead).`,
+        );
+        return;
+      }
 
-  translate: async (chatId, args) => {
-    if (args.length === 0) {
+      const reminder = await addReminder(
+        chatId,
+        ctx.userId,
+        textParts.join(" "),
+        dueAt,
+      );
       await sendMessage(
         chatId,
-        `🌐 <b>Translator</b>\n\n` +
-          `Translate text between Spanish and English.\n\n` +
-          `<b>Usage:</b> <code>/translate [text]</code>\n` +
-          `<b>Example:</b> <code>/translate Welcome to our hotel</code>`,
+        markup`⏰ Reminder set for <b>${formatLocalTime(dueAt)}</b>\n\n${reminder.text}\n\nCancel with <code>/remind cancel ${reminder.id}</code>`,
       );
-      return;
-    }
-
-    await sendTyping(chatId);
-    const text = args.join(" ");
+    },
+  },
 
-    // Detect language and translate to opposite
-    const isSpanish = /[áéíóúñ¿¡]/i.test(text);
-    const targetLang = isSpanish ? "en" : "es";
+  digest: {
+    role: "viewer",
+    category: "notifications",
+    description: "Preview the morning digest now",
+    handler: async (chatId, _args, ctx) => {
+      try {
+        await sendMessage(chatId, "☀️ Building your digest...");
+        const health = await getDeployHealth();
+        await sendMessage(
+          chatId,
+          await buildDigest(chatId, ctx.permissions, health),
+        );
+      } catch (error) {
+        await sendMessage(
+          chatId,
+          `❌ Error: ${escapeHtml(error instanceof Error ? error.message : "Unknown error")}`,
+        );
+      }
+    },
+  },
 
-    const result = await translateText(text, targetLang as "es" | "en");
+  "audit-log": {
+    role: "admin",
+    category: "safety",
+    description: "Show recent command history",
+    usage: "[n] [command]",
+    examples: ["/audit-log 20 deploy"],
+    aliases: ["history"],
+    args: z.array(arg.word).max(2),
+    handler: async (chatId, args) => {
+      // Accept the args in either order: /audit-log 20 deploy or /audit-log deploy
+      const limitArg = args.find((a) => /^\d+$/.test(a));
+      const command = args
+        .find((a) => !/^\d+$/.test(a))
+        ?.replace(/^\//, "")
+        .toLowerCase();
+      const limit = Math.min(Math.max(Number(limitArg) || 10, 1), 50);
+
+      try {
+        const entries = await queryAuditLog({ limit, command });
+        await sendMessage(chatId, formatAuditLogForTelegram(entries));
+      } catch (error) {
+        await sendMessage(
+          chatId,
+          `❌ Error: ${escapeHtml(error instanceof Error ? error.message : "Unknown error")}`,
+        );
+      }
+    },
+  },
 
-    if (!result.success) {
-      await sendMessage(chatId, `❌ ${result.error}`);
-      return;
-    }
+  "sync-commands": {
+    role: "admin",
+    category: "info",
+    description: "Publish the Telegram command menu for each role",
+    handler: async (chatId) => {
+      try {
+        // Everyone sees the viewer menu; configured users get their role's menu
+        const results = [
+          {
+            label: "default (viewer)",
+            ok: await setMyCommands(toBotCommands(commands, "viewer")),
+          },
+        ];
+
+        for (const [userId, { role }] of loadUserPermissions()) {
+          results.push({
+            label: `${userId} (${role})`,
+            ok: await setMyCommands(toBotCommands(commands, role), {
+              type: "chat",
+              chat_id: userId,
+            }),
+          });
+        }
+
+        const failed = results.filter((r) => !r.ok).length;
 
-    await sendMessage(chatId, formatTranslationForTelegram(result));
+        await sendMessage(
+          chatId,
+          `${failed ? "⚠️" : "✅"} <b>Command Menu Synced</b>\n\n` +
+            results
+              .map((r) => `${r.ok ? "✅" : "❌"} <code>${r.label}</code>`)
+              .join("\n") +
+            (failed ? `\n\n${failed} update(s) failed - check the logs.` : ""),
+        );
+      } catch (error) {
+        await sendMessage(
+          chatId,
+          `❌ Error: ${escapeHtml(error instanceof Error ? error.message : "Unknown error")}`,
+        );
+      }
+    },
   },
+};
 
-  image: async (chatId, args) => {
-    if (args.length === 0) {
-      await sendMessage(
-        chatId,
-        `🎨 <b>Image Prompt Generator</b>\n\n` +
-          `Generate AI image prompts.\n\n` +
-          `<b>Usage:</b> <code>/image [description]</code>\n` +
-          `<b>Example:</b> <code>/image luxury hotel lobby at sunset</code>`,
-      );
-      return;
-    }
+// Input validation patterns
+const SAFE_PROJECT_NAME = /^[a-z0-9][a-z0-9-]{0,99}$/i;
+const SAFE_COMPONENT_NAME = /^[A-Z][A-Za-z0-9]{0,49}$/;
+const SAFE_BUSINESS_NAME = /^[A-Za-z0-9 '"áéíóúñÁÉÍÓÚÑüÜ,.\-]{1,100}$/;
+
+export function validateProjectName(name: string): boolean {
+  return SAFE_PROJECT_NAME.test(name);
+}
 
-    await sendTyping(chatId);
-    const description = args.join(" ");
+export function validateComponentName(name: string): boolean {
+  return SAFE_COMPONENT_NAME.test(name);
+}
 
-    const result = await generateImagePrompt(description);
+export function validateBusinessName(name: string): boolean {
+  return SAFE_BUSINESS_NAME.test(name);
+}
 
-    if (!result.success) {
-      await sendMessage(chatId, `❌ ${result.error}`);
-      return;
-    }
+/**
+ * Resolve the caller's permissions, replying on denial
+ */
+async function authorizeUser(
+  chatId: number,
+  userId: number,
+): Promise<UserPermissions | null> {
+  const table = loadUserPermissions();
 
-    await sendMessage(
-      chatId,
-      `🎨 <b>IMAGE PROMPT</b>\n\n` +
-        `<b>Description:</b> ${description}\n\n` +
-        `<b>AI Prompt:</b>\n<pre>${result.prompt}</pre>\n\n` +
-        `💡 Use this prompt with DALL-E, Midjourney, or Stable Diffusion`,
+  // CRITICAL: Fail closed - if no authorized users configured, deny all
+  if (table.size === 0) {
+    console.error(
+      "AUTHORIZED_TELEGRAM_IDS not configured - denying all access",
     );
-  },
+    await sendMessage(chatId, "⛔ Bot not configured. Contact administrator.");
+    return null;
+  }
 
-  // ==================== ADVANCED DEPLOY COMMANDS ====================
+  const permissions = table.get(userId);
 
-  clone: async (chatId, args) => {
-    if (args.length < 2) {
-      await sendMessage(
-        chatId,
-        `📋 <b>Clone Project</b>\n\n` +
-          `Clone an existing project to a new name.\n\n` +
-          `<b>Usage:</b> <code>/clone [source] [new-name]</code>\n` +
-          `<b>Example:</b> <code>/clone simmer-down my-new-site</code>`,
-      );
-      return;
-    }
+  if (!permissions) {
+    await sendMessage(chatId, "⛔ Unauthorized. This bot is private.");
+    return null;
+  }
 
-    await sendTyping(chatId);
-    const source = args[0];
-    const newName = args[1];
+  return permissions;
+}
 
+/**
+ * Check role and project scope for a command, replying on denial
+ */
+async function authorizeCommand(
+  chatId: number,
+  ctx: CommandContext,
+  command: string,
+  args: string[],
+): Promise<boolean> {
+  const def = commands[command];
+  const { role } = ctx.permissions;
+
+  if (!hasRole(role, def.role)) {
     await sendMessage(
       chatId,
-      `📋 Cloning <code>${source}</code> to <code>${newName}</code>...`,
+      `⛔ <code>/${command}</code> requires the <b>${def.role}</b> role (you are <b>${role}</b>).\n\n` +
+        `Use <code>/whoami</code> to see what you can run.`,
     );
+    return false;
+  }
 
-    const result = await cloneProject(source, newName);
-
-    if (!result.success) {
-      await sendMessage(chatId, `❌ ${result.error}`);
-      return;
-    }
+  const project = def.projectArg !== undefined ? args[def.projectArg] : "";
 
+  // Analytics targets may be any external URL - only project names are scoped
+  // (Vercel and GitHub URLs were already turned into project names)
+  if (
+    project &&
+    !/^https?:\/\//i.test(project) &&
+    !canAccessProject(ctx.permissions, project)
+  ) {
     await sendMessage(
       chatId,
-      `✅ <b>Project Cloned!</b>\n\n` +
-        `📁 Repo: <a href="${result.repoUrl}">${newName}</a>\n\n` +
-        `<b>Next steps:</b>\n` +
-        `1. Clone the repo locally\n` +
-        `2. Copy files from ${source}\n` +
-        `3. Push and deploy\n\n` +
-        `<code>/deploy ${newName}</code> when ready`,
+      `⛔ You don't have access to project <code>${escapeHtml(project)}</code>.`,
     );
-  },
-
-  "env-set": async (chatId, args) => {
-    if (args.length < 3) {
-      await sendMessage(
-        chatId,
-        `🔐 <b>Set Environment Variable</b>\n\n` +
-          `Set an env var on a Vercel project.\n\n` +
-          `<b>Usage:</b> <code>/env-set [project] [KEY] [value]</code>\n` +
-          `<b>Example:</b> <code>/env-set mysite API_KEY sk-123</code>`,
-      );
-      return;
-    }
+    return false;
+  }
 
-    await sendTyping(chatId);
-    const projectName = args[0];
-    const key = args[1];
-    const value = args.slice(2).join(" ");
+  return true;
+}
 
-    const result = await setEnvVar(projectName, key, value);
+// ============================================================================
+// CONVERSATION FLOWS
+// ============================================================================
+
+const SECTOR_EMOJI: Record<string, string> = {
+  hospitality: "🏨",
+  restaurant: "🍽️",
+  nightclub: "🪩",
+  yacht: "🛥️",
+  villa: "🏡",
+  tour: "🧭",
+  hotel: "🛎️",
+  spa: "💆",
+};
 
-    if (!result.success) {
-      await sendMessage(chatId, `❌ ${result.error}`);
-      return;
-    }
+const DEFAULT_CITY = "Cartagena, Colombia";
 
-    await sendMessage(
+/**
+ * /new with no arguments: name → sector → city → confirm
+ */
+const NEW_PROJECT_FLOW: ConversationFlow = {
+  steps: [
+    {
+      key: "name",
+      prompt: () => markup`🏗️ <b>New Project</b>\n\nWhat's the business name?`,
+      parse: (reply) =>
+        // The finished command quotes the name, so double quotes can't appear in it
+        validateBusinessName(reply) && !reply.includes('"')
+          ? { value: reply }
+          : {
+              error:
+                "Names are 1-100 letters, numbers, spaces and basic punctuation (no double quotes).",
+            },
+    },
+    {
+      key: "sector",
+      prompt: (data) => markup`🎯 Which sector is <b>${data.name}</b> in?`,
+      keyboard: () => ({
+        inline_keyboard: Array.from(
+          { length: Math.ceil(SECTORS.length / 3) },
+          (_, row) => SECTORS.slice(row * 3, row * 3 + 3),
+        ).map((sectors) =>
+          sectors.map((sector) =>
+            callbackButton(`${SECTOR_EMOJI[sector] || ""} ${sector}`, sector),
+          ),
+        ),
+      }),
+      parse: (reply) =>
+        SECTORS.includes(reply.toLowerCase())
+          ? { value: reply.toLowerCase() }
+          : { error: `Pick one of: ${SECTORS.join(", ")}` },
+    },
+    {
+      key: "city",
+      prompt: () => markup`📍 Which city is it in?`,
+      keyboard: () => ({
+        inline_keyboard: [[callbackButton(`📍 ${DEFAULT_CITY}`, DEFAULT_CITY)]],
+      }),
+      parse: (reply) =>
+        validateBusinessName(reply) && !reply.includes('"')
+          ? { value: reply }
+          : { error: "Send a city name, e.g. Medellín" },
+    },
+    {
+      key: "confirm",
+      prompt: (data) => markup`✅ <b>Ready to create</b>
+
+🏢 Business: <b>${data.name}</b>
+🎯 Sector: ${data.sector}
+📍 City: ${data.city}`,
+      keyboard: () => ({
+        inline_keyboard: [
+          [
+            callbackButton("🚀 Create", "yes"),
+            callbackButton("✋ Cancel", "/exit"),
+          ],
+        ],
+      }),
+      parse: (reply) =>
+        /^(yes|y|create|ok|si|sí)$/i.test(reply)
+          ? { value: "yes" }
+          : { error: "Tap Create, or send /exit to cancel." },
+    },
+  ],
+  // Re-enter through handleCommand so the launch is authorized and audited
+  complete: (chatId, userId, data) =>
+    handleCommand(
       chatId,
-      `✅ <b>Environment Variable Set</b>\n\n` +
-        `📦 Project: <code>${projectName}</code>\n` +
-        `🔑 Key: <code>${key}</code>\n` +
-        `🎯 Targets: production, preview\n\n` +
-        `⚠️ Redeploy to apply: <code>/deploy ${projectName}</code>`,
-    );
-  },
-
-  "domain-add": async (chatId, args) => {
-    if (args.length < 2) {
-      await sendMessage(
-        chatId,
-        `🌐 <b>Add Domain</b>\n\n` +
-          `Add a custom domain to a project.\n\n` +
-          `<b>Usage:</b> <code>/domain-add [project] [domain]</code>\n` +
-          `<b>Example:</b> <code>/domain-add mysite example.com</code>`,
-      );
-      return;
-    }
+      userId,
+      formatCommandText("new", [data.name, data.sector, data.city]),
+    ),
+};
 
-    await sendTyping(chatId);
-    const projectName = args[0];
-    const domain = args[1];
+const CONVERSATION_FLOWS: Record<string, ConversationFlow> = {
+  new: NEW_PROJECT_FLOW,
+};
 
-    const result = await addDomain(projectName, domain);
+// ============================================================================
+// NATURAL-LANGUAGE ROUTING
+// ============================================================================
 
-    if (!result.success) {
-      await sendMessage(chatId, `❌ ${result.error}`);
-      return;
-    }
+// Menus, flow control and confirmations are never picked from free text
+const NL_EXCLUDED_COMMANDS = new Set(["help", "exit", "confirm", "abort"]);
 
-    await sendMessage(
-      chatId,
-      `✅ <b>Domain Added</b>\n\n` +
-        `📦 Project: <code>${projectName}</code>\n` +
-        `🌐 Domain: <code>${domain}</code>\n` +
-        `${result.configured ? "✅ Verified" : "⚠️ DNS configuration required"}\n\n` +
-        `<b>DNS Records:</b>\n` +
-        `A Record: 76.76.21.21\n` +
-        `CNAME: cname.vercel-dns.com`,
-    );
-  },
+/**
+ * Registry commands the caller's role may run, as routing tools
+ */
+function commandTools(permissions: UserPermissions): CommandTool[] {
+  return Object.entries(commands)
+    .filter(
+      ([name, def]) =>
+        !NL_EXCLUDED_COMMANDS.has(name) && hasRole(permissions.role, def.role),
+    )
+    .map(([name, def]) => ({
+      name,
+      description: def.description,
+      usage: def.usage,
+    }));
+}
 
-  preview: async (chatId, args) => {
-    if (args.length === 0) {
-      await sendMessage(
-        chatId,
-        `👁️ <b>Preview Branch</b>\n\n` +
-          `Get preview URL for a branch.\n\n` +
-          `<b>Usage:</b> <code>/preview [project] [branch]</code>\n` +
-          `<b>Example:</b> <code>/preview mysite feature-branch</code>`,
-      );
-      return;
-    }
+/**
+ * Rebuild command text - multi-word args are quoted so parseArgs reads
+ * each back as one arg
+ */
+function formatCommandText(command: string, args: string[]): string {
+  const parts = args.map((arg) => {
+    // Flags from Claude keep their key unquoted: --city="Santa Marta"
+    const flag = arg.match(/^(--[a-z][\w-]*=)([\s\S]+)$/i);
+    return flag ? flag[1] + quoteArg(flag[2]) : quoteArg(arg);
+  });
+  return [`/${command}`, ...parts].join(" ");
+}
 
-    await sendTyping(chatId);
-    const projectName = args[0];
-    const branch = args[1] || "main";
+/**
+ * Free text → Claude picks a command → run it through the normal pipeline,
+ * so role checks, confirmations and the audit log all still apply
+ */
+async function routeNaturalLanguage(
+  chatId: number,
+  userId: number,
+  text: string,
+  permissions: UserPermissions,
+): Promise<void> {
+  await sendTyping(chatId);
 
-    const result = await getPreviewUrl(projectName, branch);
+  const result = await interpretMessage(text, commandTools(permissions));
 
-    if (!result.success) {
-      await sendMessage(chatId, `❌ ${result.error}`);
-      return;
-    }
+  if (!result.success) {
+    await sendMessage(
+      chatId,
+      `❌ Couldn't interpret that: ${escapeHtml(result.error)}\n\n` +
+        `Send a command like <code>/help</code> instead.`,
+    );
+    return;
+  }
 
+  if (!result.command) {
     await sendMessage(
       chatId,
-      `👁️ <b>Preview URL</b>\n\n` +
-        `📦 Project: <code>${projectName}</code>\n` +
-        `🌿 Branch: <code>${branch}</code>\n` +
-        `🔗 URL: <a href="${result.url}">${result.url}</a>`,
+      `🤔 ${escapeHtml(result.reply || "I'm not sure which command you mean.")}\n\n` +
+        `💡 <code>/help</code> lists every command.`,
     );
-  },
-};
+    return;
+  }
 
-// Input validation patterns
-const SAFE_PROJECT_NAME = /^[a-z0-9][a-z0-9-]{0,99}$/i;
-const SAFE_COMPONENT_NAME = /^[A-Z][A-Za-z0-9]{0,49}$/;
-const SAFE_BUSINESS_NAME = /^[A-Za-z0-9 '"áéíóúñÁÉÍÓÚÑüÜ,.\-]{1,100}$/;
+  const args = result.args || [];
+  const commandText = formatCommandText(result.command, args);
+  // Echo with secrets masked, as in the audit log and pending actions
+  const echo = formatCommandText(
+    result.command,
+    redactArgs(result.command, args),
+  );
 
-export function validateProjectName(name: string): boolean {
-  return SAFE_PROJECT_NAME.test(name);
+  await sendMessage(chatId, markup`🧠 Running <code>${echo}</code>`);
+  await handleCommand(chatId, userId, commandText);
 }
 
-export function validateComponentName(name: string): boolean {
-  return SAFE_COMPONENT_NAME.test(name);
-}
+/**
+ * Handle an inline keyboard button press
+ * Button callback_data carries a command line, e.g. "/logs simmer-down"
+ */
+export async function handleCallbackQuery(
+  chatId: number,
+  userId: number,
+  callbackQueryId: string,
+  data: string,
+): Promise<void> {
+  // Clear the button spinner before doing any slow work
+  await answerCallbackQuery(callbackQueryId);
 
-export function validateBusinessName(name: string): boolean {
-  return SAFE_BUSINESS_NAME.test(name);
+  // Plain-text data answers the active conversation step
+  await handleCommand(chatId, userId, data);
 }
 
 export async function handleCommand(
@@ -1952,53 +4341,160 @@ export async function handleCommand(
   userId: number,
   text: string,
 ): Promise<void> {
-  const authorizedUsers =
-    process.env.AUTHORIZED_TELEGRAM_IDS?.split(",")
-      .map(Number)
-      .filter(Boolean) || [];
+  const startedAt = Date.now();
+  const isCommand = text.startsWith("/");
+
+  const [, name = "", argText = ""] =
+    text.slice(1).match(/^(\S*)\s*([\s\S]*)$/) || [];
+  const typed = name.toLowerCase().split("@")[0];
+  // Aliases and Telegram-menu spellings (speed_trend) map to the canonical name
+  const command = resolveCommand(commands, typed) || typed;
+  const { args, flags } = parseArgs(argText);
+
+  const audit = (outcome: AuditOutcome) =>
+    recordAudit({
+      timestamp: new Date(startedAt).toISOString(),
+      userId,
+      chatId,
+      command,
+      args: [...args, ...formatFlags(flags)],
+      outcome,
+      durationMs: Date.now() - startedAt,
+    });
 
-  // CRITICAL: Fail closed - if no authorized users configured, deny all
-  if (authorizedUsers.length === 0) {
-    console.error(
-      "AUTHORIZED_TELEGRAM_IDS not configured - denying all access",
-    );
-    await sendMessage(chatId, "⛔ Bot not configured. Contact administrator.");
+  const permissions = await authorizeUser(chatId, userId);
+  if (!permissions) {
+    if (isCommand) await audit("unauthorized");
     return;
   }
 
-  if (!authorizedUsers.includes(userId)) {
-    await sendMessage(chatId, "⛔ Unauthorized. This bot is private.");
+  if (!isCommand) {
+    const conversation = await getConversation(chatId);
+    const flow = conversation && CONVERSATION_FLOWS[conversation.flow];
+
+    if (conversation && flow && conversation.userId === userId) {
+      await continueConversation(conversation, flow, text);
+      return;
+    }
+
+    if (isNaturalLanguageEnabled()) {
+      await routeNaturalLanguage(chatId, userId, text, permissions);
+      return;
+    }
+
+    await sendMessage(
+      chatId,
+      "Send a command like <code>/help</code> to get started.",
+    );
     return;
   }
 
-  if (!text.startsWith("/")) {
+  if (!commands[command]) {
     await sendMessage(
       chatId,
-      "Send a command like <code>/help</code> to get started.",
+      `❓ Unknown command: <code>/${escapeHtml(command)}</code>\n\nUse <code>/help</code> for available commands.`,
     );
+    await audit("unknown_command");
     return;
   }
 
-  const parts = text.slice(1).split(/\s+/);
-  const command = parts[0].toLowerCase().split("@")[0];
-  const args = cleanArgs(parts.slice(1));
+  const ctx: CommandContext = { userId, permissions, flags };
+
+  if (!(await authorizeCommand(chatId, ctx, command, args))) {
+    await audit("denied");
+    return;
+  }
 
-  const handler = commands[command];
+  const argsError = validateArgs(commands[command], args);
 
-  if (!handler) {
+  if (argsError) {
     await sendMessage(
       chatId,
-      `❓ Unknown command: <code>/${command}</code>\n\nUse <code>/help</code> for available commands.`,
+      `❌ ${escapeHtml(argsError)}\n\n${formatCommandHelp(command, commands[command])}`,
     );
+    await audit("invalid_args");
+    return;
+  }
+
+  const summary = requiresConfirmation(command)
+    ? confirmationSummary(command, args)
+    : null;
+
+  if (summary) {
+    await requestConfirmation(chatId, ctx, command, args, summary);
+    await audit("pending_confirmation");
     return;
   }
 
+  await runHandler(chatId, command, args, ctx);
+}
+
+/**
+ * Park a destructive command until the caller confirms it
+ */
+async function requestConfirmation(
+  chatId: number,
+  ctx: CommandContext,
+  command: string,
+  args: string[],
+  summary: SafeHtml,
+): Promise<void> {
+  const action = await createPendingAction({
+    chatId,
+    userId: ctx.userId,
+    command,
+    args,
+    flags: ctx.flags,
+    summary: summary.toString(),
+  });
+
+  await sendMessage(
+    chatId,
+    `⚠️ <b>Confirmation Required</b>\n\n` +
+      `${summary}\n\n` +
+      `Tap Confirm or send <code>/confirm ${action.token}</code> within ${getConfirmationTtlSeconds()}s.`,
+    {
+      reply_markup: {
+        inline_keyboard: [
+          [
+            callbackButton("✅ Confirm", `/confirm ${action.token}`),
+            callbackButton("✋ Abort", `/abort ${action.token}`),
+          ],
+        ],
+      },
+    },
+  );
+}
+
+/**
+ * Execute a command handler and write its audit entry
+ */
+async function runHandler(
+  chatId: number,
+  command: string,
+  args: string[],
+  ctx: CommandContext,
+): Promise<void> {
+  const startedAt = Date.now();
+  let outcome: AuditOutcome = "success";
+  let errorMessage: string | undefined;
+
   try {
-    await handler(chatId, args);
+    await commands[command].handler(chatId, args, ctx);
   } catch (error) {
-    await sendMessage(
+    outcome = "error";
+    errorMessage = error instanceof Error ? error.message : "Unknown error";
+    await sendMessage(chatId, `❌ Command failed: ${escapeHtml(errorMessage)}`);
+  } finally {
+    await recordAudit({
+      timestamp: new Date(startedAt).toISOString(),
+      userId: ctx.userId,
       chatId,
-      `❌ Command failed: ${error instanceof Error ? error.message : "Unknown error"}`,
-    );
+      command,
+      args: [...args, ...formatFlags(ctx.flags)],
+      outcome,
+      durationMs: Date.now() - startedAt,
+      error: errorMessage,
+    });
   }
 }
@@ -0,0 +1,227 @@
+/**
+ * PENDING ACTIONS
+ * Destructive commands wait for a one-time confirmation before running
+ */
+
+import {
+  randomBytes,
+  createHash,
+  createCipheriv,
+  createDecipheriv,
+} from "crypto";
+import { getStore } from "./storage";
+import { redactArgs } from "./audit-log";
+
+export interface PendingAction {
+  token: string;
+  chatId: number;
+  userId: number;
+  command: string;
+  // Secret args (the /env-set value) are redacted at rest...
+  args: string[];
+  // ...and kept only in this AES-GCM sealed copy until confirmed
+  sealedArgs?: string;
+  flags?: Record<string, string>;
+  // Telegram HTML, already escaped
+  summary: string;
+  createdAt: string;
+  expiresAt: string;
+}
+
+// Commands that need confirmation unless overridden by CONFIRMATION_POLICY
+const DEFAULT_CONFIRMATION_POLICY: Record<string, boolean> = {
+  deploy: true,
+  rollback: true,
+  cancel: true,
+  "env-set": true,
+  "domain-add": true,
+};
+
+const DEFAULT_TTL_SECONDS = 120;
+
+function store() {
+  return getStore<PendingAction>("pending-actions");
+}
+
+/**
+ * Parse CONFIRMATION_POLICY, e.g. "deploy:off,clone:on"
+ */
+function loadPolicyOverrides(): Record<string, boolean> {
+  const raw = process.env.CONFIRMATION_POLICY || "";
+  const overrides: Record<string, boolean> = {};
+
+  for (const entry of raw.split(",")) {
+    const [command, setting] = entry.split(":").map((part) => part.trim());
+    if (!command || !setting) continue;
+    overrides[command.toLowerCase()] = ["on", "true", "yes", "1"].includes(
+      setting.toLowerCase(),
+    );
+  }
+
+  return overrides;
+}
+
+/**
+ * Whether a command must be confirmed before it runs
+ */
+export function requiresConfirmation(command: string): boolean {
+  const policy = { ...DEFAULT_CONFIRMATION_POLICY, ...loadPolicyOverrides() };
+  return policy[command] === true;
+}
+
+export function getConfirmationTtlSeconds(): number {
+  const configured = Number(process.env.CONFIRMATION_TTL_SECONDS);
+  return configured > 0 ? configured : DEFAULT_TTL_SECONDS;
+}
+
+// Used when no secret is configured - sealed args then only survive this process
+const processKey = randomBytes(32);
+
+function sealingKey(): Buffer {
+  const secret =
+    process.env.CONFIRMATION_SECRET || process.env.TELEGRAM_BOT_TOKEN;
+  return secret
+    ? createHash("sha256").update(`pending-actions:${secret}`).digest()
+    : processKey;
+}
+
+function seal(args: string[]): string {
+  const iv = randomBytes(12);
+  const cipher = createCipheriv("aes-256-gcm", sealingKey(), iv);
+  const data = Buffer.concat([
+    cipher.update(JSON.stringify(args), "utf8"),
+    cipher.final(),
+  ]);
+  return [iv, cipher.getAuthTag(), data]
+    .map((b) => b.toString("base64"))
+    .join(".");
+}
+
+/**
+ * Original args of a sealed action - null if the key changed or it was tampered with
+ */
+function unseal(sealed: string): string[] | null {
+  try {
+    const [iv, tag, data] = sealed
+      .split(".")
+      .map((p) => Buffer.from(p, "base64"));
+    const decipher = createDecipheriv("aes-256-gcm", sealingKey(), iv);
+    decipher.setAuthTag(tag);
+    const json = Buffer.concat([decipher.update(data), decipher.final()]);
+    return JSON.parse(json.toString("utf8"));
+  } catch {
+    return null;
+  }
+}
+
+function isExpired(action: PendingAction, now = Date.now()): boolean {
+  return new Date(action.expiresAt).getTime() <= now;
+}
+
+/**
+ * Store a pending action and return it with its one-time token
+ * Secret args never reach the store in plain text
+ */
+export async function createPendingAction(params: {
+  chatId: number;
+  userId: number;
+  command: string;
+  args: string[];
+  flags?: Record<string, string>;
+  summary: string;
+}): Promise<PendingAction> {
+  const now = Date.now();
+  const action: PendingAction = {
+    ...params,
+    token: randomBytes(4).toString("hex"),
+    createdAt: new Date(now).toISOString(),
+    expiresAt: new Date(now + getConfirmationTtlSeconds() * 1000).toISOString(),
+  };
+
+  const redacted = redactArgs(params.command, params.args);
+  const hasSecrets = redacted.some((arg, i) => arg !== params.args[i]);
+
+  await store().set(
+    action.token,
+    hasSecrets
+      ? { ...action, args: redacted, sealedArgs: seal(params.args) }
+      : action,
+  );
+  return action;
+}
+
+/**
+ * Redeem a token - succeeds once, only for the same user and chat, before expiry
+ */
+export async function consumePendingAction(
+  token: string,
+  chatId: number,
+  userId: number,
+): Promise<{ action?: PendingAction; error?: string }> {
+  const action = await store().get(token);
+
+  if (!action || action.chatId !== chatId || action.userId !== userId) {
+    return { error: "No pending action with that token." };
+  }
+
+  // One-time: remove before running so a double tap can't fire twice
+  const removed = await store().delete(token);
+  if (!removed) {
+    return { error: "This action was already handled." };
+  }
+
+  if (isExpired(action)) {
+    return { error: "Confirmation expired. Run the command again." };
+  }
+
+  if (action.sealedArgs) {
+    const args = unseal(action.sealedArgs);
+    if (!args) {
+      return {
+        error: "This action can no longer be confirmed. Run the command again.",
+      };
+    }
+    const { sealedArgs: _sealed, ...rest } = action;
+    return { action: { ...rest, args } };
+  }
+
+  return { action };
+}
+
+/**
+ * Discard a pending action without running it
+ */
+export async function discardPendingAction(
+  token: string,
+  chatId: number,
+  userId: number,
+): Promise<PendingAction | null> {
+  const action = await store().get(token);
+
+  if (!action || action.chatId !== chatId || action.userId !== userId) {
+    return null;
+  }
+
+  await store().delete(token);
+  return action;
+}
+
+/**
+ * Unexpired pending actions, optionally for one chat
+ * Expired entries are pruned as a side effect
+ */
+export async function listPendingActions(
+  chatId?: number,
+): Promise<PendingAction[]> {
+  const now = Date.now();
+  const all = await store().list();
+
+  await Promise.all(
+    all.filter((a) => isExpired(a, now)).map((a) => store().delete(a.token)),
+  );
+
+  return all
+    .filter((a) => !isExpired(a, now))
+    .filter((a) => chatId === undefined || a.chatId === chatId)
+    .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+}
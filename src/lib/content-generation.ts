@@ -4,6 +4,7 @@
  */
 
 import Anthropic from "@anthropic-ai/sdk";
+import { escapeHtml } from "./telegram";
 
 const anthropic = new Anthropic({
   apiKey: process.env.ANTHROPIC_API_KEY,
@@ -343,13 +344,13 @@ Return JSON with "es" and "en" objects containing the additional strings only.`;
  * Format copy result for Telegram
  */
 export function formatCopyForTelegram(result: CopyResult): string {
-  return `✍️ <b>COPY: ${result.section.toUpperCase()}</b>
+  return `✍️ <b>COPY: ${escapeHtml(result.section.toUpperCase())}</b>
 
 <b>🇪🇸 Spanish:</b>
-${result.spanish}
+${escapeHtml(result.spanish)}
 
 <b>🇺🇸 English:</b>
-${result.english}`;
+${escapeHtml(result.english)}`;
 }
 
 /**
@@ -361,8 +362,8 @@ export function formatTranslationForTelegram(
   return `🌐 <b>TRANSLATION</b>
 
 <b>${result.fromLang}:</b>
-${result.original}
+${escapeHtml(result.original)}
 
 <b>${result.toLang}:</b>
-${result.translated}`;
+${escapeHtml(result.translated)}`;
 }
@@ -0,0 +1,161 @@
+/**
+ * CONVERSATIONS
+ * Per-chat state for multi-step guided flows (wizards)
+ *
+ * A command starts a flow; plain-text replies and button taps are routed to
+ * the active step until the flow completes, expires or the user sends /exit.
+ * State lives in the "conversations" store, so MACHINEMIND_STORAGE=memory
+ * (or setStore) keeps it in-process for tests.
+ */
+
+import { getStore } from "./storage";
+import {
+  sendMessage,
+  markup,
+  SafeHtml,
+  InlineKeyboardMarkup,
+} from "./telegram";
+
+export interface Conversation {
+  chatId: number;
+  // Only the user who started the flow can answer it (group chats)
+  userId: number;
+  flow: string;
+  step: number;
+  data: Record<string, string>;
+  startedAt: string;
+  expiresAt: string;
+}
+
+export interface FlowStep {
+  key: string;
+  prompt: (data: Record<string, string>) => string | SafeHtml;
+  keyboard?: (data: Record<string, string>) => InlineKeyboardMarkup;
+  // Normalized answer, or an error shown before asking again
+  parse: (
+    reply: string,
+    data: Record<string, string>,
+  ) => { value: string } | { error: string };
+}
+
+export interface ConversationFlow {
+  steps: FlowStep[];
+  complete: (
+    chatId: number,
+    userId: number,
+    data: Record<string, string>,
+  ) => Promise<void>;
+}
+
+const CONVERSATION_TTL_MINUTES = 15;
+
+function store() {
+  return getStore<Conversation>("conversations");
+}
+
+function expiry(): string {
+  return new Date(Date.now() + CONVERSATION_TTL_MINUTES * 60000).toISOString();
+}
+
+/**
+ * Active conversation for a chat - expired ones are cleared on read
+ */
+export async function getConversation(
+  chatId: number,
+): Promise<Conversation | null> {
+  const conversation = await store().get(String(chatId));
+  if (!conversation) return null;
+
+  if (new Date(conversation.expiresAt).getTime() <= Date.now()) {
+    await store().delete(String(chatId));
+    return null;
+  }
+
+  return conversation;
+}
+
+/**
+ * End the chat's conversation - false when none was active
+ */
+export async function endConversation(chatId: number): Promise<boolean> {
+  return store().delete(String(chatId));
+}
+
+async function askStep(
+  conversation: Conversation,
+  flow: ConversationFlow,
+  error?: string,
+): Promise<void> {
+  const step = flow.steps[conversation.step];
+  const prompt = step.prompt(conversation.data);
+  const progress = `${conversation.step + 1}/${flow.steps.length}`;
+
+  await sendMessage(
+    conversation.chatId,
+    markup`${error ? markup`⚠️ ${error}\n\n` : ""}${prompt}\n\n<i>Step ${progress} · send /exit to cancel</i>`,
+    step.keyboard ? { reply_markup: step.keyboard(conversation.data) } : {},
+  );
+}
+
+/**
+ * Start a flow for a chat, replacing any conversation already in progress
+ */
+export async function startConversation(
+  chatId: number,
+  userId: number,
+  name: string,
+  flow: ConversationFlow,
+  data: Record<string, string> = {},
+): Promise<Conversation> {
+  const conversation: Conversation = {
+    chatId,
+    userId,
+    flow: name,
+    step: 0,
+    data,
+    startedAt: new Date().toISOString(),
+    expiresAt: expiry(),
+  };
+
+  await store().set(String(chatId), conversation);
+  await askStep(conversation, flow);
+  return conversation;
+}
+
+/**
+ * Feed a reply to the active step - advances, re-asks on error or completes
+ */
+export async function continueConversation(
+  conversation: Conversation,
+  flow: ConversationFlow,
+  reply: string,
+): Promise<void> {
+  const step = flow.steps[conversation.step];
+  const result = step.parse(reply.trim(), conversation.data);
+
+  if ("error" in result) {
+    await store().set(String(conversation.chatId), {
+      ...conversation,
+      expiresAt: expiry(),
+    });
+    await askStep(conversation, flow, result.error);
+    return;
+  }
+
+  const next: Conversation = {
+    ...conversation,
+    step: conversation.step + 1,
+    data: { ...conversation.data, [step.key]: result.value },
+    expiresAt: expiry(),
+  };
+
+  if (next.step < flow.steps.length) {
+    await store().set(String(conversation.chatId), next);
+    await askStep(next, flow);
+    return;
+  }
+
+  // Clear state first so a failing completion can't leave the flow stuck
+  await endConversation(conversation.chatId);
+  await flow.complete(conversation.chatId, conversation.userId, next.data);
+}
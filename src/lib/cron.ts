@@ -0,0 +1,19 @@
+/**
+ * CRON AUTH
+ * Vercel Cron sends "Authorization: Bearer $CRON_SECRET" with each invocation
+ */
+
+import { timingSafeEqual } from "crypto";
+
+export function isAuthorizedCron(request: Request): boolean {
+  const secret = process.env.CRON_SECRET;
+
+  // Fail closed - an unset secret would expose the route to anyone
+  if (!secret) return false;
+
+  const header = request.headers.get("authorization") || "";
+  const expected = Buffer.from(`Bearer ${secret}`);
+  const actual = Buffer.from(header);
+
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
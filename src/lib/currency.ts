@@ -0,0 +1,142 @@
+/**
+ * CURRENCY
+ * Offline USD exchange rates and locale-aware money formatting for quotes
+ *
+ * Pricing is configured in USD; ROI, pitches and proposals are converted
+ * with these rates. Admin overrides live in the "currency-rates" store,
+ * so quotes never depend on a live FX API.
+ */
+
+import { getStore } from "./storage";
+
+export type Currency = "USD" | "COP" | "EUR";
+
+export interface ExchangeRate {
+  currency: Currency;
+  // Units of the currency per 1 USD
+  perUsd: number;
+  updatedAt?: string;
+}
+
+export type ExchangeRates = Record<Currency, ExchangeRate>;
+
+export const BASE_CURRENCY: Currency = "USD";
+
+// Offline fallback table - update with /currency set
+const DEFAULT_RATES: ExchangeRates = {
+  USD: { currency: "USD", perUsd: 1 },
+  COP: { currency: "COP", perUsd: 4000 },
+  EUR: { currency: "EUR", perUsd: 0.92 },
+};
+
+export const CURRENCIES = Object.keys(DEFAULT_RATES) as Currency[];
+
+// Locale each currency is written in, e.g. $ 4.000.000 for COP
+const LOCALES: Record<Currency, string> = {
+  USD: "en-US",
+  COP: "es-CO",
+  EUR: "de-DE",
+};
+
+function store() {
+  return getStore<ExchangeRate>("currency-rates");
+}
+
+export function isCurrency(value: string): value is Currency {
+  return (CURRENCIES as string[]).includes(value);
+}
+
+/**
+ * Offline table with admin overrides applied
+ */
+export async function getExchangeRates(): Promise<ExchangeRates> {
+  const overrides = await store().list();
+  const rates = { ...DEFAULT_RATES };
+
+  for (const rate of overrides) {
+    if (isCurrency(rate.currency) && rate.currency !== BASE_CURRENCY) {
+      rates[rate.currency] = rate;
+    }
+  }
+
+  return rates;
+}
+
+/**
+ * Override a currency's rate against USD
+ */
+export async function setExchangeRate(
+  currency: Currency,
+  perUsd: number,
+): Promise<{ success: boolean; rate?: ExchangeRate; error?: string }> {
+  if (currency === BASE_CURRENCY) {
+    return { success: false, error: `${BASE_CURRENCY} is the base currency` };
+  }
+  if (!Number.isFinite(perUsd) || perUsd <= 0) {
+    return { success: false, error: "Rate must be a positive number" };
+  }
+
+  const rate: ExchangeRate = {
+    currency,
+    perUsd,
+    updatedAt: new Date().toISOString(),
+  };
+
+  await store().set(currency, rate);
+  return { success: true, rate };
+}
+
+/**
+ * Convert a USD amount
+ */
+export function convertFromUsd(amount: number, rate: ExchangeRate): number {
+  return amount * rate.perUsd;
+}
+
+/**
+ * Amount in the currency's own notation plus its code,
+ * e.g. $1,997 USD · $ 4.000.000 COP · 1.837 € EUR
+ */
+export function formatMoney(amount: number, currency: Currency): string {
+  const formatted = new Intl.NumberFormat(LOCALES[currency], {
+    style: "currency",
+    currency,
+    maximumFractionDigits: 0,
+  }).format(amount);
+
+  // Intl separates symbol and amount with a no-break space
+  return `${formatted.replace(/[\u00a0\u202f]/g, " ")} ${currency}`;
+}
+
+/**
+ * The rate a quote used, e.g. "1 USD = 4.000 COP (offline default)"
+ */
+export function formatRate(rate: ExchangeRate): string {
+  if (rate.currency === BASE_CURRENCY) {
+    return `${BASE_CURRENCY} (base currency)`;
+  }
+
+  const perUsd = rate.perUsd.toLocaleString(LOCALES[rate.currency], {
+    maximumFractionDigits: 4,
+  });
+  const source = rate.updatedAt
+    ? `updated ${rate.updatedAt.slice(0, 10)}`
+    : "offline default";
+
+  return `1 ${BASE_CURRENCY} = ${perUsd} ${rate.currency} (${source})`;
+}
+
+/**
+ * Current rate table for /currency
+ */
+export function formatRatesForTelegram(rates: ExchangeRates): string {
+  const lines = CURRENCIES.filter((c) => c !== BASE_CURRENCY).map(
+    (c) => `• <b>${c}</b>: ${formatRate(rates[c])}`,
+  );
+
+  return (
+    `💱 <b>Exchange Rates</b>\n\n` +
+    `${lines.join("\n")}\n\n` +
+    `<i>Pricing is set in ${BASE_CURRENCY}; quotes convert with these rates.</i>`
+  );
+}
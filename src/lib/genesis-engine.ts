@@ -592,9 +592,16 @@ export interface BuildMemory {
   businessName: string;
   sector: string;
   createdAt: string;
+  source: "build" | "new";
+  chatId: string;
   research: BusinessResearch;
   template: SectorTemplate;
   customizations: Record<string, string>;
+  buildConfig?: GenesisBuildConfig;
+  workflow?: {
+    name: string;
+    triggered: boolean;
+  };
   performance: {
     buildTime: number;
     deploySuccess: boolean;
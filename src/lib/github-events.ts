@@ -0,0 +1,158 @@
+/**
+ * GITHUB WEBHOOK EVENTS
+ * Zod schemas for the events we relay and their Telegram summaries
+ */
+
+import { z } from "zod";
+import { markup, SafeHtml } from "./telegram";
+
+const RepositorySchema = z.object({
+  name: z.string(),
+  full_name: z.string(),
+  html_url: z.string(),
+});
+
+export const PushEventSchema = z.object({
+  ref: z.string(),
+  compare: z.string(),
+  deleted: z.boolean().optional(),
+  repository: RepositorySchema,
+  pusher: z.object({ name: z.string() }),
+  commits: z.array(
+    z.object({
+      id: z.string(),
+      message: z.string(),
+      author: z.object({ name: z.string() }),
+    }),
+  ),
+});
+
+export const PullRequestEventSchema = z.object({
+  action: z.string(),
+  number: z.number(),
+  repository: RepositorySchema,
+  pull_request: z.object({
+    title: z.string(),
+    html_url: z.string(),
+    merged: z.boolean().nullable().optional(),
+    user: z.object({ login: z.string() }),
+    head: z.object({ ref: z.string() }),
+    base: z.object({ ref: z.string() }),
+  }),
+});
+
+export const WorkflowRunEventSchema = z.object({
+  action: z.string(),
+  repository: RepositorySchema,
+  workflow_run: z.object({
+    id: z.number(),
+    name: z.string().nullable().optional(),
+    path: z.string(),
+    status: z.string(),
+    conclusion: z.string().nullable(),
+    html_url: z.string(),
+    event: z.string(),
+    created_at: z.string(),
+    head_branch: z.string().nullable(),
+  }),
+});
+
+export const CheckSuiteEventSchema = z.object({
+  action: z.string(),
+  repository: RepositorySchema,
+  check_suite: z.object({
+    status: z.string().nullable(),
+    conclusion: z.string().nullable(),
+    head_branch: z.string().nullable(),
+    head_sha: z.string(),
+    app: z.object({ name: z.string() }).nullable().optional(),
+  }),
+});
+
+export type PushEvent = z.infer<typeof PushEventSchema>;
+export type PullRequestEvent = z.infer<typeof PullRequestEventSchema>;
+export type WorkflowRunEvent = z.infer<typeof WorkflowRunEventSchema>;
+export type CheckSuiteEvent = z.infer<typeof CheckSuiteEventSchema>;
+
+// Pull request actions worth a chat message
+const PR_ACTIONS = ["opened", "reopened", "closed", "ready_for_review"];
+
+const MAX_COMMITS_SHOWN = 5;
+
+const conclusionEmoji = (conclusion: string | null) =>
+  conclusion === "success" ? "✅" : conclusion === "cancelled" ? "🚫" : "❌";
+
+/**
+ * Workflow file name from its path (.github/workflows/audit.yml → audit.yml)
+ */
+export function workflowFileName(path: string): string {
+  return path.split("/").pop() || path;
+}
+
+export function formatPushEvent(event: PushEvent): SafeHtml | null {
+  if (event.deleted || event.commits.length === 0) return null;
+
+  const branch = event.ref.replace("refs/heads/", "");
+  const commits = event.commits
+    .slice(0, MAX_COMMITS_SHOWN)
+    .map(
+      (c) =>
+        markup`\n• <code>${c.id.slice(0, 7)}</code> ${c.message.split("\n")[0].slice(0, 80)} — ${c.author.name}`,
+    );
+  const more =
+    event.commits.length > MAX_COMMITS_SHOWN
+      ? markup`\n… and ${event.commits.length - MAX_COMMITS_SHOWN} more`
+      : "";
+
+  return markup`📥 <b>Push to ${event.repository.name}</b> (<code>${branch}</code>)
+👤 ${event.pusher.name} · ${event.commits.length} commit${event.commits.length === 1 ? "" : "s"}
+${commits}${more}
+
+🔗 <a href="${event.compare}">Compare</a>`;
+}
+
+export function formatPullRequestEvent(
+  event: PullRequestEvent,
+): SafeHtml | null {
+  if (!PR_ACTIONS.includes(event.action)) return null;
+
+  const pr = event.pull_request;
+  const action =
+    event.action === "closed"
+      ? pr.merged
+        ? "merged"
+        : "closed"
+      : event.action.replace(/_/g, " ");
+  const emoji = action === "merged" ? "🟣" : action === "closed" ? "🔴" : "🟢";
+
+  return markup`${emoji} <b>PR #${event.number} ${action}</b> in ${event.repository.name}
+${pr.title}
+👤 ${pr.user.login} · <code>${pr.head.ref}</code> → <code>${pr.base.ref}</code>
+
+🔗 <a href="${pr.html_url}">View pull request</a>`;
+}
+
+export function formatWorkflowRunEvent(
+  event: WorkflowRunEvent,
+): SafeHtml | null {
+  if (event.action !== "completed") return null;
+
+  const run = event.workflow_run;
+  const name = run.name || workflowFileName(run.path);
+
+  return markup`${conclusionEmoji(run.conclusion)} <b>${name}</b> ${run.conclusion || "finished"} in ${event.repository.name}
+🌿 ${run.head_branch || "unknown branch"} · triggered by ${run.event}
+
+🔗 <a href="${run.html_url}">View run</a>`;
+}
+
+export function formatCheckSuiteEvent(event: CheckSuiteEvent): SafeHtml | null {
+  if (event.action !== "completed") return null;
+
+  const suite = event.check_suite;
+
+  return markup`${conclusionEmoji(suite.conclusion)} <b>Checks ${suite.conclusion || "completed"}</b> in ${event.repository.name}
+🌿 ${suite.head_branch || "detached"} · <code>${suite.head_sha.slice(0, 7)}</code>${suite.app ? markup` · ${suite.app.name}` : ""}
+
+🔗 <a href="${event.repository.html_url}/commit/${suite.head_sha}">View commit</a>`;
+}
@@ -55,6 +55,49 @@ export async function triggerWorkflow(
   }
 }
 
+/**
+ * Create or update a file on a branch via the contents API
+ * Returns the commit SHA, or null on failure
+ */
+export async function putRepoFile(
+  owner: string,
+  repo: string,
+  path: string,
+  content: string,
+  message: string,
+  branch = "main",
+): Promise<string | null> {
+  try {
+    // Updating an existing file requires its current blob SHA
+    let sha: string | undefined;
+    try {
+      const existing = await githubFetch<{ sha: string }>(
+        `/repos/${owner}/${repo}/contents/${path}?ref=${branch}`,
+      );
+      sha = existing.sha;
+    } catch {
+      sha = undefined;
+    }
+
+    const data = await githubFetch<{ commit: { sha: string } }>(
+      `/repos/${owner}/${repo}/contents/${path}`,
+      {
+        method: "PUT",
+        body: JSON.stringify({
+          message,
+          content: Buffer.from(content, "utf8").toString("base64"),
+          branch,
+          ...(sha && { sha }),
+        }),
+      },
+    );
+    return data.commit.sha;
+  } catch (error) {
+    console.error("Failed to write repo file:", error);
+    return null;
+  }
+}
+
 export async function getLatestWorkflowRun(
   owner: string,
   repo: string,
@@ -83,6 +126,79 @@ export async function getLatestWorkflowRun(
   }
 }
 
+export interface WorkflowRun {
+  id: number;
+  status: string;
+  conclusion: string | null;
+  html_url: string;
+  event: string;
+  created_at: string;
+}
+
+/**
+ * Runs of a workflow, newest first, optionally only those created since a time
+ */
+export async function listWorkflowRuns(
+  owner: string,
+  repo: string,
+  workflowId: string,
+  createdSince?: string,
+): Promise<WorkflowRun[]> {
+  const created = createdSince
+    ? `&created=${encodeURIComponent(`>=${createdSince}`)}`
+    : "";
+
+  try {
+    const data = await githubFetch<{ workflow_runs: WorkflowRun[] }>(
+      `/repos/${owner}/${repo}/actions/workflows/${workflowId}/runs?event=workflow_dispatch&per_page=20${created}`,
+    );
+    return data.workflow_runs;
+  } catch {
+    return [];
+  }
+}
+
+export async function getWorkflowRun(
+  owner: string,
+  repo: string,
+  runId: number,
+): Promise<WorkflowRun | null> {
+  try {
+    return await githubFetch<WorkflowRun>(
+      `/repos/${owner}/${repo}/actions/runs/${runId}`,
+    );
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * First failed job/step of a run, for failure notifications
+ */
+export async function getFailedStep(
+  owner: string,
+  repo: string,
+  runId: number,
+): Promise<{ job: string; step: string | null } | null> {
+  try {
+    const data = await githubFetch<{
+      jobs: Array<{
+        name: string;
+        conclusion: string | null;
+        steps?: Array<{ name: string; conclusion: string | null }>;
+      }>;
+    }>(`/repos/${owner}/${repo}/actions/runs/${runId}/jobs?per_page=50`);
+
+    const job = data.jobs.find((j) => j.conclusion === "failure");
+    if (!job) return null;
+
+    const step = job.steps?.find((s) => s.conclusion === "failure");
+    return { job: job.name, step: step?.name || null };
+  } catch {
+    return null;
+  }
+}
+
 export async function listRepos(owner: string): Promise<string[]> {
   try {
     const data = await githubFetch<Array<{ name: string }>>(
@@ -0,0 +1,116 @@
+/**
+ * HTML DOM
+ * node-html-parser helpers shared by the SEO audit and the crawler
+ */
+
+import { parse, HTMLElement } from "node-html-parser";
+
+export type { HTMLElement };
+
+export function parseHtml(html: string): HTMLElement {
+  return parse(html, {
+    comment: false,
+    // Keep script bodies as raw text so JSON-LD survives parsing
+    blockTextElements: { script: true, noscript: true, style: true, pre: true },
+  });
+}
+
+/**
+ * Content of <meta name="key"> or <meta property="key">, case-insensitive
+ */
+export function metaContent(root: HTMLElement, key: string): string {
+  const wanted = key.toLowerCase();
+  const tag = root.querySelectorAll("meta").find((meta) => {
+    const name = meta.getAttribute("name") || meta.getAttribute("property");
+    return name?.trim().toLowerCase() === wanted;
+  });
+  return tag?.getAttribute("content")?.trim() || "";
+}
+
+/**
+ * <link> tags whose rel list contains the given value
+ */
+export function linksByRel(root: HTMLElement, rel: string): HTMLElement[] {
+  return root
+    .querySelectorAll("link")
+    .filter((link) =>
+      (link.getAttribute("rel") || "").toLowerCase().split(/\s+/).includes(rel),
+    );
+}
+
+/**
+ * Parsed ld+json blocks plus one error per block that isn't valid JSON
+ */
+export function parseJsonLd(root: HTMLElement): {
+  blocks: unknown[];
+  errors: string[];
+} {
+  const blocks: unknown[] = [];
+  const errors: string[] = [];
+
+  const scripts = root
+    .querySelectorAll("script")
+    .filter(
+      (script) =>
+        script.getAttribute("type")?.trim().toLowerCase() ===
+        "application/ld+json",
+    );
+
+  scripts.forEach((script, index) => {
+    try {
+      blocks.push(JSON.parse(script.rawText));
+    } catch (error) {
+      errors.push(
+        `Block ${index + 1}: ${error instanceof Error ? error.message : "invalid JSON"}`,
+      );
+    }
+  });
+
+  return { blocks, errors };
+}
+
+/**
+ * Every @type declared in a JSON-LD value, including @graph members
+ */
+export function jsonLdTypes(node: unknown): string[] {
+  if (Array.isArray(node)) return node.flatMap(jsonLdTypes);
+  if (!node || typeof node !== "object") return [];
+
+  const record = node as Record<string, unknown>;
+  const own = record["@type"];
+  const types = Array.isArray(own) ? own.map(String) : own ? [String(own)] : [];
+
+  return [...types, ...jsonLdTypes(record["@graph"])];
+}
+
+/**
+ * Heading tags in document order, plus level jumps like h2 → h4
+ */
+export function headingOutline(root: HTMLElement): {
+  outline: string[];
+  skippedLevels: string[];
+  h1Count: number;
+} {
+  const outline = root
+    .querySelectorAll("h1, h2, h3, h4, h5, h6")
+    .map((h) => h.tagName.toLowerCase());
+  const skippedLevels: string[] = [];
+
+  // Levels should only ever step down by one
+  let previousLevel = 0;
+  for (const tag of outline) {
+    const level = Number(tag[1]);
+    if (level > previousLevel + 1) {
+      skippedLevels.push(
+        `${previousLevel ? `h${previousLevel}` : "start"} → ${tag}`,
+      );
+    }
+    previousLevel = level;
+  }
+
+  return {
+    outline,
+    skippedLevels,
+    h1Count: outline.filter((h) => h === "h1").length,
+  };
+}
@@ -0,0 +1,292 @@
+/**
+ * JOB TRACKER
+ * Links workflow dispatches to their GitHub Actions runs and reports the outcome
+ *
+ * GitHub's dispatch API returns no run ID, so each job is matched to the
+ * oldest unclaimed workflow_dispatch run created after it was dispatched.
+ */
+
+import { randomBytes } from "crypto";
+import { getStore } from "./storage";
+import {
+  WorkflowRun,
+  getFailedStep,
+  getWorkflowRun,
+  listWorkflowRuns,
+} from "./github";
+import { sendMessage, markup, SafeHtml } from "./telegram";
+import { recordDeployResult } from "./build-memory";
+
+export type JobStatus = "dispatched" | "queued" | "in_progress" | "completed";
+
+export interface Job {
+  id: string;
+  chatId: number;
+  command: string;
+  // Project or business the run is about
+  target: string;
+  owner: string;
+  repo: string;
+  workflow: string;
+  dispatchedAt: string;
+  updatedAt: string;
+  status: JobStatus;
+  runId?: number;
+  runUrl?: string;
+  conclusion?: string | null;
+  failedStep?: string;
+  notified: boolean;
+}
+
+// Runs created slightly before our clock says we dispatched still count
+const CLOCK_SKEW_MS = 10_000;
+
+// Workflows that deploy a /build or /new site - their outcome goes to build memory
+const DEPLOY_WORKFLOWS = ["new-project.yml"];
+
+// Give up on jobs that never report back
+const JOB_TIMEOUT_MS = 6 * 60 * 60 * 1000;
+
+function store() {
+  return getStore<Job>("jobs");
+}
+
+/**
+ * Record a dispatched workflow so it can be tracked to completion
+ */
+export async function createJob(params: {
+  chatId: number;
+  command: string;
+  target: string;
+  owner: string;
+  repo: string;
+  workflow: string;
+}): Promise<Job> {
+  const now = new Date().toISOString();
+  const job: Job = {
+    ...params,
+    id: randomBytes(4).toString("hex"),
+    dispatchedAt: now,
+    updatedAt: now,
+    status: "dispatched",
+    notified: false,
+  };
+
+  await store().set(job.id, job);
+  return job;
+}
+
+export async function listJobs(chatId?: number): Promise<Job[]> {
+  const all = await store().list();
+  return all
+    .filter((j) => chatId === undefined || j.chatId === chatId)
+    .sort((a, b) => b.dispatchedAt.localeCompare(a.dispatchedAt));
+}
+
+export async function listActiveJobs(chatId?: number): Promise<Job[]> {
+  return (await listJobs(chatId)).filter((j) => !j.notified);
+}
+
+/**
+ * Find the run GitHub created for a dispatch
+ */
+async function linkRun(job: Job, claimed: Set<number>): Promise<Job> {
+  const since = new Date(
+    new Date(job.dispatchedAt).getTime() - CLOCK_SKEW_MS,
+  ).toISOString();
+  const runs = await listWorkflowRuns(job.owner, job.repo, job.workflow, since);
+
+  const run = runs
+    .filter((r) => !claimed.has(r.id))
+    .sort((a, b) => a.created_at.localeCompare(b.created_at))[0];
+
+  if (!run) return job;
+
+  claimed.add(run.id);
+  return { ...job, runId: run.id, runUrl: run.html_url };
+}
+
+/**
+ * Fold a run's state into a job, notifying the chat once it completes
+ */
+async function applyRun(job: Job, run: WorkflowRun): Promise<Job> {
+  const updated: Job = {
+    ...job,
+    runId: run.id,
+    runUrl: run.html_url,
+    status: run.status === "completed" ? "completed" : toStatus(run.status),
+    conclusion: run.conclusion,
+    updatedAt: new Date().toISOString(),
+  };
+
+  if (updated.status !== "completed" || updated.notified) return updated;
+
+  if (DEPLOY_WORKFLOWS.includes(job.workflow)) {
+    try {
+      await recordDeployResult(job.target, run.conclusion === "success");
+    } catch (error) {
+      console.error("Build memory deploy result failed:", error);
+    }
+  }
+
+  if (run.conclusion !== "success") {
+    const failed = await getFailedStep(job.owner, job.repo, run.id);
+    if (failed) {
+      updated.failedStep = failed.step
+        ? `${failed.job} › ${failed.step}`
+        : failed.job;
+    }
+  }
+
+  try {
+    await sendMessage(job.chatId, formatJobResult(updated));
+    updated.notified = true;
+  } catch (error) {
+    // Leave unnotified so the next poll retries
+    console.error("Job notification failed:", error);
+  }
+
+  return updated;
+}
+
+function toStatus(status: string): JobStatus {
+  if (status === "in_progress") return "in_progress";
+  return "queued";
+}
+
+/**
+ * Poll GitHub for every unfinished job (cron route and /jobs)
+ */
+export async function syncJobs(chatId?: number): Promise<Job[]> {
+  const all = await listJobs();
+  const claimed = new Set(
+    all.map((j) => j.runId).filter((id): id is number => id !== undefined),
+  );
+  const now = Date.now();
+  const synced: Job[] = [];
+
+  // Oldest first so earlier dispatches claim earlier runs - across every
+  // chat, or /jobs in one chat could take a run meant for another's dispatch
+  const active: Job[] = [];
+
+  for (const original of all.filter((j) => !j.notified).reverse()) {
+    let job = original;
+
+    if (!job.runId) {
+      job = await linkRun(job, claimed);
+      if (job.runId) await store().set(job.id, job);
+    }
+
+    active.push(job);
+  }
+
+  for (const linked of active) {
+    if (chatId !== undefined && linked.chatId !== chatId) continue;
+    let job = linked;
+
+    if (job.runId) {
+      const run = await getWorkflowRun(job.owner, job.repo, job.runId);
+      if (run) job = await applyRun(job, run);
+    }
+
+    if (
+      !job.notified &&
+      now - new Date(job.dispatchedAt).getTime() > JOB_TIMEOUT_MS
+    ) {
+      job = { ...job, notified: true, updatedAt: new Date().toISOString() };
+    }
+
+    await store().set(job.id, job);
+    synced.push(job);
+  }
+
+  return synced;
+}
+
+/**
+ * Apply a workflow_run webhook payload to the job it belongs to
+ */
+export async function handleWorkflowRunEvent(
+  run: WorkflowRun,
+  workflow: string,
+  repository: string,
+): Promise<Job | null> {
+  const all = await listJobs();
+
+  let job = all.find((j) => j.runId === run.id);
+
+  // Like polling, only our own dispatches in the job's repo can be claimed
+  if (!job && run.event === "workflow_dispatch") {
+    // Not linked yet - claim it for the oldest waiting dispatch of this workflow
+    const skewed = new Date(run.created_at).getTime() + CLOCK_SKEW_MS;
+    job = all
+      .filter(
+        (j) =>
+          !j.runId &&
+          !j.notified &&
+          j.workflow === workflow &&
+          `${j.owner}/${j.repo}`.toLowerCase() === repository.toLowerCase() &&
+          new Date(j.dispatchedAt).getTime() <= skewed,
+      )
+      .sort((a, b) => a.dispatchedAt.localeCompare(b.dispatchedAt))[0];
+  }
+
+  if (!job) return null;
+
+  const updated = await applyRun(job, run);
+  await store().set(updated.id, updated);
+  return updated;
+}
+
+/**
+ * Completion message for the originating chat
+ */
+export function formatJobResult(job: Job): SafeHtml {
+  const ok = job.conclusion === "success";
+  const icon = ok ? "✅" : job.conclusion === "cancelled" ? "🚫" : "❌";
+  const outcome = ok
+    ? "finished"
+    : !job.conclusion || job.conclusion === "failure"
+      ? "failed"
+      : job.conclusion.replace("_", " ");
+  const failed = job.failedStep
+    ? markup`\n💥 Failed step: <code>${job.failedStep}</code>`
+    : "";
+  const link = job.runUrl
+    ? markup`\n\n🔗 <a href="${job.runUrl}">View run</a>`
+    : "";
+
+  return markup`${icon} <b>/${job.command} ${outcome}</b>
+
+🎯 Target: <code>${job.target}</code>
+⚙️ Workflow: <code>${job.workflow}</code>${failed}${link}`;
+}
+
+/**
+ * Format in-flight jobs for Telegram display
+ */
+export function formatJobsForTelegram(jobs: Job[]): SafeHtml {
+  if (jobs.length === 0) {
+    return markup`⚙️ <b>Jobs</b>\n\nNo workflow runs in flight.`;
+  }
+
+  const statusEmoji: Record<JobStatus, string> = {
+    dispatched: "📤",
+    queued: "⏳",
+    in_progress: "🔄",
+    completed: "✅",
+  };
+
+  const list = jobs.map((j) => {
+    const age = Math.round(
+      (Date.now() - new Date(j.dispatchedAt).getTime()) / 60000,
+    );
+    const run = j.runUrl
+      ? markup` · <a href="${j.runUrl}">run ${j.runId}</a>`
+      : markup` · waiting for run`;
+    return markup`${statusEmoji[j.status]} <code>/${j.command} ${j.target}</code>
+   ${j.status.replace("_", " ")} · ${age}m ago${run}\n\n`;
+  });
+
+  return markup`⚙️ <b>Jobs in flight</b> (${jobs.length})\n\n${list}`;
+}
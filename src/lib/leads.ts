@@ -0,0 +1,346 @@
+/**
+ * LEAD PIPELINE
+ * Businesses we've researched, pitched or sent proposals to
+ *
+ * /research, /pitch and /proposal create or advance leads automatically;
+ * /lead-stage and /lead-note manage them by hand.
+ */
+
+import { BusinessResearch } from "./research";
+import { getStore, slugify } from "./storage";
+import { escapeHtml } from "./telegram";
+
+export type LeadStage =
+  "researched" | "pitched" | "proposal_sent" | "negotiating" | "won" | "lost";
+
+// Pipeline order - automatic updates only ever move a lead forward
+export const LEAD_STAGES: LeadStage[] = [
+  "researched",
+  "pitched",
+  "proposal_sent",
+  "negotiating",
+  "won",
+  "lost",
+];
+
+const STAGE_LABELS: Record<LeadStage, string> = {
+  researched: "🔍 Researched",
+  pitched: "🎯 Pitched",
+  proposal_sent: "📋 Proposal sent",
+  negotiating: "🤝 Negotiating",
+  won: "🏆 Won",
+  lost: "💤 Lost",
+};
+
+// Days until the next nudge when a lead enters a stage
+const FOLLOW_UP_DAYS: Partial<Record<LeadStage, number>> = {
+  pitched: 3,
+  proposal_sent: 5,
+  negotiating: 2,
+};
+
+const CLOSED_STAGES: LeadStage[] = ["won", "lost"];
+
+export interface LeadNote {
+  text: string;
+  userId?: number;
+  at: string;
+}
+
+export interface LeadEvent {
+  stage: LeadStage;
+  // Command that moved the lead, e.g. "pitch" or "lead-stage"
+  via: string;
+  at: string;
+}
+
+export interface Lead {
+  id: string;
+  businessName: string;
+  sector?: string;
+  location?: string;
+  stage: LeadStage;
+  // ISO date (YYYY-MM-DD) of the next follow-up
+  nextFollowUp?: string;
+  notes: LeadNote[];
+  history: LeadEvent[];
+  research?: BusinessResearch;
+  createdAt: string;
+  updatedAt: string;
+}
+
+function store() {
+  return getStore<Lead>("leads");
+}
+
+export function isLeadStage(value: string): value is LeadStage {
+  return (LEAD_STAGES as string[]).includes(value);
+}
+
+/**
+ * Stage from user input - accepts "proposal-sent", "proposal" and "sent"
+ */
+export function parseLeadStage(value: string): LeadStage | null {
+  const normalized = value.toLowerCase().replace(/-/g, "_");
+  if (isLeadStage(normalized)) return normalized;
+  if (normalized === "proposal" || normalized === "sent") {
+    return "proposal_sent";
+  }
+  return null;
+}
+
+/**
+ * Date from "2026-11-03", "today", "tomorrow", "3d" or "2w" - null if invalid
+ */
+export function parseFollowUpDate(
+  value: string,
+  now = new Date(),
+): string | null {
+  const input = value.trim().toLowerCase();
+
+  if (/^\d{4}-\d{2}-\d{2}$/.test(input)) {
+    return Number.isNaN(Date.parse(input)) ? null : input;
+  }
+
+  const relative = input.match(/^(\d{1,3})([dw])$/);
+  const days =
+    input === "today"
+      ? 0
+      : input === "tomorrow"
+        ? 1
+        : relative
+          ? Number(relative[1]) * (relative[2] === "w" ? 7 : 1)
+          : null;
+
+  return days === null ? null : addDays(now, days);
+}
+
+function addDays(from: Date, days: number): string {
+  return new Date(from.getTime() + days * 86400000).toISOString().slice(0, 10);
+}
+
+export async function getLead(businessName: string): Promise<Lead | null> {
+  return store().get(slugify(businessName));
+}
+
+/**
+ * Exact match first, then the first lead whose name contains the query
+ */
+export async function findLead(query: string): Promise<Lead | null> {
+  const exact = await getLead(query);
+  if (exact) return exact;
+
+  const wanted = slugify(query);
+  if (!wanted) return null;
+  return (await listLeads()).find((lead) => lead.id.includes(wanted)) || null;
+}
+
+/**
+ * Leads, most recently updated first
+ */
+export async function listLeads(stage?: LeadStage): Promise<Lead[]> {
+  const leads = await store().list();
+  return leads
+    .filter((lead) => !stage || lead.stage === stage)
+    .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+}
+
+/**
+ * Open leads whose follow-up date is today or earlier
+ */
+export async function listLeadsDue(now = new Date()): Promise<Lead[]> {
+  const today = now.toISOString().slice(0, 10);
+  const leads = await listLeads();
+  return leads
+    .filter(
+      (lead) =>
+        !CLOSED_STAGES.includes(lead.stage) &&
+        !!lead.nextFollowUp &&
+        lead.nextFollowUp <= today,
+    )
+    .sort((a, b) => (a.nextFollowUp || "").localeCompare(b.nextFollowUp || ""));
+}
+
+function enterStage(lead: Lead, stage: LeadStage, via: string, at: string) {
+  lead.stage = stage;
+  lead.history.push({ stage, via, at });
+
+  const days = FOLLOW_UP_DAYS[stage];
+  lead.nextFollowUp =
+    days === undefined ? undefined : addDays(new Date(at), days);
+}
+
+/**
+ * Create a lead or move it forward after /research, /pitch or /proposal
+ * Never moves a lead backwards or reopens a won/lost one
+ */
+export async function recordLeadActivity(
+  businessName: string,
+  stage: LeadStage,
+  via: string,
+  details: {
+    sector?: string;
+    location?: string;
+    research?: BusinessResearch;
+  } = {},
+): Promise<{ lead: Lead; advanced: boolean }> {
+  const now = new Date().toISOString();
+  const existing = await getLead(businessName);
+
+  const lead: Lead = existing || {
+    id: slugify(businessName),
+    businessName,
+    stage,
+    notes: [],
+    history: [],
+    createdAt: now,
+    updatedAt: now,
+  };
+
+  lead.sector = details.sector || lead.sector;
+  lead.location = details.location || lead.location;
+  lead.research = details.research || lead.research;
+  lead.updatedAt = now;
+
+  const advanced =
+    !existing ||
+    (!CLOSED_STAGES.includes(lead.stage) &&
+      LEAD_STAGES.indexOf(stage) > LEAD_STAGES.indexOf(lead.stage));
+
+  if (advanced) enterStage(lead, stage, via, now);
+
+  await store().set(lead.id, lead);
+  return { lead, advanced };
+}
+
+/**
+ * Set a lead's stage by hand - any direction, including reopening
+ */
+export async function setLeadStage(
+  lead: Lead,
+  stage: LeadStage,
+  nextFollowUp?: string,
+): Promise<Lead> {
+  const now = new Date().toISOString();
+  const updated: Lead = { ...lead, history: [...lead.history], updatedAt: now };
+
+  enterStage(updated, stage, "lead-stage", now);
+  if (nextFollowUp) updated.nextFollowUp = nextFollowUp;
+
+  await store().set(updated.id, updated);
+  return updated;
+}
+
+/**
+ * Append a note, optionally rescheduling the follow-up
+ */
+export async function addLeadNote(
+  lead: Lead,
+  text: string,
+  userId?: number,
+  nextFollowUp?: string,
+): Promise<Lead> {
+  const now = new Date().toISOString();
+  const updated: Lead = {
+    ...lead,
+    notes: [...lead.notes, { text, userId, at: now }],
+    nextFollowUp: nextFollowUp || lead.nextFollowUp,
+    updatedAt: now,
+  };
+
+  await store().set(updated.id, updated);
+  return updated;
+}
+
+export function formatLeadStage(stage: LeadStage): string {
+  return STAGE_LABELS[stage];
+}
+
+function followUpLabel(lead: Lead, today: string): string {
+  if (!lead.nextFollowUp || CLOSED_STAGES.includes(lead.stage)) return "";
+  const overdue = lead.nextFollowUp <= today ? "⏰ " : "";
+  return ` · ${overdue}follow up ${lead.nextFollowUp}`;
+}
+
+/**
+ * Pipeline grouped by stage
+ */
+export function formatLeadListForTelegram(leads: Lead[]): string {
+  if (leads.length === 0) {
+    return `📇 <b>Lead Pipeline</b>\n\nNo leads yet. /research, /pitch and /proposal add them automatically.`;
+  }
+
+  const today = new Date().toISOString().slice(0, 10);
+  const sections = LEAD_STAGES.map((stage) => {
+    const inStage = leads.filter((lead) => lead.stage === stage);
+    if (inStage.length === 0) return "";
+
+    const lines = inStage
+      .slice(0, 10)
+      .map(
+        (lead) =>
+          `• <b>${escapeHtml(lead.businessName)}</b>` +
+          (lead.sector ? ` (${escapeHtml(lead.sector)})` : "") +
+          followUpLabel(lead, today),
+      );
+    const more =
+      inStage.length > 10 ? `\n  …and ${inStage.length - 10} more` : "";
+
+    return `<b>${STAGE_LABELS[stage]}</b> (${inStage.length})\n${lines.join("\n")}${more}`;
+  }).filter(Boolean);
+
+  return `📇 <b>Lead Pipeline</b> (${leads.length})\n\n${sections.join("\n\n")}`;
+}
+
+/**
+ * One lead with its research summary, history and latest notes
+ */
+export function formatLeadForTelegram(lead: Lead): string {
+  const today = new Date().toISOString().slice(0, 10);
+  const lines = [
+    `📇 <b>${escapeHtml(lead.businessName)}</b>`,
+    "",
+    `<b>Stage:</b> ${STAGE_LABELS[lead.stage]}${followUpLabel(lead, today)}`,
+  ];
+
+  if (lead.sector) lines.push(`<b>Sector:</b> ${escapeHtml(lead.sector)}`);
+  if (lead.location) lines.push(`<b>City:</b> ${escapeHtml(lead.location)}`);
+
+  if (lead.research) {
+    const { contact, reviews, description } = lead.research;
+    lines.push("", `<b>Research:</b>`);
+    if (description) lines.push(escapeHtml(description.slice(0, 200)));
+    if (contact.website) lines.push(`🌐 ${escapeHtml(contact.website)}`);
+    if (contact.phone) lines.push(`📞 ${escapeHtml(contact.phone)}`);
+    if (reviews.rating) {
+      lines.push(
+        `⭐ ${reviews.rating}${reviews.count ? ` (${reviews.count} reviews)` : ""}`,
+      );
+    }
+  }
+
+  if (lead.history.length) {
+    lines.push(
+      "",
+      `<b>History:</b>`,
+      ...lead.history
+        .slice(-5)
+        .map(
+          (e) =>
+            `• ${e.at.slice(0, 10)} ${STAGE_LABELS[e.stage]} via /${e.via}`,
+        ),
+    );
+  }
+
+  if (lead.notes.length) {
+    lines.push(
+      "",
+      `<b>Notes:</b>`,
+      ...lead.notes
+        .slice(-5)
+        .map((n) => `• ${n.at.slice(0, 10)} ${escapeHtml(n.text)}`),
+    );
+  }
+
+  return lines.join("\n");
+}
@@ -0,0 +1,378 @@
+/**
+ * UPTIME MONITORS
+ * Scheduled checkUptime runs with history, transition alerts and uptime reports
+ *
+ * History keeps the latest raw samples for response times plus hourly
+ * buckets for 30 days, so the store stays small at one-minute intervals.
+ */
+
+import { getStore, slugify } from "./storage";
+import { checkUptime, UptimeResult } from "./analytics";
+import { sendMessage, markup, SafeHtml } from "./telegram";
+
+export type MonitorStatus = UptimeResult["status"] | "unknown";
+
+export interface Monitor {
+  id: string;
+  chatId: number;
+  // Project name or URL as typed
+  target: string;
+  url: string;
+  intervalMinutes: number;
+  status: MonitorStatus;
+  // When the current down/degraded incident started
+  incidentSince?: string;
+  lastCheckedAt?: string;
+  createdAt: string;
+}
+
+export interface UptimeSample {
+  at: string;
+  status: UptimeResult["status"];
+  responseTime: number;
+  statusCode: number;
+}
+
+interface HourlyBucket {
+  hour: string;
+  checks: number;
+  down: number;
+  degraded: number;
+  totalResponseTime: number;
+}
+
+interface MonitorHistory {
+  monitorId: string;
+  samples: UptimeSample[];
+  hourly: HourlyBucket[];
+}
+
+export interface UptimeWindow {
+  label: string;
+  checks: number;
+  uptimePercent: number | null;
+  avgResponseTime: number | null;
+}
+
+export const DEFAULT_INTERVAL_MINUTES = 5;
+const MAX_SAMPLES = 100;
+const HISTORY_DAYS = 30;
+const HOUR_MS = 60 * 60 * 1000;
+
+const REPORT_WINDOWS: Array<{ label: string; hours: number }> = [
+  { label: "24h", hours: 24 },
+  { label: "7d", hours: 24 * 7 },
+  { label: "30d", hours: 24 * HISTORY_DAYS },
+];
+
+function monitorStore() {
+  return getStore<Monitor>("monitors");
+}
+
+function historyStore() {
+  return getStore<MonitorHistory>("monitor-history");
+}
+
+/**
+ * Resolve a project name or URL to the URL that gets checked
+ */
+export function resolveMonitorUrl(target: string): string {
+  return target.startsWith("http") ? target : `https://${target}.vercel.app`;
+}
+
+/**
+ * Parse "5m", "1h", "30" (minutes) - null when invalid
+ */
+export function parseInterval(value: string): number | null {
+  const match = value.trim().match(/^(\d+)\s*(m|min|h)?$/i);
+  if (!match) return null;
+
+  const amount = Number(match[1]);
+  const minutes = match[2]?.toLowerCase() === "h" ? amount * 60 : amount;
+
+  return minutes >= 1 && minutes <= 24 * 60 ? minutes : null;
+}
+
+export async function addMonitor(params: {
+  chatId: number;
+  target: string;
+  intervalMinutes?: number;
+}): Promise<Monitor> {
+  const url = resolveMonitorUrl(params.target);
+  // Per chat, so two chats can watch the same site independently
+  const id = `${params.chatId}-${slugify(url.replace(/^https?:\/\//, ""))}`;
+  const existing = await monitorStore().get(id);
+
+  const monitor: Monitor = {
+    id,
+    chatId: params.chatId,
+    target: params.target,
+    url,
+    intervalMinutes: params.intervalMinutes || DEFAULT_INTERVAL_MINUTES,
+    status: existing?.status || "unknown",
+    incidentSince: existing?.incidentSince,
+    lastCheckedAt: existing?.lastCheckedAt,
+    createdAt: existing?.createdAt || new Date().toISOString(),
+  };
+
+  await monitorStore().set(id, monitor);
+  return monitor;
+}
+
+/**
+ * Find a chat's monitor by project name, URL or id
+ */
+export async function findMonitor(
+  chatId: number,
+  target: string,
+): Promise<Monitor | null> {
+  const url = resolveMonitorUrl(target);
+  const monitors = await listMonitors(chatId);
+  return (
+    monitors.find(
+      (m) => m.target === target || m.url === url || m.id === target,
+    ) || null
+  );
+}
+
+export async function removeMonitor(
+  chatId: number,
+  target: string,
+): Promise<Monitor | null> {
+  const monitor = await findMonitor(chatId, target);
+  if (!monitor) return null;
+
+  await monitorStore().delete(monitor.id);
+  await historyStore().delete(monitor.id);
+  return monitor;
+}
+
+export async function listMonitors(chatId?: number): Promise<Monitor[]> {
+  const all = await monitorStore().list();
+  return all
+    .filter((m) => chatId === undefined || m.chatId === chatId)
+    .sort((a, b) => a.target.localeCompare(b.target));
+}
+
+async function recordSample(
+  monitorId: string,
+  sample: UptimeSample,
+): Promise<void> {
+  const history = (await historyStore().get(monitorId)) || {
+    monitorId,
+    samples: [],
+    hourly: [],
+  };
+
+  const hour = new Date(
+    Math.floor(new Date(sample.at).getTime() / HOUR_MS) * HOUR_MS,
+  ).toISOString();
+
+  let bucket = history.hourly.find((b) => b.hour === hour);
+  if (!bucket) {
+    bucket = { hour, checks: 0, down: 0, degraded: 0, totalResponseTime: 0 };
+    history.hourly.push(bucket);
+  }
+
+  bucket.checks += 1;
+  bucket.totalResponseTime += sample.responseTime;
+  if (sample.status === "down") bucket.down += 1;
+  if (sample.status === "degraded") bucket.degraded += 1;
+
+  const cutoff = new Date(Date.now() - HISTORY_DAYS * 24 * HOUR_MS)
+    .toISOString()
+    .slice(0, 13);
+
+  await historyStore().set(monitorId, {
+    monitorId,
+    samples: [...history.samples, sample].slice(-MAX_SAMPLES),
+    hourly: history.hourly.filter((b) => b.hour.slice(0, 13) >= cutoff),
+  });
+}
+
+export function formatDuration(ms: number): string {
+  const minutes = Math.round(ms / 60000);
+  if (minutes < 60) return `${minutes}m`;
+
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) return `${hours}h ${minutes % 60}m`;
+
+  return `${Math.floor(hours / 24)}d ${hours % 24}h`;
+}
+
+/**
+ * Alert for a status change - null when nothing worth reporting changed
+ */
+function transitionAlert(
+  monitor: Monitor,
+  previous: MonitorStatus,
+  result: UptimeResult,
+): SafeHtml | null {
+  if (previous === result.status) return null;
+  // First check of a healthy site is not news
+  if (previous === "unknown" && result.status === "up") return null;
+
+  if (result.status === "up") {
+    const downtime = monitor.incidentSince
+      ? formatDuration(Date.now() - new Date(monitor.incidentSince).getTime())
+      : "unknown";
+    return markup`✅ <b>RECOVERED: ${monitor.target}</b>
+
+🌐 ${monitor.url}
+⏱️ Response: ${result.responseTime}ms
+⌛ Downtime: ${downtime}`;
+  }
+
+  const emoji = result.status === "down" ? "🔴" : "🟡";
+  const reason = result.error
+    ? markup`\n⚠️ ${result.error}`
+    : markup`\n📊 HTTP ${result.statusCode} · ${result.responseTime}ms`;
+
+  return markup`${emoji} <b>${result.status.toUpperCase()}: ${monitor.target}</b>
+
+🌐 ${monitor.url}${reason}`;
+}
+
+/**
+ * Check one monitor, store the sample and alert on transitions
+ */
+export async function runMonitorCheck(monitor: Monitor): Promise<Monitor> {
+  const result = await checkUptime(monitor.url);
+  const previous = monitor.status;
+
+  await recordSample(monitor.id, {
+    at: result.lastChecked,
+    status: result.status,
+    responseTime: result.responseTime,
+    statusCode: result.statusCode,
+  });
+
+  const alert = transitionAlert(monitor, previous, result);
+
+  const updated: Monitor = {
+    ...monitor,
+    status: result.status,
+    lastCheckedAt: result.lastChecked,
+    incidentSince:
+      result.status === "up"
+        ? undefined
+        : monitor.incidentSince || result.lastChecked,
+  };
+
+  await monitorStore().set(monitor.id, updated);
+
+  if (alert) {
+    try {
+      await sendMessage(monitor.chatId, alert);
+    } catch (error) {
+      console.error("Monitor alert failed:", error);
+    }
+  }
+
+  return updated;
+}
+
+/**
+ * Run every monitor whose interval has elapsed (cron route)
+ */
+export async function runDueMonitors(now = Date.now()): Promise<Monitor[]> {
+  const due = (await listMonitors()).filter(
+    (m) =>
+      !m.lastCheckedAt ||
+      now - new Date(m.lastCheckedAt).getTime() >=
+        m.intervalMinutes * 60000 - 5000,
+  );
+
+  // Sequential keeps the cron invocation light on memory and sockets
+  const checked: Monitor[] = [];
+  for (const monitor of due) {
+    checked.push(await runMonitorCheck(monitor));
+  }
+  return checked;
+}
+
+/**
+ * Uptime % and average response time over the report windows
+ */
+export async function getUptimeReport(
+  monitorId: string,
+): Promise<{ windows: UptimeWindow[]; samples: UptimeSample[] }> {
+  const history = await historyStore().get(monitorId);
+  const now = Date.now();
+
+  const windows = REPORT_WINDOWS.map(({ label, hours }) => {
+    const since = now - hours * HOUR_MS;
+    const buckets = (history?.hourly || []).filter(
+      (b) => new Date(b.hour).getTime() + HOUR_MS > since,
+    );
+    const checks = buckets.reduce((sum, b) => sum + b.checks, 0);
+    const down = buckets.reduce((sum, b) => sum + b.down, 0);
+    const totalResponseTime = buckets.reduce(
+      (sum, b) => sum + b.totalResponseTime,
+      0,
+    );
+
+    return {
+      label,
+      checks,
+      // Degraded is slow but reachable, so it counts as up
+      uptimePercent:
+        checks > 0
+          ? Math.round(((checks - down) / checks) * 10000) / 100
+          : null,
+      avgResponseTime:
+        checks > 0 ? Math.round(totalResponseTime / checks) : null,
+    };
+  });
+
+  return { windows, samples: history?.samples || [] };
+}
+
+const statusEmoji: Record<MonitorStatus, string> = {
+  up: "🟢",
+  degraded: "🟡",
+  down: "🔴",
+  unknown: "⚪",
+};
+
+export function formatMonitorListForTelegram(monitors: Monitor[]): SafeHtml {
+  if (monitors.length === 0) {
+    return markup`📡 <b>Monitors</b>\n\nNo monitors yet. Add one with <code>/monitor add [project|url] [interval]</code>.`;
+  }
+
+  const list = monitors.map((m) => {
+    const checked = m.lastCheckedAt
+      ? new Date(m.lastCheckedAt).toLocaleTimeString()
+      : "pending";
+    return markup`${statusEmoji[m.status]} <b>${m.target}</b> · every ${m.intervalMinutes}m
+   🌐 ${m.url}
+   🕐 Last check: ${checked}\n\n`;
+  });
+
+  return markup`📡 <b>Monitors</b> (${monitors.length})\n\n${list}`;
+}
+
+export function formatUptimeReportForTelegram(
+  monitor: Monitor,
+  report: { windows: UptimeWindow[]; samples: UptimeSample[] },
+): SafeHtml {
+  const windows = report.windows.map((w) =>
+    w.uptimePercent === null
+      ? markup`• ${w.label}: no data\n`
+      : markup`• ${w.label}: <b>${w.uptimePercent}%</b> · avg ${w.avgResponseTime}ms (${w.checks} checks)\n`,
+  );
+
+  const recent = report.samples.slice(-10).map((s) => s.responseTime);
+  const incident =
+    monitor.status !== "up" && monitor.incidentSince
+      ? markup`\n⚠️ ${monitor.status} for ${formatDuration(Date.now() - new Date(monitor.incidentSince).getTime())}`
+      : "";
+
+  return markup`📊 <b>UPTIME REPORT: ${monitor.target}</b>
+
+${statusEmoji[monitor.status]} Status: <b>${monitor.status.toUpperCase()}</b>${incident}
+🌐 ${monitor.url}
+
+${windows}
+⏱️ Recent response times: ${recent.length ? recent.join(", ") + "ms" : "none yet"}`;
+}
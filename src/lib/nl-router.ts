@@ -0,0 +1,118 @@
+/**
+ * NATURAL-LANGUAGE ROUTING
+ * Turns a free-text message into one bot command using Claude tool-use
+ *
+ * Every command the caller may run becomes a tool; Claude either calls one
+ * (command + args) or answers in text, e.g. to ask for a missing project.
+ */
+
+import Anthropic from "@anthropic-ai/sdk";
+
+const anthropic = new Anthropic({
+  apiKey: process.env.ANTHROPIC_API_KEY,
+});
+
+const MODEL = process.env.ANTHROPIC_MODEL || "claude-sonnet-4-5-20250929";
+
+export interface CommandTool {
+  name: string;
+  description: string;
+  usage?: string;
+}
+
+export interface InterpretedMessage {
+  success: boolean;
+  command?: string;
+  args?: string[];
+  // Claude's answer when no command fits or an argument is missing
+  reply?: string;
+  error?: string;
+}
+
+const SYSTEM_PROMPT = `You route messages from MachineMind's Telegram operators to bot commands.
+
+- When the message asks for something a command does, call exactly one tool.
+- Pass arguments in the order given by the tool's usage. Project names are lowercase slugs (e.g. "Simmer Down" → simmer-down); business names keep their spelling.
+- If no command fits, or a required argument is missing, do not call a tool. Reply in one or two short sentences saying what you need.`;
+
+/**
+ * Whether free-text messages are routed to commands
+ * On when ANTHROPIC_API_KEY is set, unless NATURAL_LANGUAGE_ROUTING=off
+ */
+export function isNaturalLanguageEnabled(): boolean {
+  const setting = (process.env.NATURAL_LANGUAGE_ROUTING || "").toLowerCase();
+  return (
+    !!process.env.ANTHROPIC_API_KEY && !["off", "false", "0"].includes(setting)
+  );
+}
+
+function toAnthropicTool(tool: CommandTool): Anthropic.Tool {
+  return {
+    name: tool.name,
+    description: tool.usage
+      ? `${tool.description}. Usage: /${tool.name} ${tool.usage}`
+      : tool.description,
+    input_schema: {
+      type: "object",
+      properties: {
+        args: {
+          type: "array",
+          items: { type: "string" },
+          description: tool.usage
+            ? `Arguments in order: ${tool.usage}`
+            : "No arguments - pass an empty array",
+        },
+      },
+      required: ["args"],
+    },
+  };
+}
+
+/**
+ * Ask Claude which command a message means
+ */
+export async function interpretMessage(
+  text: string,
+  tools: CommandTool[],
+): Promise<InterpretedMessage> {
+  if (!process.env.ANTHROPIC_API_KEY) {
+    return { success: false, error: "ANTHROPIC_API_KEY not configured" };
+  }
+
+  try {
+    const response = await anthropic.messages.create({
+      model: MODEL,
+      max_tokens: 512,
+      system: SYSTEM_PROMPT,
+      tools: tools.map(toAnthropicTool),
+      tool_choice: { type: "auto" },
+      messages: [{ role: "user", content: text }],
+    });
+
+    const toolUse = response.content.find((block) => block.type === "tool_use");
+
+    if (toolUse && tools.some((t) => t.name === toolUse.name)) {
+      const input = toolUse.input as { args?: unknown };
+      const args = Array.isArray(input.args)
+        ? input.args
+            .filter((arg): arg is string => typeof arg === "string")
+            .map((arg) => arg.trim())
+            .filter(Boolean)
+        : [];
+
+      return { success: true, command: toolUse.name, args };
+    }
+
+    const reply = response.content
+      .map((block) => (block.type === "text" ? block.text : ""))
+      .join("")
+      .trim();
+
+    return { success: true, reply };
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Interpretation failed",
+    };
+  }
+}
@@ -0,0 +1,87 @@
+/**
+ * ROLE-BASED PERMISSIONS
+ * viewer < operator < admin, optionally scoped to specific projects
+ *
+ * TELEGRAM_USER_ROLES="111:admin,222:operator:simmer-down|sofia-brain,333:viewer"
+ * IDs only listed in AUTHORIZED_TELEGRAM_IDS get DEFAULT_TELEGRAM_ROLE (admin)
+ */
+
+export type Role = "viewer" | "operator" | "admin";
+
+export const ROLES: Role[] = ["viewer", "operator", "admin"];
+
+export interface UserPermissions {
+  userId: number;
+  role: Role;
+  // null = every project
+  projects: string[] | null;
+}
+
+export function isRole(value: string): value is Role {
+  return (ROLES as string[]).includes(value);
+}
+
+function defaultRole(): Role {
+  const configured = process.env.DEFAULT_TELEGRAM_ROLE?.toLowerCase() || "";
+  return isRole(configured) ? configured : "admin";
+}
+
+/**
+ * Build the permission table from environment config
+ */
+export function loadUserPermissions(): Map<number, UserPermissions> {
+  const table = new Map<number, UserPermissions>();
+
+  const authorizedIds =
+    process.env.AUTHORIZED_TELEGRAM_IDS?.split(",")
+      .map(Number)
+      .filter(Boolean) || [];
+
+  for (const userId of authorizedIds) {
+    table.set(userId, { userId, role: defaultRole(), projects: null });
+  }
+
+  for (const entry of (process.env.TELEGRAM_USER_ROLES || "").split(",")) {
+    const [id, role, projects] = entry.split(":").map((part) => part.trim());
+    const userId = Number(id);
+
+    if (!userId || !role || !isRole(role.toLowerCase())) {
+      if (entry.trim()) console.error(`Invalid role entry: ${entry}`);
+      continue;
+    }
+
+    table.set(userId, {
+      userId,
+      role: role.toLowerCase() as Role,
+      projects: projects
+        ? projects
+            .split("|")
+            .map((p) => p.trim().toLowerCase())
+            .filter(Boolean)
+        : null,
+    });
+  }
+
+  return table;
+}
+
+export function getUserPermissions(userId: number): UserPermissions | null {
+  return loadUserPermissions().get(userId) || null;
+}
+
+/**
+ * Whether a role meets the required minimum
+ */
+export function hasRole(role: Role, required: Role): boolean {
+  return ROLES.indexOf(role) >= ROLES.indexOf(required);
+}
+
+export function canAccessProject(
+  permissions: UserPermissions,
+  project: string,
+): boolean {
+  return (
+    permissions.projects === null ||
+    permissions.projects.includes(project.toLowerCase())
+  );
+}
@@ -0,0 +1,193 @@
+/**
+ * PRICING CONFIG
+ * MachineMind pricing tiers and per-sector booking economics behind
+ * /roi, /pitch and /proposal
+ *
+ * Built-in defaults are merged with admin overrides from the
+ * "pricing-tiers" and "sector-economics" stores. All amounts are USD.
+ */
+
+import { getStore } from "./storage";
+import { escapeHtml } from "./telegram";
+
+export interface PricingTier {
+  id: string;
+  name: string;
+  setup: number;
+  monthly: number;
+  updatedAt?: string;
+}
+
+export interface SectorEconomics {
+  sector: string;
+  // Average value of one booking
+  avgBooking: number;
+  // Bookings lost each month to slow replies and a weak web presence
+  monthlyLost: number;
+  updatedAt?: string;
+}
+
+export interface PricingConfig {
+  tiers: Record<string, PricingTier>;
+  sectors: Record<string, SectorEconomics>;
+}
+
+export const DEFAULT_TIER = "professional";
+
+const DEFAULT_TIERS: PricingTier[] = [
+  { id: "starter", name: "Starter", setup: 997, monthly: 497 },
+  { id: "professional", name: "Professional", setup: 1997, monthly: 997 },
+  { id: "enterprise", name: "Enterprise", setup: 4997, monthly: 1997 },
+];
+
+const DEFAULT_SECTOR_ECONOMICS: SectorEconomics[] = [
+  { sector: "hotel", avgBooking: 250, monthlyLost: 15 },
+  { sector: "restaurant", avgBooking: 75, monthlyLost: 30 },
+  { sector: "nightclub", avgBooking: 200, monthlyLost: 20 },
+  { sector: "yacht", avgBooking: 2500, monthlyLost: 4 },
+  { sector: "villa", avgBooking: 500, monthlyLost: 8 },
+  { sector: "spa", avgBooking: 150, monthlyLost: 12 },
+  { sector: "tour", avgBooking: 100, monthlyLost: 25 },
+  { sector: "hospitality", avgBooking: 150, monthlyLost: 15 },
+];
+
+function tierStore() {
+  return getStore<PricingTier>("pricing-tiers");
+}
+
+function sectorStore() {
+  return getStore<SectorEconomics>("sector-economics");
+}
+
+const byKey = <T>(items: T[], key: (item: T) => string) =>
+  Object.fromEntries(items.map((item) => [key(item), item]));
+
+/**
+ * Defaults with admin overrides applied
+ */
+export async function getPricingConfig(): Promise<PricingConfig> {
+  const [tiers, sectors] = await Promise.all([
+    tierStore().list(),
+    sectorStore().list(),
+  ]);
+
+  return {
+    tiers: byKey([...DEFAULT_TIERS, ...tiers], (t) => t.id),
+    sectors: byKey([...DEFAULT_SECTOR_ECONOMICS, ...sectors], (s) => s.sector),
+  };
+}
+
+/**
+ * Economics for a sector, falling back to the hospitality averages
+ */
+export function getSectorEconomics(
+  config: PricingConfig,
+  sector: string,
+): SectorEconomics {
+  return config.sectors[sector] || config.sectors.hospitality;
+}
+
+/**
+ * Update a tier - new tiers need both setup and monthly
+ */
+export async function setTierPricing(
+  id: string,
+  values: Partial<Pick<PricingTier, "name" | "setup" | "monthly">>,
+): Promise<{ success: boolean; tier?: PricingTier; error?: string }> {
+  const normalized = id.toLowerCase();
+  const existing = (await getPricingConfig()).tiers[normalized];
+
+  if (
+    !existing &&
+    (values.setup === undefined || values.monthly === undefined)
+  ) {
+    return {
+      success: false,
+      error: `New tier "${normalized}" needs both --setup and --monthly`,
+    };
+  }
+
+  const tier: PricingTier = {
+    id: normalized,
+    name:
+      values.name ||
+      existing?.name ||
+      normalized.charAt(0).toUpperCase() + normalized.slice(1),
+    setup: values.setup ?? existing.setup,
+    monthly: values.monthly ?? existing.monthly,
+    updatedAt: new Date().toISOString(),
+  };
+
+  await tierStore().set(normalized, tier);
+  return { success: true, tier };
+}
+
+/**
+ * Update a sector's economics - new sectors need both values
+ */
+export async function setSectorEconomics(
+  sector: string,
+  values: Partial<Pick<SectorEconomics, "avgBooking" | "monthlyLost">>,
+): Promise<{ success: boolean; economics?: SectorEconomics; error?: string }> {
+  const normalized = sector.toLowerCase();
+  const existing = (await getPricingConfig()).sectors[normalized];
+
+  if (
+    !existing &&
+    (values.avgBooking === undefined || values.monthlyLost === undefined)
+  ) {
+    return {
+      success: false,
+      error: `New sector "${normalized}" needs both --avg-booking and --lost-per-month`,
+    };
+  }
+
+  const economics: SectorEconomics = {
+    sector: normalized,
+    avgBooking: values.avgBooking ?? existing.avgBooking,
+    monthlyLost: values.monthlyLost ?? existing.monthlyLost,
+    updatedAt: new Date().toISOString(),
+  };
+
+  await sectorStore().set(normalized, economics);
+  return { success: true, economics };
+}
+
+/**
+ * Parse an amount flag like "1997", "1,997" or "1_997" - null if invalid
+ */
+export function parseAmount(value: string | undefined): number | null {
+  if (value === undefined) return null;
+  const amount = Number(value.replace(/[,_\s]/g, ""));
+  return Number.isFinite(amount) && amount > 0 ? amount : null;
+}
+
+/**
+ * Current tiers and sector economics, marking admin overrides
+ */
+export function formatPricingForTelegram(config: PricingConfig): string {
+  const edited = (updatedAt?: string) => (updatedAt ? " ✏️" : "");
+
+  const tiers = Object.values(config.tiers)
+    .map(
+      (t) =>
+        `• <b>${escapeHtml(t.name)}</b> (<code>${t.id}</code>)${edited(t.updatedAt)}\n` +
+        `   Setup $${t.setup.toLocaleString()} · $${t.monthly.toLocaleString()}/mo`,
+    )
+    .join("\n");
+
+  const sectors = Object.values(config.sectors)
+    .map(
+      (s) =>
+        `• <code>${s.sector}</code>${edited(s.updatedAt)} — ` +
+        `$${s.avgBooking.toLocaleString()}/booking · ${s.monthlyLost} lost/mo`,
+    )
+    .join("\n");
+
+  return (
+    `💲 <b>Pricing Config</b> (USD)\n\n` +
+    `<b>Tiers:</b>\n${tiers}\n\n` +
+    `<b>Sector Economics:</b>\n${sectors}\n\n` +
+    `✏️ = edited by an admin`
+  );
+}
@@ -0,0 +1,92 @@
+/**
+ * PROJECT OWNERSHIP
+ * Which chats hear about a Vercel project's deployments
+ *
+ * Resolution order:
+ * 1. Chats that ran /watch [project]
+ * 2. The chat that launched the project (build memory)
+ * 3. VERCEL_ALERT_CHAT_ID fallback
+ */
+
+import { getStore, slugify } from "./storage";
+import { listBuildMemories } from "./build-memory";
+
+export interface ProjectWatch {
+  project: string;
+  chatIds: number[];
+  updatedAt: string;
+}
+
+function store() {
+  return getStore<ProjectWatch>("project-watchers");
+}
+
+export async function watchProject(
+  chatId: number,
+  project: string,
+): Promise<ProjectWatch> {
+  const name = project.toLowerCase();
+  const existing = await store().get(name);
+
+  const watch: ProjectWatch = {
+    project: name,
+    chatIds: [...new Set([...(existing?.chatIds || []), chatId])],
+    updatedAt: new Date().toISOString(),
+  };
+
+  await store().set(name, watch);
+  return watch;
+}
+
+/**
+ * Stop a chat watching a project - false when it wasn't watching
+ */
+export async function unwatchProject(
+  chatId: number,
+  project: string,
+): Promise<boolean> {
+  const name = project.toLowerCase();
+  const existing = await store().get(name);
+  if (!existing?.chatIds.includes(chatId)) return false;
+
+  const chatIds = existing.chatIds.filter((id) => id !== chatId);
+
+  if (chatIds.length === 0) {
+    await store().delete(name);
+  } else {
+    await store().set(name, {
+      ...existing,
+      chatIds,
+      updatedAt: new Date().toISOString(),
+    });
+  }
+
+  return true;
+}
+
+export async function listWatchedProjects(chatId: number): Promise<string[]> {
+  const all = await store().list();
+  return all
+    .filter((w) => w.chatIds.includes(chatId))
+    .map((w) => w.project)
+    .sort();
+}
+
+/**
+ * Chats that own a project, per the resolution order above
+ */
+export async function getProjectChats(project: string): Promise<number[]> {
+  const name = project.toLowerCase();
+
+  const watch = await store().get(name);
+  if (watch?.chatIds.length) return watch.chatIds;
+
+  // Generated projects are named after the business slug
+  const launched = (await listBuildMemories(100)).find(
+    (m) => slugify(m.businessName) === name && Number(m.chatId),
+  );
+  if (launched) return [Number(launched.chatId)];
+
+  const fallback = Number(process.env.VERCEL_ALERT_CHAT_ID);
+  return fallback ? [fallback] : [];
+}
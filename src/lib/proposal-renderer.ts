@@ -0,0 +1,642 @@
+/**
+ * PROPOSAL RENDERER
+ * Branded HTML and PDF documents for /proposal and /proposal-get
+ *
+ * The theme comes from the business's latest build config (build memory)
+ * or, before anything is built, the sector's INTERFACE_PERFECTION_ENGINE
+ * tokens. The PDF is written by hand with the standard PDF fonts, so no
+ * rendering dependency or headless browser is needed.
+ */
+
+import { ProposalResult, formatPayback } from "./client-acquisition";
+import { formatMoney, formatRate } from "./currency";
+import { findBuildMemory } from "./build-memory";
+import { SECTOR_TEMPLATES, selectGenesisProtocol } from "./genesis-engine";
+import { getStore, slugify } from "./storage";
+import { escapeHtml, TelegramFile } from "./telegram";
+
+export interface ProposalTheme {
+  primary: string;
+  accent: string;
+  background: string;
+  text: string;
+  headingFont: string;
+  bodyFont: string;
+  // Where the tokens came from
+  source: "build" | "sector";
+}
+
+export interface StoredProposal {
+  id: string;
+  businessName: string;
+  sector: string;
+  result: ProposalResult;
+  theme: ProposalTheme;
+  createdAt: string;
+}
+
+// Dark neutral for text whenever a brand color is unreadable on white
+const INK = "#1a1a1a";
+const MUTED = "#6b6b6b";
+const ROW_SHADE = "#f4f4f6";
+
+function store() {
+  return getStore<StoredProposal>("proposals");
+}
+
+// ============================================================================
+// THEME
+// ============================================================================
+
+/**
+ * Colors and fonts for a business - its latest build, else its sector
+ */
+export async function resolveProposalTheme(
+  businessName: string,
+  sector: string,
+): Promise<ProposalTheme> {
+  const memory = await findBuildMemory(businessName);
+  const design =
+    memory && slugify(memory.businessName) === slugify(businessName)
+      ? memory.buildConfig?.design
+      : undefined;
+
+  if (design) {
+    return {
+      ...design.colors,
+      headingFont: design.typography.heading,
+      bodyFont: design.typography.body,
+      source: "build",
+    };
+  }
+
+  // Same merge generateBuildConfig does, minus the research colors
+  const template = SECTOR_TEMPLATES[sector] || SECTOR_TEMPLATES.hospitality;
+  const tokens = selectGenesisProtocol(sector).interfaceTokens;
+
+  return {
+    primary: template.colorScheme.primary,
+    accent: tokens.accent || template.colorScheme.accent,
+    background: tokens.background || template.colorScheme.background,
+    text: template.colorScheme.text,
+    headingFont: tokens.typography_heading || template.typography.heading,
+    bodyFont: tokens.typography_body || template.typography.body,
+    source: "sector",
+  };
+}
+
+/**
+ * Theme with every value safe to drop into CSS and PDF operators
+ */
+function sanitizeTheme(theme: ProposalTheme): ProposalTheme {
+  const color = (value: string, fallback: string) =>
+    /^#([0-9a-f]{3}|[0-9a-f]{6})$/i.test(value) ? value : fallback;
+  const font = (value: string, fallback: string) =>
+    value.replace(/[^a-z0-9 -]/gi, "").trim() || fallback;
+
+  return {
+    primary: color(theme.primary, INK),
+    accent: color(theme.accent, "#d4af37"),
+    background: color(theme.background, "#0f0f1a"),
+    text: color(theme.text, "#ffffff"),
+    headingFont: font(theme.headingFont, "Playfair Display"),
+    bodyFont: font(theme.bodyFont, "Inter"),
+    source: theme.source,
+  };
+}
+
+function toRgb(hex: string): [number, number, number] {
+  const digits =
+    hex.length === 4
+      ? hex
+          .slice(1)
+          .split("")
+          .map((d) => d + d)
+          .join("")
+      : hex.slice(1);
+  return [0, 2, 4].map((i) => parseInt(digits.slice(i, i + 2), 16) / 255) as [
+    number,
+    number,
+    number,
+  ];
+}
+
+// WCAG relative luminance
+function luminance(hex: string): number {
+  const [r, g, b] = toRgb(hex).map((c) =>
+    c <= 0.03928 ? c / 12.92 : ((c + 0.055) / 1.055) ** 2.4,
+  );
+  return 0.2126 * r + 0.7152 * g + 0.0722 * b;
+}
+
+function contrast(a: string, b: string): number {
+  const [light, dark] = [luminance(a), luminance(b)].sort((x, y) => y - x);
+  return (light + 0.05) / (dark + 0.05);
+}
+
+/**
+ * The color if it reads on the background (3:1, large text), else a fallback
+ */
+function readable(color: string, background: string, fallback = INK): string {
+  return contrast(color, background) >= 3 ? color : fallback;
+}
+
+/**
+ * Text color for a filled band - the brand text color when it reads
+ */
+function onFill(fill: string, preferred: string): string {
+  if (contrast(preferred, fill) >= 4.5) return preferred;
+  return contrast("#ffffff", fill) >= contrast(INK, fill) ? "#ffffff" : INK;
+}
+
+// ============================================================================
+// CONTENT
+// ============================================================================
+
+interface ProposalTable {
+  title: string;
+  header: [string, string];
+  rows: Array<[string, string]>;
+}
+
+/**
+ * Investment and ROI tables shared by both renderers
+ */
+function proposalTables(result: ProposalResult): ProposalTable[] {
+  const p = result.proposal;
+  const money = (amount: number) => formatMoney(amount, p.investment.currency);
+
+  return [
+    {
+      title: "Investment",
+      header: ["Item", `Amount (${p.investment.currency})`],
+      rows: [
+        ["Setup", money(p.investment.setup)],
+        ["Monthly", money(p.investment.monthly)],
+        ["First year", money(p.roi.machineMineCost)],
+      ],
+    },
+    {
+      title: "Return on Investment",
+      header: ["Metric", "Value"],
+      rows: [
+        ["Avg booking value", money(p.roi.avgBookingValue)],
+        ["Lost bookings / month", `~${p.roi.monthlyLostBookings}`],
+        ["Annual revenue loss", money(p.roi.annualLoss)],
+        ["Annual investment", money(p.roi.machineMineCost)],
+        ["Net ROI", money(p.roi.netROI)],
+        ["Return multiple", `${p.roi.roiMultiple}x`],
+        ["Payback", formatPayback(p.roi)],
+      ],
+    },
+  ];
+}
+
+function dateLabel(createdAt: string): string {
+  return createdAt.slice(0, 10);
+}
+
+// ============================================================================
+// HTML
+// ============================================================================
+
+/**
+ * Standalone, print-ready HTML proposal
+ */
+export function renderProposalHtml(proposal: StoredProposal): string {
+  const p = proposal.result.proposal;
+  const theme = sanitizeTheme(proposal.theme);
+  const heading = readable(theme.primary, "#ffffff");
+  const fonts = [theme.headingFont, theme.bodyFont]
+    .map((f) => `family=${f.replace(/ /g, "+")}:wght@400;600;700`)
+    .join("&");
+
+  const list = (items: string[]) =>
+    items.map((i) => `<li>${escapeHtml(i)}</li>`).join("");
+  const section = (title: string, body: string) =>
+    `<section><h2>${escapeHtml(title)}</h2>${body}</section>`;
+  const tables = proposalTables(proposal.result)
+    .map((t) =>
+      section(
+        t.title,
+        `<table><thead><tr><th>${escapeHtml(t.header[0])}</th><th>${escapeHtml(t.header[1])}</th></tr></thead><tbody>` +
+          t.rows
+            .map(
+              ([label, value]) =>
+                `<tr><td>${escapeHtml(label)}</td><td>${escapeHtml(value)}</td></tr>`,
+            )
+            .join("") +
+          `</tbody></table>`,
+      ),
+    )
+    .join("\n");
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>Proposal: ${escapeHtml(proposal.businessName)}</title>
+<link rel="stylesheet" href="https://fonts.googleapis.com/css2?${fonts}&display=swap">
+<style>
+  :root {
+    --primary: ${theme.primary};
+    --accent: ${theme.accent};
+    --background: ${theme.background};
+    --text: ${theme.text};
+    --heading: ${heading};
+  }
+  * { box-sizing: border-box; }
+  body { margin: 0; font-family: "${theme.bodyFont}", system-ui, sans-serif; color: ${INK}; line-height: 1.5; background: #ffffff; }
+  h1, h2 { font-family: "${theme.headingFont}", Georgia, serif; line-height: 1.2; letter-spacing: -0.02em; }
+  header { background: var(--background); color: ${onFill(theme.background, theme.text)}; padding: 64px 48px 48px; border-bottom: 4px solid var(--accent); }
+  header .label { text-transform: uppercase; letter-spacing: 0.2em; font-size: 12px; color: ${readable(theme.accent, theme.background, onFill(theme.background, theme.text))}; }
+  header h1 { margin: 8px 0 16px; font-size: 44px; }
+  header p { margin: 0; opacity: 0.85; }
+  main { max-width: 860px; margin: 0 auto; padding: 24px 48px 64px; }
+  section { margin-top: 40px; }
+  h2 { color: var(--heading); font-size: 24px; margin: 0 0 12px; padding-bottom: 8px; border-bottom: 1px solid var(--accent); }
+  ul, ol { padding-left: 20px; }
+  li { margin: 4px 0; }
+  table { width: 100%; border-collapse: collapse; }
+  th { background: var(--accent); color: ${onFill(theme.accent, theme.text)}; text-align: left; padding: 10px 12px; }
+  td { padding: 10px 12px; border-bottom: 1px solid #e5e5e5; }
+  td:last-child, th:last-child { text-align: right; }
+  tbody tr:nth-child(even) { background: ${ROW_SHADE}; }
+  .meta { color: ${MUTED}; font-size: 14px; }
+  footer { color: ${MUTED}; font-size: 12px; text-align: center; padding: 24px; border-top: 1px solid #e5e5e5; }
+  @media print { header { -webkit-print-color-adjust: exact; print-color-adjust: exact; } th, tbody tr { -webkit-print-color-adjust: exact; print-color-adjust: exact; } }
+</style>
+</head>
+<body>
+<header>
+  <div class="label">Proposal · ${escapeHtml(p.investment.tier)}</div>
+  <h1>${escapeHtml(proposal.businessName)}</h1>
+  <p>Prepared by MachineMind · ${dateLabel(proposal.createdAt)}</p>
+</header>
+<main>
+${section("Executive Summary", `<p>${escapeHtml(p.executive_summary)}</p>`)}
+${section("The Problem", `<p>${escapeHtml(p.problem_statement)}</p>`)}
+${section("Our Solution", `<p>${escapeHtml(p.solution)}</p>`)}
+${section("Deliverables", `<ul>${list(p.deliverables)}</ul>`)}
+${section("Timeline", `<p>${escapeHtml(p.timeline)}</p>`)}
+${tables}
+<p class="meta">💱 ${escapeHtml(formatRate(p.investment.exchangeRate))}</p>
+${section("Next Steps", `<ol>${list(p.next_steps)}</ol>`)}
+</main>
+<footer>MachineMind · ${escapeHtml(proposal.businessName)} · ${dateLabel(proposal.createdAt)}</footer>
+</body>
+</html>
+`;
+}
+
+// ============================================================================
+// PDF
+// ============================================================================
+
+const PAGE_WIDTH = 595; // A4 in points
+const PAGE_HEIGHT = 842;
+const MARGIN = 50;
+const CONTENT_WIDTH = PAGE_WIDTH - MARGIN * 2;
+
+// Standard PDF fonts - F3 is picked to match the brand's heading font
+type PdfFont = "F1" | "F2" | "F3";
+
+const SERIF_FONTS =
+  /playfair|cormorant|garamond|georgia|times|merriweather|lora|libre baskerville|dm serif|serif/i;
+
+// WinAnsi codes for the non-Latin-1 characters proposals actually use
+const WIN_ANSI: Record<string, number> = {
+  "€": 0x80,
+  "…": 0x85,
+  "•": 0x95,
+  "‘": 0x91,
+  "’": 0x92,
+  "“": 0x93,
+  "”": 0x94,
+  "–": 0x96,
+  "—": 0x97,
+};
+
+/**
+ * PDF string literal in WinAnsiEncoding - anything else becomes "?"
+ */
+function pdfText(value: string): string {
+  let out = "";
+  for (const char of value.replace(/[\u00a0\u202f]/g, " ")) {
+    const code = WIN_ANSI[char] ?? char.codePointAt(0) ?? 63;
+    if (char === "(" || char === ")" || char === "\\") out += `\\${char}`;
+    else if (code >= 32 && code < 127) out += char;
+    else if (code < 256 && (code >= 160 || WIN_ANSI[char])) {
+      out += `\\${code.toString(8).padStart(3, "0")}`;
+    } else out += "?";
+  }
+  return `(${out})`;
+}
+
+function pdfColor(hex: string, op: "rg" | "RG"): string {
+  return `${toRgb(hex)
+    .map((c) => c.toFixed(3))
+    .join(" ")} ${op}`;
+}
+
+// Average glyph width as a share of the font size - close enough to wrap
+function textWidth(value: string, size: number, font: PdfFont): number {
+  return value.length * size * (font === "F1" ? 0.5 : 0.55);
+}
+
+function wrap(value: string, size: number, font: PdfFont, width: number) {
+  const lines: string[] = [];
+  let line = "";
+
+  for (const word of value.split(/\s+/).filter(Boolean)) {
+    const candidate = line ? `${line} ${word}` : word;
+    if (line && textWidth(candidate, size, font) > width) {
+      lines.push(line);
+      line = word;
+    } else {
+      line = candidate;
+    }
+  }
+  if (line) lines.push(line);
+  return lines;
+}
+
+/**
+ * Minimal multi-page PDF of the proposal
+ */
+export function renderProposalPdf(proposal: StoredProposal): Uint8Array {
+  const p = proposal.result.proposal;
+  const theme = sanitizeTheme(proposal.theme);
+  const heading = readable(theme.primary, "#ffffff");
+  const headerText = onFill(theme.background, theme.text);
+
+  const pages: string[][] = [];
+  let ops: string[] = [];
+  let y = 0;
+
+  const text = (
+    value: string,
+    x: number,
+    at: number,
+    font: PdfFont,
+    size: number,
+    color: string,
+  ) =>
+    ops.push(
+      `BT ${pdfColor(color, "rg")} /${font} ${size} Tf ${x.toFixed(1)} ${at.toFixed(1)} Td ${pdfText(value)} Tj ET`,
+    );
+  const rect = (x: number, at: number, w: number, h: number, fill: string) =>
+    ops.push(`${pdfColor(fill, "rg")} ${x} ${at.toFixed(1)} ${w} ${h} re f`);
+
+  const newPage = () => {
+    ops = [];
+    pages.push(ops);
+    y = PAGE_HEIGHT - MARGIN;
+  };
+  const ensure = (height: number) => {
+    if (y - height < MARGIN + 20) newPage();
+  };
+
+  const paragraph = (value: string, indent = 0, font: PdfFont = "F1") => {
+    for (const line of wrap(value, 10.5, font, CONTENT_WIDTH - indent)) {
+      ensure(15);
+      text(line, MARGIN + indent, y, font, 10.5, INK);
+      y -= 15;
+    }
+  };
+
+  const sectionTitle = (title: string) => {
+    ensure(60);
+    y -= 14;
+    text(title, MARGIN, y, "F3", 15, heading);
+    y -= 8;
+    rect(MARGIN, y, CONTENT_WIDTH, 1, theme.accent);
+    y -= 18;
+  };
+
+  const items = (values: string[], numbered: boolean) =>
+    values.forEach((value, i) => {
+      const lines = wrap(value, 10.5, "F1", CONTENT_WIDTH - 16);
+      lines.forEach((line, j) => {
+        ensure(15);
+        if (j === 0) {
+          text(numbered ? `${i + 1}.` : "•", MARGIN, y, "F1", 10.5, INK);
+        }
+        text(line, MARGIN + 16, y, "F1", 10.5, INK);
+        y -= 15;
+      });
+    });
+
+  const table = (t: ProposalTable) => {
+    sectionTitle(t.title);
+    const rowHeight = 20;
+    const draw = (cells: [string, string], font: PdfFont, color: string) => {
+      text(cells[0], MARGIN + 8, y + 6, font, 10, color);
+      const width = textWidth(cells[1], 10, font);
+      text(
+        cells[1],
+        MARGIN + CONTENT_WIDTH - 8 - width,
+        y + 6,
+        font,
+        10,
+        color,
+      );
+    };
+
+    ensure(rowHeight * 2);
+    y -= rowHeight - 12;
+    rect(MARGIN, y, CONTENT_WIDTH, rowHeight, theme.accent);
+    draw(t.header, "F2", onFill(theme.accent, theme.text));
+
+    t.rows.forEach((row, i) => {
+      ensure(rowHeight);
+      y -= rowHeight;
+      if (i % 2 === 1) rect(MARGIN, y, CONTENT_WIDTH, rowHeight, ROW_SHADE);
+      draw(row, "F1", INK);
+    });
+    y -= 12;
+  };
+
+  // Brand header band
+  newPage();
+  rect(0, PAGE_HEIGHT - 150, PAGE_WIDTH, 150, theme.background);
+  rect(0, PAGE_HEIGHT - 154, PAGE_WIDTH, 4, theme.accent);
+  text(
+    `PROPOSAL · ${p.investment.tier.toUpperCase()}`,
+    MARGIN,
+    PAGE_HEIGHT - 55,
+    "F2",
+    9,
+    readable(theme.accent, theme.background, headerText),
+  );
+  const [title] = wrap(proposal.businessName, 28, "F3", CONTENT_WIDTH);
+  text(title, MARGIN, PAGE_HEIGHT - 92, "F3", 28, headerText);
+  text(
+    `Prepared by MachineMind · ${dateLabel(proposal.createdAt)}`,
+    MARGIN,
+    PAGE_HEIGHT - 122,
+    "F1",
+    10,
+    headerText,
+  );
+  y = PAGE_HEIGHT - 180;
+
+  sectionTitle("Executive Summary");
+  paragraph(p.executive_summary);
+  sectionTitle("The Problem");
+  paragraph(p.problem_statement);
+  sectionTitle("Our Solution");
+  paragraph(p.solution);
+  sectionTitle("Deliverables");
+  items(p.deliverables, false);
+  sectionTitle("Timeline");
+  paragraph(p.timeline);
+  proposalTables(proposal.result).forEach(table);
+  ensure(15);
+  text(formatRate(p.investment.exchangeRate), MARGIN, y, "F1", 9, MUTED);
+  y -= 15;
+  sectionTitle("Next Steps");
+  items(p.next_steps, true);
+
+  // Footers need the page count, so they go in last
+  pages.forEach((page, i) => {
+    ops = page;
+    text(
+      `MachineMind · ${proposal.businessName} · ${i + 1}/${pages.length}`,
+      MARGIN,
+      MARGIN - 20,
+      "F1",
+      8,
+      MUTED,
+    );
+  });
+
+  return buildPdf(
+    pages.map((page) => page.join("\n")),
+    SERIF_FONTS.test(theme.headingFont) ? "Times-Bold" : "Helvetica-Bold",
+  );
+}
+
+/**
+ * Serialize page content streams into a PDF file (objects + xref table)
+ */
+function buildPdf(streams: string[], headingFont: string): Uint8Array {
+  const fontObject = (name: string) =>
+    `<< /Type /Font /Subtype /Type1 /BaseFont /${name} /Encoding /WinAnsiEncoding >>`;
+
+  // 1 catalog, 2 page tree, 3-5 fonts, then a page + content pair per page
+  const pageIds = streams.map((_, i) => 6 + i * 2);
+  const objects = [
+    `<< /Type /Catalog /Pages 2 0 R >>`,
+    `<< /Type /Pages /Kids [${pageIds.map((id) => `${id} 0 R`).join(" ")}] /Count ${streams.length} >>`,
+    fontObject("Helvetica"),
+    fontObject("Helvetica-Bold"),
+    fontObject(headingFont),
+    ...streams.flatMap((stream, i) => [
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] ` +
+        `/Resources << /Font << /F1 3 0 R /F2 4 0 R /F3 5 0 R >> >> /Contents ${pageIds[i] + 1} 0 R >>`,
+      `<< /Length ${stream.length} >>\nstream\n${stream}\nendstream`,
+    ]),
+  ];
+
+  // Everything is ASCII (pdfText escapes the rest), so length = bytes
+  let pdf = "%PDF-1.4\n";
+  const offsets = objects.map((body, i) => {
+    const offset = pdf.length;
+    pdf += `${i + 1} 0 obj\n${body}\nendobj\n`;
+    return offset;
+  });
+
+  const xref = pdf.length;
+  pdf +=
+    `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n` +
+    offsets.map((o) => `${String(o).padStart(10, "0")} 00000 n \n`).join("") +
+    `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xref}\n%%EOF\n`;
+
+  return new TextEncoder().encode(pdf);
+}
+
+// ============================================================================
+// STORAGE
+// ============================================================================
+
+/**
+ * Theme and store a generated proposal - replaces the business's last one
+ */
+export async function saveProposal(
+  businessName: string,
+  sector: string,
+  result: ProposalResult,
+): Promise<StoredProposal> {
+  const proposal: StoredProposal = {
+    id: slugify(businessName),
+    businessName,
+    sector,
+    result,
+    theme: await resolveProposalTheme(businessName, sector),
+    createdAt: new Date().toISOString(),
+  };
+
+  await store().set(proposal.id, proposal);
+  return proposal;
+}
+
+/**
+ * Exact match first, then the first proposal whose business contains the query
+ */
+export async function findProposal(
+  query: string,
+): Promise<StoredProposal | null> {
+  const exact = await store().get(slugify(query));
+  if (exact) return exact;
+
+  const wanted = slugify(query);
+  if (!wanted) return null;
+  return (await listProposals()).find((p) => p.id.includes(wanted)) || null;
+}
+
+/**
+ * Stored proposals, newest first
+ */
+export async function listProposals(): Promise<StoredProposal[]> {
+  const proposals = await store().list();
+  return proposals.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+/**
+ * The HTML and PDF files sent to Telegram
+ */
+export function proposalFiles(proposal: StoredProposal): {
+  pdf: TelegramFile;
+  html: TelegramFile;
+} {
+  return {
+    pdf: {
+      filename: `${proposal.id}-proposal.pdf`,
+      content: renderProposalPdf(proposal),
+      contentType: "application/pdf",
+    },
+    html: {
+      filename: `${proposal.id}-proposal.html`,
+      content: renderProposalHtml(proposal),
+      contentType: "text/html",
+    },
+  };
+}
+
+export function formatProposalListForTelegram(
+  proposals: StoredProposal[],
+): string {
+  if (proposals.length === 0) {
+    return `📄 No stored proposals yet. Generate one with <code>/proposal [business] [sector]</code>.`;
+  }
+
+  const lines = proposals
+    .slice(0, 15)
+    .map(
+      (p) =>
+        `• <b>${escapeHtml(p.businessName)}</b> (${escapeHtml(p.sector)}) · ${escapeHtml(p.result.proposal.investment.tier)} · ${dateLabel(p.createdAt)}`,
+    );
+  return `📄 <b>Stored Proposals</b> (${proposals.length})\n\n${lines.join("\n")}`;
+}
@@ -0,0 +1,433 @@
+/**
+ * SCHEDULER
+ * Morning digest and ad-hoc reminders, driven by /api/cron/scheduler
+ *
+ * The cron route runs every minute: due /remind reminders are delivered,
+ * and once a day, from DIGEST_HOUR in DIGEST_TIMEZONE, every authorized
+ * chat gets a digest of lead follow-ups, failing deploys and pending
+ * confirmations.
+ */
+
+import { randomBytes } from "crypto";
+import { getStore } from "./storage";
+import { escapeHtml, sendMessage } from "./telegram";
+import { listLeadsDue, formatLeadStage } from "./leads";
+import { listPendingActions } from "./confirmations";
+import { listProjects, listDeployments } from "./vercel";
+import {
+  UserPermissions,
+  loadUserPermissions,
+  canAccessProject,
+} from "./permissions";
+
+export interface Reminder {
+  id: string;
+  chatId: number;
+  userId: number;
+  text: string;
+  dueAt: string;
+  createdAt: string;
+}
+
+interface DigestState {
+  // Local date (YYYY-MM-DD) the last digest went out
+  lastSentDate: string;
+}
+
+export interface FailedDeployment {
+  project: string;
+  id: string;
+  url: string;
+  createdAt: number;
+}
+
+export interface DeployHealth {
+  // Projects whose latest deployment is in ERROR
+  failing: string[];
+  // ERROR deployments created in the last 24 hours
+  failed: FailedDeployment[];
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MAX_REMINDER_DAYS = 365;
+
+function reminderStore() {
+  return getStore<Reminder>("reminders");
+}
+
+function stateStore() {
+  return getStore<DigestState>("scheduler-state");
+}
+
+// ============================================================================
+// LOCAL TIME
+// ============================================================================
+
+export function getDigestSchedule(): { hour: number; timeZone: string } {
+  const hour = Number(process.env.DIGEST_HOUR ?? 8);
+  const timeZone = process.env.DIGEST_TIMEZONE || "America/Bogota";
+  return {
+    hour: Number.isInteger(hour) && hour >= 0 && hour < 24 ? hour : 8,
+    timeZone,
+  };
+}
+
+/**
+ * Wall-clock date and time of an instant in a timezone
+ */
+function localParts(
+  at: Date,
+  timeZone: string,
+): { date: string; hour: number; minute: number } {
+  const parts = Object.fromEntries(
+    new Intl.DateTimeFormat("en-CA", {
+      timeZone,
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      hour: "2-digit",
+      minute: "2-digit",
+      hourCycle: "h23",
+    })
+      .formatToParts(at)
+      .map((p) => [p.type, p.value]),
+  );
+
+  return {
+    date: `${parts.year}-${parts.month}-${parts.day}`,
+    hour: Number(parts.hour),
+    minute: Number(parts.minute),
+  };
+}
+
+/**
+ * Instant of a wall-clock time in a timezone
+ */
+function fromLocal(
+  date: string,
+  hour: number,
+  minute: number,
+  timeZone: string,
+): Date {
+  const [year, month, day] = date.split("-").map(Number);
+  const guess = Date.UTC(year, month - 1, day, hour, minute);
+
+  // Offset of the zone at that moment, e.g. -5h for Bogotá
+  const local = localParts(new Date(guess), timeZone);
+  const [ly, lm, ld] = local.date.split("-").map(Number);
+  const offset = Date.UTC(ly, lm - 1, ld, local.hour, local.minute) - guess;
+
+  return new Date(guess - offset);
+}
+
+function shiftDate(date: string, days: number): string {
+  return new Date(Date.parse(date) + days * DAY_MS).toISOString().slice(0, 10);
+}
+
+/**
+ * Local date for the digest timezone, e.g. "2026-10-19"
+ */
+export function localDate(now = new Date()): string {
+  return localParts(now, getDigestSchedule().timeZone).date;
+}
+
+/**
+ * Reminder time from "30m", "2h", "3d", "1w", "tomorrow", "2026-11-03",
+ * "14:30" or "9am" - dates without a time use the digest hour
+ * Null when invalid or not in the future
+ */
+export function parseReminderTime(
+  value: string,
+  now = new Date(),
+): Date | null {
+  const input = value.trim().toLowerCase();
+  const { hour: digestHour, timeZone } = getDigestSchedule();
+  const today = localParts(now, timeZone).date;
+
+  let due: Date | null = null;
+
+  const relative = input.match(/^(\d{1,4})(m|min|h|d|w)$/);
+  const clock = input.match(/^(\d{1,2})(?::(\d{2}))?(am|pm)?$/);
+
+  if (relative) {
+    const unit = { m: 60000, min: 60000, h: 3600000, d: DAY_MS, w: 7 * DAY_MS };
+    due = new Date(
+      now.getTime() +
+        Number(relative[1]) * unit[relative[2] as keyof typeof unit],
+    );
+  } else if (input === "tomorrow") {
+    due = fromLocal(shiftDate(today, 1), digestHour, 0, timeZone);
+  } else if (/^\d{4}-\d{2}-\d{2}$/.test(input)) {
+    if (Number.isNaN(Date.parse(input))) return null;
+    due = fromLocal(input, digestHour, 0, timeZone);
+  } else if (clock && (clock[2] !== undefined || clock[3])) {
+    let hour = Number(clock[1]);
+    const minute = Number(clock[2] || 0);
+    if (clock[3] && (hour < 1 || hour > 12)) return null;
+    if (clock[3] === "pm" && hour < 12) hour += 12;
+    if (clock[3] === "am" && hour === 12) hour = 0;
+    if (hour > 23 || minute > 59) return null;
+
+    // Today if that time is still ahead, otherwise tomorrow
+    due = fromLocal(today, hour, minute, timeZone);
+    if (due.getTime() <= now.getTime()) {
+      due = fromLocal(shiftDate(today, 1), hour, minute, timeZone);
+    }
+  }
+
+  if (!due || due.getTime() <= now.getTime()) return null;
+  if (due.getTime() - now.getTime() > MAX_REMINDER_DAYS * DAY_MS) return null;
+  return due;
+}
+
+/**
+ * Reminder time as the chat reads it, e.g. "2026-10-20 08:00 (America/Bogota)"
+ */
+export function formatLocalTime(at: Date | string): string {
+  const { timeZone } = getDigestSchedule();
+  const local = localParts(new Date(at), timeZone);
+  const time = `${String(local.hour).padStart(2, "0")}:${String(local.minute).padStart(2, "0")}`;
+  return `${local.date} ${time} (${timeZone})`;
+}
+
+// ============================================================================
+// REMINDERS
+// ============================================================================
+
+export async function addReminder(
+  chatId: number,
+  userId: number,
+  text: string,
+  dueAt: Date,
+): Promise<Reminder> {
+  const reminder: Reminder = {
+    id: randomBytes(4).toString("hex"),
+    chatId,
+    userId,
+    text,
+    dueAt: dueAt.toISOString(),
+    createdAt: new Date().toISOString(),
+  };
+
+  await reminderStore().set(reminder.id, reminder);
+  return reminder;
+}
+
+/**
+ * Pending reminders for a chat, soonest first
+ */
+export async function listReminders(chatId: number): Promise<Reminder[]> {
+  const reminders = await reminderStore().list();
+  return reminders
+    .filter((r) => r.chatId === chatId)
+    .sort((a, b) => a.dueAt.localeCompare(b.dueAt));
+}
+
+/**
+ * Delete a chat's reminder - false if it doesn't exist
+ */
+export async function cancelReminder(
+  chatId: number,
+  id: string,
+): Promise<boolean> {
+  const reminder = await reminderStore().get(id.toLowerCase());
+  if (!reminder || reminder.chatId !== chatId) return false;
+
+  await reminderStore().delete(reminder.id);
+  return true;
+}
+
+/**
+ * Deliver every reminder that is due (cron route)
+ * Reminders are removed even if delivery fails so a blocked chat
+ * isn't retried every minute
+ */
+export async function sendDueReminders(now = new Date()): Promise<number> {
+  const due = (await reminderStore().list()).filter(
+    (r) => new Date(r.dueAt).getTime() <= now.getTime(),
+  );
+
+  for (const reminder of due) {
+    await reminderStore().delete(reminder.id);
+    try {
+      await sendMessage(
+        reminder.chatId,
+        `⏰ <b>Reminder</b>\n\n${escapeHtml(reminder.text)}`,
+      );
+    } catch (error) {
+      console.error("Reminder delivery failed:", error);
+    }
+  }
+
+  return due.length;
+}
+
+export function formatRemindersForTelegram(reminders: Reminder[]): string {
+  if (reminders.length === 0) {
+    return `⏰ No reminders scheduled in this chat.`;
+  }
+
+  const lines = reminders.map(
+    (r) =>
+      `• <code>${r.id}</code> ${formatLocalTime(r.dueAt)}\n   ${escapeHtml(r.text)}`,
+  );
+  return `⏰ <b>Reminders</b> (${reminders.length})\n\n${lines.join("\n")}`;
+}
+
+// ============================================================================
+// DAILY DIGEST
+// ============================================================================
+
+/**
+ * Failing projects and the last 24h of failed deployments
+ * Empty when Vercel isn't configured (the vercel client returns [])
+ */
+export async function getDeployHealth(now = new Date()): Promise<DeployHealth> {
+  const health: DeployHealth = { failing: [], failed: [] };
+  const since = now.getTime() - DAY_MS;
+
+  // Sequential keeps the cron invocation light on sockets and rate limits
+  for (const project of await listProjects()) {
+    const deployments = await listDeployments(project.id, 10);
+    if (deployments[0]?.state === "ERROR") health.failing.push(project.name);
+
+    for (const d of deployments) {
+      if (d.state === "ERROR" && d.createdAt >= since) {
+        health.failed.push({
+          project: project.name,
+          id: d.id,
+          url: d.url,
+          createdAt: d.createdAt,
+        });
+      }
+    }
+  }
+
+  health.failed.sort((a, b) => b.createdAt - a.createdAt);
+  return health;
+}
+
+/**
+ * Digest for one chat - deploy health is limited to the user's projects
+ */
+export async function buildDigest(
+  chatId: number,
+  permissions: UserPermissions,
+  health: DeployHealth,
+  now = new Date(),
+): Promise<string> {
+  const [leads, pending] = await Promise.all([
+    listLeadsDue(now),
+    listPendingActions(chatId),
+  ]);
+
+  const failing = health.failing.filter((p) =>
+    canAccessProject(permissions, p),
+  );
+  const failed = health.failed.filter((d) =>
+    canAccessProject(permissions, d.project),
+  );
+
+  const sections: string[] = [];
+
+  if (leads.length) {
+    sections.push(
+      `📇 <b>Follow-ups due</b> (${leads.length})\n` +
+        leads
+          .slice(0, 10)
+          .map(
+            (l) =>
+              `• <b>${escapeHtml(l.businessName)}</b> — ${formatLeadStage(l.stage)} · due ${l.nextFollowUp}`,
+          )
+          .join("\n"),
+    );
+  }
+
+  if (failing.length) {
+    sections.push(
+      `🔴 <b>Failing projects</b> (${failing.length})\n` +
+        failing
+          .map(
+            (p) => `• <code>${escapeHtml(p)}</code> — latest deploy ❌ ERROR`,
+          )
+          .join("\n"),
+    );
+  }
+
+  if (failed.length) {
+    sections.push(
+      `❌ <b>Failed deployments, last 24h</b> (${failed.length})\n` +
+        failed
+          .slice(0, 10)
+          .map(
+            (d) =>
+              `• <code>${escapeHtml(d.project)}</code> ${formatLocalTime(new Date(d.createdAt))}\n   🔗 ${escapeHtml(d.url)}`,
+          )
+          .join("\n"),
+    );
+  }
+
+  if (pending.length) {
+    sections.push(
+      `⏳ <b>Pending confirmations</b> (${pending.length})\n` +
+        pending
+          .map(
+            (a) =>
+              `• <code>${a.token}</code> ${a.summary} — <code>/confirm ${a.token}</code>`,
+          )
+          .join("\n"),
+    );
+  }
+
+  const body = sections.length
+    ? sections.join("\n\n")
+    : `✅ Nothing needs attention today.`;
+
+  return `☀️ <b>Morning Digest</b> · ${localDate(now)}\n\n${body}`;
+}
+
+/**
+ * Send the digest to every authorized chat once per local day,
+ * from DIGEST_HOUR onwards - returns the number of chats sent to
+ */
+export async function sendDailyDigests(now = new Date()): Promise<number> {
+  const { hour, timeZone } = getDigestSchedule();
+  const local = localParts(now, timeZone);
+  if (local.hour < hour) return 0;
+
+  const state = await stateStore().get("digest");
+  if (state?.lastSentDate === local.date) return 0;
+
+  // Mark first so an overlapping cron tick can't send twice
+  await stateStore().set("digest", { lastSentDate: local.date });
+
+  const health = await getDeployHealth(now);
+  let sent = 0;
+
+  for (const permissions of loadUserPermissions().values()) {
+    try {
+      const digest = await buildDigest(
+        permissions.userId,
+        permissions,
+        health,
+        now,
+      );
+      if (await sendMessage(permissions.userId, digest)) sent += 1;
+    } catch (error) {
+      console.error(`Digest for ${permissions.userId} failed:`, error);
+    }
+  }
+
+  return sent;
+}
+
+/**
+ * One scheduler tick (cron route)
+ */
+export async function runScheduler(
+  now = new Date(),
+): Promise<{ reminders: number; digests: number }> {
+  const reminders = await sendDueReminders(now);
+  const digests = await sendDailyDigests(now);
+  return { reminders, digests };
+}
@@ -0,0 +1,576 @@
+/**
+ * SEO CRAWLER
+ * Multi-page crawl: robots.txt, sitemap.xml, broken links, duplicate meta,
+ * canonical/hreflang coverage, orphan pages and sector JSON-LD validation
+ */
+
+import { markup, SafeHtml } from "./telegram";
+import {
+  parseHtml,
+  metaContent,
+  linksByRel,
+  parseJsonLd,
+  jsonLdTypes,
+} from "./html-dom";
+
+export interface CrawledPage {
+  url: string;
+  status: number;
+  title: string;
+  description: string;
+  canonical: string | null;
+  hreflang: string[];
+  links: string[];
+  jsonLdTypes: string[];
+  jsonLdErrors: string[];
+  error?: string;
+}
+
+export interface BrokenLink {
+  url: string;
+  status: number;
+  foundOn: string[];
+}
+
+export interface DuplicateGroup {
+  value: string;
+  urls: string[];
+}
+
+export interface SeoCrawlReport {
+  startUrl: string;
+  sector?: string;
+  crawledAt: string;
+  pages: CrawledPage[];
+  robots: { found: boolean; disallow: string[]; sitemaps: string[] };
+  sitemapUrls: string[];
+  brokenLinks: BrokenLink[];
+  duplicateTitles: DuplicateGroup[];
+  duplicateDescriptions: DuplicateGroup[];
+  missingCanonical: string[];
+  missingHreflang: string[];
+  orphanPages: string[];
+  // Every internal link was followed - orphans are only reported when true
+  crawlComplete: boolean;
+  // The time budget ran out - the report covers what was fetched until then
+  timedOut: boolean;
+  structuredData: {
+    expectedTypes: string[];
+    pagesWithJsonLd: number;
+    matchingType: boolean;
+    errors: Array<{ url: string; error: string }>;
+  };
+}
+
+export const DEFAULT_MAX_PAGES = 25;
+export const MAX_CRAWL_PAGES = 100;
+
+// Overall budget - /seo-crawl runs inside the Telegram webhook request, which
+// Telegram retries (re-running the crawl) if it doesn't answer in time
+export const CRAWL_TIME_BUDGET_MS = 45000;
+
+// Unvisited internal links are HEAD-checked up to this many
+const MAX_LINK_CHECKS = 50;
+const MAX_SITEMAP_URLS = 500;
+const USER_AGENT = "MachineMind-SEO-Crawler/1.0";
+
+// schema.org types that are valid for each sector
+export const SECTOR_SCHEMA_TYPES: Record<string, string[]> = {
+  restaurant: ["Restaurant", "FoodEstablishment", "CafeOrCoffeeShop"],
+  hotel: ["Hotel", "LodgingBusiness", "Resort"],
+  villa: ["LodgingBusiness", "VacationRental", "Resort", "Accommodation"],
+  nightclub: ["NightClub", "BarOrPub", "EntertainmentBusiness"],
+  spa: ["DaySpa", "HealthAndBeautyBusiness"],
+  yacht: ["TouristAttraction", "BoatTrip", "LocalBusiness"],
+  tour: ["TouristTrip", "TravelAgency", "TouristAttraction"],
+  hospitality: ["LodgingBusiness", "Hotel", "LocalBusiness"],
+};
+
+// Properties Google expects on any LocalBusiness-style entity
+const REQUIRED_BUSINESS_PROPS = ["name", "address"];
+
+// Each request gets 10s, cut short if the crawl's overall deadline hits first
+function requestSignal(deadline?: AbortSignal): AbortSignal {
+  const timeout = AbortSignal.timeout(10000);
+  return deadline ? AbortSignal.any([timeout, deadline]) : timeout;
+}
+
+async function fetchText(
+  url: string,
+  deadline?: AbortSignal,
+): Promise<{ status: number; body: string; url: string; error?: string }> {
+  try {
+    const response = await fetch(url, {
+      signal: requestSignal(deadline),
+      headers: { "User-Agent": USER_AGENT },
+      redirect: "follow",
+    });
+    const type = response.headers.get("content-type") || "";
+    const body =
+      type.includes("html") || type.includes("xml") || type.includes("text")
+        ? await response.text()
+        : "";
+    // Final URL after redirects
+    return { status: response.status, body, url: response.url || url };
+  } catch (error) {
+    return {
+      status: 0,
+      body: "",
+      url,
+      error: error instanceof Error ? error.message : "Request failed",
+    };
+  }
+}
+
+async function headStatus(
+  url: string,
+  deadline?: AbortSignal,
+): Promise<number> {
+  try {
+    const response = await fetch(url, {
+      method: "HEAD",
+      signal: requestSignal(deadline),
+      headers: { "User-Agent": USER_AGENT },
+      redirect: "follow",
+    });
+    return response.status;
+  } catch {
+    return 0;
+  }
+}
+
+/**
+ * Normalize a URL for comparison - no hash, no trailing slash (except root)
+ */
+export function normalizeUrl(href: string, base: string): string | null {
+  try {
+    const url = new URL(href, base);
+    if (!["http:", "https:"].includes(url.protocol)) return null;
+    url.hash = "";
+    const path = url.pathname.replace(/\/+$/, "") || "/";
+    return `${url.origin}${path}${url.search}`;
+  } catch {
+    return null;
+  }
+}
+
+export function parseRobots(body: string): {
+  disallow: string[];
+  sitemaps: string[];
+} {
+  const disallow: string[] = [];
+  const sitemaps: string[] = [];
+  let appliesToUs = false;
+
+  for (const rawLine of body.split("\n")) {
+    const line = rawLine.replace(/#.*/, "").trim();
+    const [field, ...rest] = line.split(":");
+    const value = rest.join(":").trim();
+    const key = field?.toLowerCase();
+
+    if (key === "user-agent") appliesToUs = value === "*";
+    else if (key === "disallow" && appliesToUs && value) disallow.push(value);
+    else if (key === "sitemap" && value) sitemaps.push(value);
+  }
+
+  return { disallow, sitemaps };
+}
+
+/**
+ * Same scheme, host and port - a prefix check would let example.com.evil.net in
+ */
+function isSameOrigin(url: string, origin: string): boolean {
+  try {
+    return new URL(url).origin === origin;
+  } catch {
+    return false;
+  }
+}
+
+function isDisallowed(url: string, disallow: string[]): boolean {
+  const path = new URL(url).pathname;
+  return disallow.some((rule) => path.startsWith(rule));
+}
+
+async function readSitemap(
+  url: string,
+  deadline: AbortSignal,
+  depth = 0,
+): Promise<string[]> {
+  const { status, body } = await fetchText(url, deadline);
+  if (status !== 200 || !body) return [];
+
+  const locs = parseHtml(body)
+    .querySelectorAll("loc")
+    .map((loc) => loc.text.trim())
+    .filter(Boolean);
+
+  // Sitemap index - follow one level of child sitemaps
+  if (/<sitemapindex/i.test(body) && depth === 0) {
+    const nested = await Promise.all(
+      locs.slice(0, 10).map((loc) => readSitemap(loc, deadline, depth + 1)),
+    );
+    return nested.flat();
+  }
+
+  return locs;
+}
+
+function findBusinessNodes(node: unknown, expected: string[]): unknown[] {
+  if (Array.isArray(node))
+    return node.flatMap((n) => findBusinessNodes(n, expected));
+  if (!node || typeof node !== "object") return [];
+
+  const record = node as Record<string, unknown>;
+  const own = jsonLdTypes({ "@type": record["@type"] });
+  const matches = own.some((t) => expected.includes(t)) ? [node] : [];
+
+  return [...matches, ...findBusinessNodes(record["@graph"], expected)];
+}
+
+function parsePage(
+  url: string,
+  status: number,
+  html: string,
+  expectedTypes: string[],
+): CrawledPage {
+  const root = parseHtml(html);
+  const title = root.querySelector("title")?.text.trim() || "";
+
+  const canonicalTag = linksByRel(root, "canonical")[0];
+  const hreflang = linksByRel(root, "alternate")
+    .map((link) => link.getAttribute("hreflang"))
+    .filter((lang): lang is string => !!lang);
+
+  const links = [
+    ...new Set(
+      root
+        .querySelectorAll("a[href]")
+        .map((a) => normalizeUrl(a.getAttribute("href") || "", url))
+        .filter((link): link is string => !!link),
+    ),
+  ];
+
+  const { blocks, errors } = parseJsonLd(root);
+  const jsonLdErrors = errors.map((e) => `Invalid JSON-LD (${e})`);
+
+  for (const business of findBusinessNodes(blocks, expectedTypes)) {
+    const record = business as Record<string, unknown>;
+    const missing = REQUIRED_BUSINESS_PROPS.filter((p) => !record[p]);
+    if (missing.length > 0) {
+      jsonLdErrors.push(
+        `${jsonLdTypes(record).join("/")} missing ${missing.join(", ")}`,
+      );
+    }
+  }
+
+  return {
+    url,
+    status,
+    title,
+    description: metaContent(root, "description"),
+    canonical: canonicalTag?.getAttribute("href")?.trim() || null,
+    hreflang,
+    links,
+    jsonLdTypes: jsonLdTypes(blocks),
+    jsonLdErrors,
+  };
+}
+
+function findDuplicates(
+  pages: CrawledPage[],
+  field: "title" | "description",
+): DuplicateGroup[] {
+  const groups = new Map<string, string[]>();
+
+  for (const page of pages) {
+    const value = page[field];
+    if (!value) continue;
+    groups.set(value, [...(groups.get(value) || []), page.url]);
+  }
+
+  return [...groups.entries()]
+    .filter(([, urls]) => urls.length > 1)
+    .map(([value, urls]) => ({ value, urls }));
+}
+
+/**
+ * Crawl a site breadth-first from startUrl, staying on its origin
+ */
+export async function crawlSite(
+  startUrl: string,
+  options: { maxPages?: number; sector?: string; timeBudgetMs?: number } = {},
+): Promise<SeoCrawlReport> {
+  const maxPages = Math.min(
+    Math.max(options.maxPages || DEFAULT_MAX_PAGES, 1),
+    MAX_CRAWL_PAGES,
+  );
+  const deadline = AbortSignal.timeout(
+    options.timeBudgetMs || CRAWL_TIME_BUDGET_MS,
+  );
+  // Follow redirects first (http→https, apex→www) so the crawl stays on the
+  // host the site is actually served from
+  const requested = normalizeUrl(startUrl, startUrl) || startUrl;
+  const landing = await fetchText(requested, deadline);
+  const start = normalizeUrl(landing.url, requested) || requested;
+  const origin = new URL(start).origin;
+  const sector = options.sector?.toLowerCase();
+  const expectedTypes = sector
+    ? SECTOR_SCHEMA_TYPES[sector] || SECTOR_SCHEMA_TYPES.hospitality
+    : [...new Set(Object.values(SECTOR_SCHEMA_TYPES).flat())];
+
+  // robots.txt + sitemap.xml
+  const robotsResponse = await fetchText(`${origin}/robots.txt`, deadline);
+  const robots =
+    robotsResponse.status === 200
+      ? { found: true, ...parseRobots(robotsResponse.body) }
+      : { found: false, disallow: [], sitemaps: [] };
+
+  const sitemapSources = robots.sitemaps.length
+    ? robots.sitemaps
+    : [`${origin}/sitemap.xml`];
+  const sitemapUrls = [
+    ...new Set(
+      (await Promise.all(sitemapSources.map((s) => readSitemap(s, deadline))))
+        .flat()
+        .map((loc) => normalizeUrl(loc, origin))
+        .filter((loc): loc is string => !!loc && isSameOrigin(loc, origin)),
+    ),
+  ].slice(0, MAX_SITEMAP_URLS);
+
+  // Breadth-first crawl
+  const pages: CrawledPage[] = [];
+  const queued = new Set<string>([start]);
+  const queue = [start];
+  const linkedFrom = new Map<string, string[]>();
+
+  while (queue.length > 0 && pages.length < maxPages && !deadline.aborted) {
+    const url = queue[0];
+    if (isDisallowed(url, robots.disallow)) {
+      queue.shift();
+      continue;
+    }
+
+    const { status, body, error } =
+      url === start ? landing : await fetchText(url, deadline);
+    // Cut off by the deadline, not a real failure - leave it unvisited
+    if (deadline.aborted) break;
+    queue.shift();
+
+    const page = parsePage(url, status, body, expectedTypes);
+    if (error) page.error = error;
+    pages.push(page);
+
+    for (const link of page.links) {
+      if (!isSameOrigin(link, origin)) continue;
+      linkedFrom.set(link, [...(linkedFrom.get(link) || []), url]);
+
+      if (!queued.has(link)) {
+        queued.add(link);
+        queue.push(link);
+      }
+    }
+  }
+
+  // Stopping at maxPages or the deadline leaves unseen links, so orphans
+  // can't be told apart
+  const crawlComplete = queue.length === 0;
+
+  // Sitemap pages still get crawled if there is budget left
+  for (const url of sitemapUrls) {
+    if (pages.length >= maxPages || deadline.aborted) break;
+    if (queued.has(url) || isDisallowed(url, robots.disallow)) continue;
+    queued.add(url);
+
+    const { status, body, error } = await fetchText(url, deadline);
+    if (deadline.aborted) break;
+    const page = parsePage(url, status, body, expectedTypes);
+    if (error) page.error = error;
+    pages.push(page);
+
+    for (const link of page.links.filter((l) => isSameOrigin(l, origin))) {
+      linkedFrom.set(link, [...(linkedFrom.get(link) || []), url]);
+    }
+  }
+
+  // Broken links: crawled pages that failed, plus a HEAD check of the rest
+  const visited = new Map(pages.map((p) => [p.url, p.status]));
+  const brokenLinks: BrokenLink[] = [];
+
+  for (const [url, status] of visited) {
+    if (status === 0 || status >= 400) {
+      brokenLinks.push({ url, status, foundOn: linkedFrom.get(url) || [] });
+    }
+  }
+
+  const unchecked = [...linkedFrom.keys()]
+    .filter((url) => !visited.has(url))
+    .slice(0, MAX_LINK_CHECKS);
+
+  for (const url of unchecked) {
+    const status = await headStatus(url, deadline);
+    if (deadline.aborted) break;
+    if (status === 0 || status >= 400) {
+      brokenLinks.push({ url, status, foundOn: linkedFrom.get(url) || [] });
+    }
+  }
+
+  const okPages = pages.filter((p) => p.status >= 200 && p.status < 300);
+  const typesFound = new Set(okPages.flatMap((p) => p.jsonLdTypes));
+
+  return {
+    startUrl: start,
+    sector,
+    crawledAt: new Date().toISOString(),
+    pages,
+    robots,
+    sitemapUrls,
+    brokenLinks,
+    duplicateTitles: findDuplicates(okPages, "title"),
+    duplicateDescriptions: findDuplicates(okPages, "description"),
+    missingCanonical: okPages.filter((p) => !p.canonical).map((p) => p.url),
+    missingHreflang: okPages
+      .filter((p) => p.hreflang.length === 0)
+      .map((p) => p.url),
+    // In the sitemap but no crawled page links to them
+    orphanPages: crawlComplete
+      ? sitemapUrls.filter((url) => url !== start && !linkedFrom.has(url))
+      : [],
+    crawlComplete,
+    timedOut: deadline.aborted,
+    structuredData: {
+      expectedTypes,
+      pagesWithJsonLd: okPages.filter((p) => p.jsonLdTypes.length > 0).length,
+      matchingType: expectedTypes.some((t) => typesFound.has(t)),
+      errors: okPages.flatMap((p) =>
+        p.jsonLdErrors.map((error) => ({ url: p.url, error })),
+      ),
+    },
+  };
+}
+
+export function countCrawlIssues(report: SeoCrawlReport): number {
+  return (
+    report.brokenLinks.length +
+    report.duplicateTitles.length +
+    report.duplicateDescriptions.length +
+    report.missingCanonical.length +
+    report.missingHreflang.length +
+    report.orphanPages.length +
+    report.structuredData.errors.length +
+    (report.structuredData.matchingType ? 0 : 1) +
+    (report.robots.found ? 0 : 1) +
+    (report.sitemapUrls.length > 0 ? 0 : 1)
+  );
+}
+
+const pathOf = (url: string) => {
+  try {
+    return new URL(url).pathname;
+  } catch {
+    return url;
+  }
+};
+
+/**
+ * Summary message - the full detail goes in the Markdown report
+ */
+export function formatSeoCrawlForTelegram(report: SeoCrawlReport): SafeHtml {
+  const issues = countCrawlIssues(report);
+  const check = (ok: boolean) => (ok ? "✅" : "⚠️");
+  const sd = report.structuredData;
+
+  const broken = report.brokenLinks
+    .slice(0, 5)
+    .map((b) => markup`\n   • ${pathOf(b.url)} (${b.status || "failed"})`);
+
+  return markup`🕷️ <b>SEO CRAWL: ${report.startUrl}</b>
+
+📄 Pages crawled: ${report.pages.length}${
+    report.timedOut
+      ? markup`
+⏱️ Time limit reached - partial results`
+      : ""
+  }
+🗺️ Sitemap URLs: ${report.sitemapUrls.length}
+${check(report.robots.found)} robots.txt ${report.robots.found ? "found" : "missing"}
+
+${check(report.brokenLinks.length === 0)} Broken links: ${report.brokenLinks.length}${broken}
+${check(report.duplicateTitles.length === 0)} Duplicate titles: ${report.duplicateTitles.length}
+${check(report.duplicateDescriptions.length === 0)} Duplicate descriptions: ${report.duplicateDescriptions.length}
+${check(report.missingCanonical.length === 0)} Missing canonical: ${report.missingCanonical.length}
+${check(report.missingHreflang.length === 0)} Missing hreflang: ${report.missingHreflang.length}
+${report.crawlComplete ? markup`${check(report.orphanPages.length === 0)} Orphan pages: ${report.orphanPages.length}` : markup`⏸️ Orphan pages: not checked (crawl stopped at ${report.pages.length} pages)`}
+${check(sd.matchingType && sd.errors.length === 0)} JSON-LD: ${sd.pagesWithJsonLd} pages${report.sector ? markup`, ${report.sector} type ${sd.matchingType ? "found" : "missing"}` : ""}${sd.errors.length ? markup` (${sd.errors.length} errors)` : ""}
+
+<b>${issues} issue${issues === 1 ? "" : "s"} found</b> — full report attached.`;
+}
+
+/**
+ * Downloadable Markdown report
+ */
+export function formatSeoCrawlReportMarkdown(report: SeoCrawlReport): string {
+  const section = (title: string, lines: string[]) =>
+    `## ${title}\n\n${lines.length ? lines.join("\n") : "None found."}\n`;
+  const sd = report.structuredData;
+
+  return [
+    `# SEO Crawl Report: ${report.startUrl}`,
+    "",
+    `- Crawled: ${report.crawledAt}`,
+    `- Pages crawled: ${report.pages.length}${report.timedOut ? " (time limit reached - partial results)" : ""}`,
+    `- Sector: ${report.sector || "not specified"}`,
+    `- robots.txt: ${report.robots.found ? "found" : "missing"}${report.robots.disallow.length ? ` (disallow: ${report.robots.disallow.join(", ")})` : ""}`,
+    `- Sitemap URLs: ${report.sitemapUrls.length}`,
+    `- Issues: ${countCrawlIssues(report)}`,
+    "",
+    section(
+      "Broken Links",
+      report.brokenLinks.map(
+        (b) =>
+          `- ${b.url} — ${b.status || "request failed"}${b.foundOn.length ? ` (linked from ${b.foundOn.slice(0, 3).join(", ")})` : ""}`,
+      ),
+    ),
+    section(
+      "Duplicate Titles",
+      report.duplicateTitles.map(
+        (d) => `- "${d.value}"\n${d.urls.map((u) => `  - ${u}`).join("\n")}`,
+      ),
+    ),
+    section(
+      "Duplicate Descriptions",
+      report.duplicateDescriptions.map(
+        (d) => `- "${d.value}"\n${d.urls.map((u) => `  - ${u}`).join("\n")}`,
+      ),
+    ),
+    section(
+      "Missing Canonical",
+      report.missingCanonical.map((u) => `- ${u}`),
+    ),
+    section(
+      "Missing hreflang",
+      report.missingHreflang.map((u) => `- ${u}`),
+    ),
+    report.crawlComplete
+      ? section(
+          "Orphan Pages (in sitemap, not linked)",
+          report.orphanPages.map((u) => `- ${u}`),
+        )
+      : section("Orphan Pages (in sitemap, not linked)", [
+          `Not checked - the crawl stopped at ${report.pages.length} pages before following every internal link.${report.timedOut ? "" : " Re-run with a higher maxPages."}`,
+        ]),
+    section("Structured Data", [
+      `- Expected types: ${sd.expectedTypes.join(", ")}`,
+      `- Pages with JSON-LD: ${sd.pagesWithJsonLd}`,
+      `- Matching business type: ${sd.matchingType ? "yes" : "no"}`,
+      ...sd.errors.map((e) => `- ${e.url}: ${e.error}`),
+    ]),
+    section(
+      "Pages",
+      report.pages.map(
+        (p) =>
+          `- ${p.url} — ${p.status || p.error || "failed"}${p.title ? ` — "${p.title}"` : ""}`,
+      ),
+    ),
+  ].join("\n");
+}
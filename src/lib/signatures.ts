@@ -0,0 +1,28 @@
+/**
+ * WEBHOOK SIGNATURES
+ * Constant-time HMAC checks for GitHub and Vercel webhook payloads
+ */
+
+import { createHmac, timingSafeEqual } from "crypto";
+
+/**
+ * Verify a hex HMAC of the raw request body
+ * GitHub sends "sha256=<hex>", Vercel sends the bare SHA1 hex
+ */
+export function verifyHmacSignature(params: {
+  body: string;
+  signature: string | null;
+  secret: string;
+  algorithm: "sha1" | "sha256";
+  prefix?: string;
+}): boolean {
+  const { body, signature, secret, algorithm, prefix = "" } = params;
+  if (!signature) return false;
+
+  const expected = Buffer.from(
+    prefix + createHmac(algorithm, secret).update(body, "utf8").digest("hex"),
+  );
+  const actual = Buffer.from(signature);
+
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
@@ -0,0 +1,284 @@
+/**
+ * SPEED HISTORY
+ * Core Web Vitals per URL over time, trends and post-deploy regression checks
+ */
+
+import { getStore } from "./storage";
+import { runSpeedTest, SpeedTestResult } from "./analytics";
+import { markup, SafeHtml } from "./telegram";
+import { getProjectDomains } from "./vercel";
+
+export interface SpeedRecord {
+  at: string;
+  source: "manual" | "deploy";
+  deploymentId?: string;
+  lcp: number;
+  cls: number;
+  ttfb: number;
+  fcp: number;
+  performance: number;
+  accessibility: number;
+  seo: number;
+}
+
+interface SpeedHistory {
+  url: string;
+  records: SpeedRecord[];
+}
+
+export interface SpeedRegression {
+  metric: string;
+  previous: number;
+  current: number;
+}
+
+const MAX_RECORDS = 200;
+
+// Performance score drop (points) that counts as a regression
+const DEFAULT_SCORE_THRESHOLD = 10;
+// Relative LCP / TTFB increase (%) that counts as a regression
+const DEFAULT_TIMING_THRESHOLD_PERCENT = 25;
+// Absolute CLS increase that counts as a regression
+const CLS_THRESHOLD = 0.05;
+
+const SPARK_CHARS = "▁▂▃▄▅▆▇█";
+
+function store() {
+  return getStore<SpeedHistory>("speed-history");
+}
+
+/**
+ * Resolve a project name or URL to the URL that gets tested
+ */
+export function resolveSpeedUrl(target: string): string {
+  return target.startsWith("http") ? target : `https://${target}.vercel.app`;
+}
+
+/**
+ * Production URL of a project for post-deploy tests - its verified production
+ * domain (custom domains first), else the deployment's own URL
+ */
+export async function resolveProductionUrl(
+  project: string,
+  deploymentUrl: string,
+): Promise<string> {
+  const production = (await getProjectDomains(project)).filter(
+    (d) => d.verified && !d.gitBranch && !d.redirect,
+  );
+  const domain =
+    production.find((d) => !d.name.endsWith(".vercel.app")) || production[0];
+
+  return `https://${domain?.name || deploymentUrl}`;
+}
+
+/**
+ * Store a successful speed test result
+ */
+export async function recordSpeedResult(
+  result: SpeedTestResult,
+  options: { source: SpeedRecord["source"]; deploymentId?: string } = {
+    source: "manual",
+  },
+): Promise<SpeedRecord | null> {
+  if (!result.success) return null;
+
+  const record: SpeedRecord = {
+    at: new Date().toISOString(),
+    source: options.source,
+    deploymentId: options.deploymentId,
+    lcp: result.metrics.lcp,
+    cls: result.metrics.cls,
+    ttfb: result.metrics.ttfb,
+    fcp: result.metrics.fcp,
+    performance: result.scores.performance,
+    accessibility: result.scores.accessibility,
+    seo: result.scores.seo,
+  };
+
+  const history = (await store().get(result.url)) || {
+    url: result.url,
+    records: [],
+  };
+
+  await store().set(result.url, {
+    url: result.url,
+    records: [...history.records, record].slice(-MAX_RECORDS),
+  });
+
+  return record;
+}
+
+/**
+ * Stored records for a URL, oldest first
+ */
+export async function getSpeedHistory(
+  url: string,
+  limit = 30,
+): Promise<SpeedRecord[]> {
+  const history = await store().get(url);
+  return (history?.records || []).slice(-limit);
+}
+
+export function sparkline(values: number[]): string {
+  if (values.length === 0) return "";
+
+  const min = Math.min(...values);
+  const max = Math.max(...values);
+  const range = max - min || 1;
+
+  return values
+    .map((v) =>
+      max === min
+        ? SPARK_CHARS[3]
+        : SPARK_CHARS[
+            Math.round(((v - min) / range) * (SPARK_CHARS.length - 1))
+          ],
+    )
+    .join("");
+}
+
+function thresholds() {
+  const score = Number(process.env.SPEED_REGRESSION_THRESHOLD);
+  const timing = Number(process.env.SPEED_REGRESSION_TIMING_PERCENT);
+  return {
+    score: score > 0 ? score : DEFAULT_SCORE_THRESHOLD,
+    timingPercent: timing > 0 ? timing : DEFAULT_TIMING_THRESHOLD_PERCENT,
+  };
+}
+
+/**
+ * Metrics that got worse than the configured thresholds
+ */
+export function detectRegressions(
+  previous: SpeedRecord,
+  current: SpeedRecord,
+): SpeedRegression[] {
+  const { score, timingPercent } = thresholds();
+  const regressions: SpeedRegression[] = [];
+
+  if (previous.performance - current.performance >= score) {
+    regressions.push({
+      metric: "Performance",
+      previous: previous.performance,
+      current: current.performance,
+    });
+  }
+
+  for (const [metric, key] of [
+    ["LCP", "lcp"],
+    ["TTFB", "ttfb"],
+  ] as const) {
+    if (
+      previous[key] > 0 &&
+      ((current[key] - previous[key]) / previous[key]) * 100 >= timingPercent
+    ) {
+      regressions.push({
+        metric,
+        previous: previous[key],
+        current: current[key],
+      });
+    }
+  }
+
+  if (current.cls - previous.cls >= CLS_THRESHOLD) {
+    regressions.push({
+      metric: "CLS",
+      previous: previous.cls,
+      current: current.cls,
+    });
+  }
+
+  return regressions;
+}
+
+/**
+ * Speed test a production URL after a deploy and compare with the previous deploy
+ */
+export async function runPostDeploySpeedTest(
+  url: string,
+  deploymentId: string,
+): Promise<{
+  result: SpeedTestResult;
+  regressions: SpeedRegression[];
+  previous: SpeedRecord | null;
+}> {
+  const previous =
+    (await getSpeedHistory(url, MAX_RECORDS))
+      .filter((r) => r.source === "deploy")
+      .pop() || null;
+
+  const result = await runSpeedTest(url);
+  const current = await recordSpeedResult(result, {
+    source: "deploy",
+    deploymentId,
+  });
+
+  return {
+    result,
+    previous,
+    regressions:
+      previous && current ? detectRegressions(previous, current) : [],
+  };
+}
+
+export function formatRegressionAlert(
+  projectName: string,
+  url: string,
+  regressions: SpeedRegression[],
+): SafeHtml {
+  const list = regressions.map(
+    (r) => markup`• ${r.metric}: ${r.previous} → <b>${r.current}</b>\n`,
+  );
+
+  return markup`📉 <b>SPEED REGRESSION: ${projectName}</b>
+
+Compared with the previous production deploy:
+${list}
+🌐 ${url}
+💡 Run <code>/speed-trend ${projectName}</code> for the full history`;
+}
+
+/**
+ * Trend lines per metric - lower is better for timings and CLS
+ */
+export function formatSpeedTrendForTelegram(
+  url: string,
+  records: SpeedRecord[],
+): SafeHtml {
+  if (records.length === 0) {
+    return markup`📈 <b>Speed Trend</b>\n\nNo speed history for ${url} yet. Run <code>/speed</code> first.`;
+  }
+
+  const rows: Array<{
+    label: string;
+    key: keyof Pick<
+      SpeedRecord,
+      "performance" | "lcp" | "cls" | "ttfb" | "fcp"
+    >;
+    unit: string;
+    higherIsBetter: boolean;
+  }> = [
+    { label: "Perf", key: "performance", unit: "", higherIsBetter: true },
+    { label: "LCP ", key: "lcp", unit: "ms", higherIsBetter: false },
+    { label: "CLS ", key: "cls", unit: "", higherIsBetter: false },
+    { label: "TTFB", key: "ttfb", unit: "ms", higherIsBetter: false },
+  ];
+
+  const lines = rows.map(({ label, key, unit, higherIsBetter }) => {
+    const values = records.map((r) => r[key]);
+    const first = values[0];
+    const last = values[values.length - 1];
+    const improved = higherIsBetter ? last > first : last < first;
+    const trend = last === first ? "→" : improved ? "✅" : "⚠️";
+    return `${label} ${sparkline(values)} ${first}${unit} → ${last}${unit} ${trend}`;
+  });
+
+  const deploys = records.filter((r) => r.source === "deploy").length;
+  const since = new Date(records[0].at).toLocaleDateString();
+
+  return markup`📈 <b>SPEED TREND: ${url}</b>
+
+<pre>${lines.join("\n")}</pre>
+
+📊 ${records.length} runs since ${since} (${deploys} post-deploy)`;
+}
@@ -0,0 +1,220 @@
+/**
+ * STORAGE LAYER
+ * Pluggable key-value persistence for bot state (build memory, jobs, etc.)
+ *
+ * Drivers:
+ * - file (default): one JSON document per namespace in MACHINEMIND_DATA_DIR
+ * - memory: process-local, used for tests and ephemeral deployments
+ * - kv: one Redis hash per namespace over a REST API (Upstash / Vercel KV)
+ *
+ * On Vercel every invocation may run on its own instance with its own /tmp,
+ * so the cron routes and webhooks only see each other's state (jobs,
+ * monitors, reminders, pending actions) with the kv driver.
+ */
+
+import { promises as fs } from "fs";
+import path from "path";
+
+export interface KeyValueStore<T> {
+  get(key: string): Promise<T | null>;
+  set(key: string, value: T): Promise<void>;
+  delete(key: string): Promise<boolean>;
+  list(): Promise<T[]>;
+}
+
+export type StorageDriver = "file" | "memory" | "kv";
+
+type StoreFactory = <T>(namespace: string) => KeyValueStore<T>;
+
+const DEFAULT_DATA_DIR = path.join(process.cwd(), ".data");
+
+/**
+ * Directory for file-backed state
+ */
+export function getDataDir(): string {
+  return process.env.MACHINEMIND_DATA_DIR || DEFAULT_DATA_DIR;
+}
+
+/**
+ * In-memory store - state lives only as long as the process
+ */
+export function createMemoryStore<T>(): KeyValueStore<T> {
+  const data = new Map<string, T>();
+
+  return {
+    async get(key) {
+      return data.get(key) ?? null;
+    },
+    async set(key, value) {
+      data.set(key, value);
+    },
+    async delete(key) {
+      return data.delete(key);
+    },
+    async list() {
+      return Array.from(data.values());
+    },
+  };
+}
+
+/**
+ * JSON file store - one file per namespace, written atomically
+ */
+export function createJsonFileStore<T>(
+  namespace: string,
+  dataDir: string = getDataDir(),
+): KeyValueStore<T> {
+  const filePath = path.join(dataDir, `${namespace}.json`);
+
+  // Serialize writes so concurrent handlers don't clobber each other
+  let queue: Promise<unknown> = Promise.resolve();
+
+  async function read(): Promise<Record<string, T>> {
+    try {
+      const raw = await fs.readFile(filePath, "utf8");
+      return JSON.parse(raw) as Record<string, T>;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") return {};
+      throw error;
+    }
+  }
+
+  async function write(data: Record<string, T>): Promise<void> {
+    await fs.mkdir(dataDir, { recursive: true });
+    const tmpPath = `${filePath}.${process.pid}.tmp`;
+    await fs.writeFile(tmpPath, JSON.stringify(data, null, 2), "utf8");
+    await fs.rename(tmpPath, filePath);
+  }
+
+  function mutate<R>(fn: (data: Record<string, T>) => R): Promise<R> {
+    const next = queue.then(async () => {
+      const data = await read();
+      const result = fn(data);
+      await write(data);
+      return result;
+    });
+    queue = next.catch(() => undefined);
+    return next;
+  }
+
+  return {
+    async get(key) {
+      const data = await read();
+      return data[key] ?? null;
+    },
+    async set(key, value) {
+      await mutate((data) => {
+        data[key] = value;
+      });
+    },
+    async delete(key) {
+      return mutate((data) => {
+        if (!(key in data)) return false;
+        delete data[key];
+        return true;
+      });
+    },
+    async list() {
+      return Object.values(await read());
+    },
+  };
+}
+
+/**
+ * Redis REST store - shared by every instance, so safe for serverless crons
+ * Reads KV_REST_API_URL/KV_REST_API_TOKEN (Upstash's UPSTASH_REDIS_REST_* too)
+ */
+export function createKvStore<T>(namespace: string): KeyValueStore<T> {
+  const url = process.env.KV_REST_API_URL || process.env.UPSTASH_REDIS_REST_URL;
+  const token =
+    process.env.KV_REST_API_TOKEN || process.env.UPSTASH_REDIS_REST_TOKEN;
+  const hash = `machinemind:${namespace}`;
+
+  async function command<R>(...args: string[]): Promise<R> {
+    if (!url || !token) throw new Error("KV_REST_API_URL/TOKEN not set");
+
+    const response = await fetch(url, {
+      method: "POST",
+      headers: {
+        Authorization: `Bearer ${token}`,
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify(args),
+    });
+
+    const data = (await response.json()) as { result?: R; error?: string };
+    if (!response.ok || data.error) {
+      throw new Error(`KV error: ${data.error || response.status}`);
+    }
+    return data.result as R;
+  }
+
+  return {
+    async get(key) {
+      const raw = await command<string | null>("HGET", hash, key);
+      return raw === null ? null : (JSON.parse(raw) as T);
+    },
+    async set(key, value) {
+      await command("HSET", hash, key, JSON.stringify(value));
+    },
+    async delete(key) {
+      return (await command<number>("HDEL", hash, key)) > 0;
+    },
+    async list() {
+      const values = await command<string[]>("HVALS", hash);
+      return values.map((raw) => JSON.parse(raw) as T);
+    },
+  };
+}
+
+const drivers: Record<StorageDriver, StoreFactory> = {
+  file: (namespace) => createJsonFileStore(namespace),
+  memory: () => createMemoryStore(),
+  kv: (namespace) => createKvStore(namespace),
+};
+
+let warnedUnshared = false;
+
+const stores = new Map<string, KeyValueStore<unknown>>();
+
+/**
+ * Get the store for a namespace using the configured driver
+ * Set MACHINEMIND_STORAGE=memory to keep everything in-process
+ */
+export function getStore<T>(namespace: string): KeyValueStore<T> {
+  const existing = stores.get(namespace);
+  if (existing) return existing as KeyValueStore<T>;
+
+  const driver = (process.env.MACHINEMIND_STORAGE || "file") as StorageDriver;
+  const factory = drivers[driver] || drivers.file;
+
+  if (process.env.VERCEL && driver !== "kv" && !warnedUnshared) {
+    warnedUnshared = true;
+    console.warn(
+      `MACHINEMIND_STORAGE=${driver} is per-instance on Vercel - crons and webhooks won't share state. Use kv.`,
+    );
+  }
+  const store = factory<T>(namespace);
+
+  stores.set(namespace, store as KeyValueStore<unknown>);
+  return store;
+}
+
+/**
+ * Override the store for a namespace (tests, custom backends)
+ */
+export function setStore<T>(namespace: string, store: KeyValueStore<T>): void {
+  stores.set(namespace, store as KeyValueStore<unknown>);
+}
+
+/**
+ * Normalize a human name into a stable storage key
+ */
+export function slugify(value: string): string {
+  return value
+    .toLowerCase()
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "");
+}
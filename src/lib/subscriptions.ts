@@ -0,0 +1,114 @@
+/**
+ * REPO SUBSCRIPTIONS
+ * Which chats receive GitHub webhook summaries, per repo and event type
+ */
+
+import { getStore } from "./storage";
+
+export type GitHubEventType =
+  "push" | "pull_request" | "workflow_run" | "check_suite";
+
+export const GITHUB_EVENT_TYPES: GitHubEventType[] = [
+  "push",
+  "pull_request",
+  "workflow_run",
+  "check_suite",
+];
+
+// Matches every repo of the owner
+export const ALL_REPOS = "*";
+
+export interface Subscription {
+  chatId: number;
+  repo: string;
+  events: GitHubEventType[];
+  createdAt: string;
+}
+
+function store() {
+  return getStore<Subscription>("subscriptions");
+}
+
+const key = (chatId: number, repo: string) => `${chatId}:${repo}`;
+
+export function isGitHubEventType(value: string): value is GitHubEventType {
+  return (GITHUB_EVENT_TYPES as string[]).includes(value);
+}
+
+/**
+ * Add event types to a chat's subscription for a repo
+ */
+export async function subscribe(
+  chatId: number,
+  repo: string,
+  events: GitHubEventType[],
+): Promise<Subscription> {
+  const normalized = repo.toLowerCase();
+  const existing = await store().get(key(chatId, normalized));
+
+  const subscription: Subscription = {
+    chatId,
+    repo: normalized,
+    events: [...new Set([...(existing?.events || []), ...events])],
+    createdAt: existing?.createdAt || new Date().toISOString(),
+  };
+
+  await store().set(key(chatId, normalized), subscription);
+  return subscription;
+}
+
+/**
+ * Remove event types (or the whole subscription when none are given)
+ * Returns the remaining subscription, or null if nothing is left
+ */
+export async function unsubscribe(
+  chatId: number,
+  repo: string,
+  events?: GitHubEventType[],
+): Promise<Subscription | null> {
+  const normalized = repo.toLowerCase();
+  const existing = await store().get(key(chatId, normalized));
+  if (!existing) return null;
+
+  const remaining = events?.length
+    ? existing.events.filter((e) => !events.includes(e))
+    : [];
+
+  if (remaining.length === 0) {
+    await store().delete(key(chatId, normalized));
+    return null;
+  }
+
+  const updated = { ...existing, events: remaining };
+  await store().set(key(chatId, normalized), updated);
+  return updated;
+}
+
+export async function listSubscriptions(
+  chatId?: number,
+): Promise<Subscription[]> {
+  const all = await store().list();
+  return all
+    .filter((s) => chatId === undefined || s.chatId === chatId)
+    .sort((a, b) => a.repo.localeCompare(b.repo));
+}
+
+/**
+ * Chats subscribed to an event on a repo (directly or via "*")
+ */
+export async function getSubscribedChats(
+  repo: string,
+  event: GitHubEventType,
+): Promise<number[]> {
+  const normalized = repo.toLowerCase();
+  const all = await store().list();
+
+  return [
+    ...new Set(
+      all
+        .filter((s) => s.repo === normalized || s.repo === ALL_REPOS)
+        .filter((s) => s.events.includes(event))
+        .map((s) => s.chatId),
+    ),
+  ];
+}
@@ -1,9 +1,226 @@
 const TELEGRAM_API = "https://api.telegram.org/bot";
 
+// Telegram rejects callback_data longer than 64 bytes
+const MAX_CALLBACK_DATA_BYTES = 64;
+
+export interface InlineKeyboardButton {
+  text: string;
+  callback_data?: string;
+  url?: string;
+}
+
+export interface InlineKeyboardMarkup {
+  inline_keyboard: InlineKeyboardButton[][];
+}
+
+/**
+ * Build a button that sends callback data back to the webhook
+ */
+export function callbackButton(
+  text: string,
+  data: string,
+): InlineKeyboardButton {
+  if (Buffer.byteLength(data, "utf8") > MAX_CALLBACK_DATA_BYTES) {
+    throw new Error(
+      `Callback data exceeds ${MAX_CALLBACK_DATA_BYTES} bytes: ${data}`,
+    );
+  }
+  return { text, callback_data: data };
+}
+
+// Telegram's hard limit per message (after entity parsing)
+export const MAX_MESSAGE_LENGTH = 4096;
+
+// ============================================================================
+// HTML SAFETY - escape untrusted text before it reaches parse_mode=HTML
+// ============================================================================
+
+export interface SafeHtml {
+  readonly __html: string;
+  toString(): string;
+}
+
+export function escapeHtml(value: unknown): string {
+  return String(value ?? "")
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+/**
+ * Mark trusted markup so markup`` interpolates it without escaping
+ */
+export function raw(trusted: string): SafeHtml {
+  return { __html: trusted, toString: () => trusted };
+}
+
+function isSafeHtml(value: unknown): value is SafeHtml {
+  return typeof value === "object" && value !== null && "__html" in value;
+}
+
+/**
+ * Tagged template that escapes every interpolation unless wrapped in raw()
+ * or produced by another markup`` - arrays are joined without separators
+ *
+ * markup`<b>${project}</b>\n<pre>${logs}</pre>`
+ */
+export function markup(
+  strings: TemplateStringsArray,
+  ...values: unknown[]
+): SafeHtml {
+  const render = (value: unknown): string => {
+    if (Array.isArray(value)) return value.map(render).join("");
+    if (isSafeHtml(value)) return value.__html;
+    return escapeHtml(value);
+  };
+
+  return raw(
+    strings.reduce(
+      (out, part, i) =>
+        out + part + (i < values.length ? render(values[i]) : ""),
+      "",
+    ),
+  );
+}
+
+// ============================================================================
+// MESSAGE CHUNKING - split long HTML without leaving tags open
+// ============================================================================
+
+interface HtmlToken {
+  value: string;
+  kind: "open" | "close" | "text";
+  name?: string;
+}
+
+interface OpenTag {
+  name: string;
+  markup: string;
+}
+
+// Long text runs are sliced so a single token always fits in a chunk
+const MAX_TEXT_TOKEN = 1000;
+
+function tokenizeHtml(text: string): HtmlToken[] {
+  const tokens: HtmlToken[] = [];
+  const pattern =
+    /<(\/?)([a-z][a-z0-9-]*)[^>]*>|&#?[a-z0-9]+;|\n|[^\S\n]+|[^<&\s]+|[<&]/gi;
+
+  for (const match of text.matchAll(pattern)) {
+    const [value, slash, name] = match;
+
+    if (name) {
+      tokens.push({
+        value,
+        kind: slash ? "close" : "open",
+        name: name.toLowerCase(),
+      });
+      continue;
+    }
+
+    for (let i = 0; i < value.length; i += MAX_TEXT_TOKEN) {
+      tokens.push({ value: value.slice(i, i + MAX_TEXT_TOKEN), kind: "text" });
+    }
+  }
+
+  return tokens;
+}
+
+const closeTags = (stack: OpenTag[]) =>
+  [...stack]
+    .reverse()
+    .map((t) => `</${t.name}>`)
+    .join("");
+
+const openTags = (stack: OpenTag[]) => stack.map((t) => t.markup).join("");
+
+/**
+ * Split an HTML message into chunks under the Telegram limit
+ * Prefers line breaks, then spaces; tags open at a cut are closed and reopened
+ */
+export function splitHtmlMessage(
+  text: string,
+  limit: number = MAX_MESSAGE_LENGTH,
+): string[] {
+  if (text.length <= limit) return [text];
+
+  // Headroom for closing tags appended at the cut
+  const budget = limit - 128;
+  const chunks: string[] = [];
+
+  let stack: OpenTag[] = [];
+  let current = "";
+  let prefixLength = 0;
+  let lineBreak: { index: number; stack: OpenTag[] } | null = null;
+  let spaceBreak: { index: number; stack: OpenTag[] } | null = null;
+
+  const flush = () => {
+    const cut = lineBreak ||
+      spaceBreak || { index: current.length, stack: [...stack] };
+
+    chunks.push(current.slice(0, cut.index) + closeTags(cut.stack));
+
+    const reopen = openTags(cut.stack);
+    current = reopen + current.slice(cut.index).replace(/^[^\S\n]+/, "");
+    prefixLength = reopen.length;
+    lineBreak = null;
+    spaceBreak = null;
+  };
+
+  for (const token of tokenizeHtml(text)) {
+    if (
+      current.length + token.value.length + closeTags(stack).length > budget &&
+      current.length > prefixLength
+    ) {
+      flush();
+    }
+
+    current += token.value;
+
+    if (token.kind === "open") {
+      stack.push({ name: token.name!, markup: token.value });
+    } else if (token.kind === "close") {
+      const index = stack.map((t) => t.name).lastIndexOf(token.name!);
+      if (index !== -1) stack = stack.slice(0, index);
+    } else if (token.value === "\n") {
+      lineBreak = { index: current.length, stack: [...stack] };
+    } else if (/^\s+$/.test(token.value)) {
+      spaceBreak = { index: current.length, stack: [...stack] };
+    }
+  }
+
+  if (current.length > prefixLength) chunks.push(current);
+
+  return chunks.filter((chunk) => chunk.replace(/<[^>]+>/g, "").trim());
+}
+
+/**
+ * Split plain (non-HTML) text at line or space boundaries
+ */
+function splitPlainMessage(text: string, limit: number): string[] {
+  const chunks: string[] = [];
+  let rest = text;
+
+  while (rest.length > limit) {
+    const window = rest.slice(0, limit);
+    const cut = Math.max(window.lastIndexOf("\n"), window.lastIndexOf(" "));
+    const index = cut > limit / 2 ? cut + 1 : limit;
+    chunks.push(rest.slice(0, index));
+    rest = rest.slice(index);
+  }
+
+  if (rest) chunks.push(rest);
+  return chunks;
+}
+
 export async function sendMessage(
   chatId: number | string,
-  text: string,
-  options?: { parse_mode?: "HTML" | "Markdown" },
+  text: string | SafeHtml,
+  options?: {
+    parse_mode?: "HTML" | "Markdown";
+    reply_markup?: InlineKeyboardMarkup;
+  },
 ): Promise<boolean> {
   const token = process.env.TELEGRAM_BOT_TOKEN;
   if (!token) {
@@ -12,16 +229,112 @@ export async function sendMessage(
   }
 
   const url = `${TELEGRAM_API}${token}/sendMessage`;
-  const body = {
-    chat_id: chatId,
-    text,
-    parse_mode: options?.parse_mode || "HTML",
-  };
+  const parseMode = options?.parse_mode || "HTML";
+  const chunks =
+    parseMode === "HTML"
+      ? splitHtmlMessage(String(text))
+      : splitPlainMessage(String(text), MAX_MESSAGE_LENGTH);
+
+  let ok = true;
+
+  for (const [i, chunk] of chunks.entries()) {
+    const isLast = i === chunks.length - 1;
+    const body = {
+      chat_id: chatId,
+      text: chunk,
+      parse_mode: parseMode,
+      // Keyboards belong under the final chunk
+      ...(isLast &&
+        options?.reply_markup && { reply_markup: options.reply_markup }),
+    };
+
+    const response = await fetch(url, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(body),
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      console.error(`Telegram API error: ${response.status}`);
+      throw new Error(`Telegram API error: ${response.status} - ${errorText}`);
+    }
 
-  const response = await fetch(url, {
+    const result = await response.json();
+    ok = ok && result.ok;
+  }
+
+  return ok;
+}
+
+// ============================================================================
+// FILE UPLOADS - multipart sendDocument / sendPhoto
+// ============================================================================
+
+// Captions are capped at 1024 characters by Telegram
+const MAX_CAPTION_LENGTH = 1024;
+
+export interface TelegramFile {
+  filename: string;
+  content: string | Uint8Array;
+  contentType?: string;
+}
+
+interface UploadOptions {
+  caption?: string;
+  parse_mode?: "HTML" | "Markdown";
+  reply_markup?: InlineKeyboardMarkup;
+}
+
+async function uploadFile(
+  method: "sendDocument" | "sendPhoto",
+  field: "document" | "photo",
+  chatId: number | string,
+  file: TelegramFile | string,
+  options?: UploadOptions,
+): Promise<boolean> {
+  const token = process.env.TELEGRAM_BOT_TOKEN;
+  if (!token) {
+    console.error("TELEGRAM_BOT_TOKEN not set");
+    throw new Error("TELEGRAM_BOT_TOKEN not set");
+  }
+
+  const form = new FormData();
+  form.append("chat_id", String(chatId));
+
+  if (typeof file === "string") {
+    // Existing file_id or public URL - Telegram fetches it
+    form.append(field, file);
+  } else {
+    const bytes =
+      typeof file.content === "string"
+        ? new TextEncoder().encode(file.content)
+        : file.content;
+    const blob = new Blob([new Uint8Array(bytes)], {
+      type: file.contentType || "application/octet-stream",
+    });
+    form.append(field, blob, file.filename);
+  }
+
+  if (options?.caption) {
+    const parseMode = options.parse_mode || "HTML";
+    // HTML captions are cut with the tag-aware splitter so no tag or entity breaks
+    const caption =
+      parseMode === "HTML"
+        ? splitHtmlMessage(options.caption, MAX_CAPTION_LENGTH)[0] || ""
+        : options.caption.slice(0, MAX_CAPTION_LENGTH);
+    form.append("caption", caption);
+    form.append("parse_mode", parseMode);
+  }
+
+  if (options?.reply_markup) {
+    form.append("reply_markup", JSON.stringify(options.reply_markup));
+  }
+
+  // No Content-Type header - fetch sets the multipart boundary
+  const response = await fetch(`${TELEGRAM_API}${token}/${method}`, {
     method: "POST",
-    headers: { "Content-Type": "application/json" },
-    body: JSON.stringify(body),
+    body: form,
   });
 
   if (!response.ok) {
@@ -34,6 +347,28 @@ export async function sendMessage(
   return result.ok;
 }
 
+/**
+ * Upload a file (JSON, Markdown, logs...) as a Telegram document
+ */
+export async function sendDocument(
+  chatId: number | string,
+  file: TelegramFile | string,
+  options?: UploadOptions,
+): Promise<boolean> {
+  return uploadFile("sendDocument", "document", chatId, file, options);
+}
+
+/**
+ * Upload an image, or pass a URL / file_id for Telegram to fetch
+ */
+export async function sendPhoto(
+  chatId: number | string,
+  photo: TelegramFile | string,
+  options?: UploadOptions,
+): Promise<boolean> {
+  return uploadFile("sendPhoto", "photo", chatId, photo, options);
+}
+
 export async function sendTyping(chatId: number | string): Promise<void> {
   const token = process.env.TELEGRAM_BOT_TOKEN;
   if (!token) return;
@@ -49,6 +384,61 @@ export async function sendTyping(chatId: number | string): Promise<void> {
   }
 }
 
+export async function answerCallbackQuery(
+  callbackQueryId: string,
+  text?: string,
+): Promise<void> {
+  const token = process.env.TELEGRAM_BOT_TOKEN;
+  if (!token) return;
+
+  try {
+    await fetch(`${TELEGRAM_API}${token}/answerCallbackQuery`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ callback_query_id: callbackQueryId, text }),
+    });
+  } catch {
+    // Answering only clears the button spinner - swallow silently
+  }
+}
+
+export interface BotCommand {
+  // 1-32 chars of a-z, 0-9 and underscores
+  command: string;
+  description: string;
+}
+
+export type BotCommandScope =
+  { type: "default" } | { type: "chat"; chat_id: number | string };
+
+/**
+ * Replace the command menu Telegram shows for a scope
+ */
+export async function setMyCommands(
+  commands: BotCommand[],
+  scope: BotCommandScope = { type: "default" },
+): Promise<boolean> {
+  const token = process.env.TELEGRAM_BOT_TOKEN;
+  if (!token) {
+    throw new Error("TELEGRAM_BOT_TOKEN not set");
+  }
+
+  const response = await fetch(`${TELEGRAM_API}${token}/setMyCommands`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ commands, scope }),
+  });
+
+  if (!response.ok) {
+    console.error(
+      `Telegram setMyCommands error: ${response.status} - ${await response.text()}`,
+    );
+    return false;
+  }
+
+  return true;
+}
+
 export interface TelegramMessage {
   message_id: number;
   from: {
@@ -65,7 +455,15 @@ export interface TelegramMessage {
   text?: string;
 }
 
+export interface TelegramCallbackQuery {
+  id: string;
+  from: TelegramMessage["from"];
+  message?: Pick<TelegramMessage, "message_id" | "chat">;
+  data?: string;
+}
+
 export interface TelegramUpdate {
   update_id: number;
   message?: TelegramMessage;
+  callback_query?: TelegramCallbackQuery;
 }
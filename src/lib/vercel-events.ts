@@ -0,0 +1,94 @@
+/**
+ * VERCEL WEBHOOK EVENTS
+ * Zod schema for deployment events and their Telegram alerts
+ */
+
+import { z } from "zod";
+import {
+  markup,
+  SafeHtml,
+  callbackButton,
+  InlineKeyboardMarkup,
+} from "./telegram";
+
+export const VERCEL_DEPLOYMENT_EVENTS = [
+  "deployment.created",
+  "deployment.succeeded",
+  "deployment.error",
+] as const;
+
+export type VercelDeploymentEventType =
+  (typeof VERCEL_DEPLOYMENT_EVENTS)[number];
+
+export const VercelDeploymentEventSchema = z.object({
+  id: z.string(),
+  type: z.enum(VERCEL_DEPLOYMENT_EVENTS),
+  createdAt: z.number(),
+  payload: z.object({
+    deployment: z.object({
+      id: z.string(),
+      name: z.string(),
+      url: z.string(),
+      meta: z.record(z.string(), z.unknown()).optional(),
+    }),
+    project: z.object({ id: z.string() }).optional(),
+    target: z.string().nullable().optional(),
+    links: z
+      .object({
+        deployment: z.string().optional(),
+        project: z.string().optional(),
+      })
+      .optional(),
+  }),
+});
+
+export type VercelDeploymentEvent = z.infer<typeof VercelDeploymentEventSchema>;
+
+const metaString = (event: VercelDeploymentEvent, key: string) => {
+  const value = event.payload.deployment.meta?.[key];
+  return typeof value === "string" ? value : "";
+};
+
+/**
+ * Alert text for a deployment event
+ */
+export function formatDeploymentEvent(event: VercelDeploymentEvent): SafeHtml {
+  const { deployment, target, links } = event.payload;
+  const environment = target || "preview";
+  const commit = metaString(event, "githubCommitMessage").split("\n")[0];
+  const branch = metaString(event, "githubCommitRef");
+
+  const details = markup`${branch ? markup`\n🌿 <code>${branch}</code>` : ""}${commit ? markup`\n💬 ${commit.slice(0, 100)}` : ""}`;
+  const link = links?.deployment
+    ? markup`\n\n🔗 <a href="${links.deployment}">Deployment</a>`
+    : markup`\n\n🌐 https://${deployment.url}`;
+
+  switch (event.type) {
+    case "deployment.created":
+      return markup`🔄 <b>Deploying ${deployment.name}</b> (${environment})${details}${link}`;
+    case "deployment.succeeded":
+      return markup`✅ <b>${deployment.name} is live</b> (${environment})${details}\n\n🌐 https://${deployment.url}`;
+    case "deployment.error":
+      return markup`🚨 <b>DEPLOY FAILED: ${deployment.name}</b> (${environment})${details}${link}`;
+  }
+}
+
+/**
+ * Quick actions under a failure alert
+ */
+export function deploymentErrorKeyboard(
+  projectName: string,
+): InlineKeyboardMarkup | undefined {
+  // Button data must fit Telegram's 64-byte limit
+  if (projectName.length > 50) return undefined;
+
+  return {
+    inline_keyboard: [
+      [
+        callbackButton("📋 Logs", `/logs ${projectName}`),
+        callbackButton("🔧 Fix", `/fix ${projectName}`),
+        callbackButton("⏪ Rollback", `/rollback ${projectName}`),
+      ],
+    ],
+  };
+}
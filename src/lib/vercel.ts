@@ -29,6 +29,8 @@ interface VercelDomain {
   name: string;
   verified: boolean;
   gitBranch?: string;
+  // Set when the domain only redirects to another one (e.g. apex → www)
+  redirect?: string | null;
 }
 
 interface VercelEnvVar {